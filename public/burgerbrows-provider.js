@@ -0,0 +1,112 @@
+// BurgerBrows EIP-1193 provider for pages shown inside a BurgerBrows tab.
+// Requests are forwarded to the browser shell with postMessage; the shell asks the
+// user before sharing the account or signing anything.
+(function () {
+  if (window.parent === window || window.burgerbrows) return;
+
+  var REQUEST = 'burgerbrows:rpc';
+  var RESPONSE = 'burgerbrows:rpc-response';
+  var EVENT = 'burgerbrows:event';
+
+  // Set by the BurgerBrows proxy: the URL this copy of the page was served for and the proof that it was.
+  // Proxied pages have no origin of their own, so the shell knows which site is asking only from these.
+  var script = document.currentScript;
+  var page = script && script.dataset.pageUrl
+    ? { url: script.dataset.pageUrl, proof: script.dataset.pageProof }
+    : undefined;
+
+  var nextId = 1;
+  var pending = {};
+  var listeners = {};
+
+  function emit(event, data) {
+    (listeners[event] || []).slice().forEach(function (listener) {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error(error);
+      }
+    });
+  }
+
+  function request(args) {
+    if (!args || typeof args.method !== 'string') {
+      return Promise.reject(Object.assign(new Error('Invalid request'), { code: -32602 }));
+    }
+    return new Promise(function (resolve, reject) {
+      var id = nextId++;
+      pending[id] = { resolve: resolve, reject: reject };
+      window.parent.postMessage({ type: REQUEST, id: id, method: args.method, params: args.params || [], page: page }, '*');
+    });
+  }
+
+  window.addEventListener('message', function (event) {
+    if (event.source !== window.parent || !event.data) return;
+    var data = event.data;
+
+    if (data.type === RESPONSE && pending[data.id]) {
+      var call = pending[data.id];
+      delete pending[data.id];
+      if (data.error) {
+        call.reject(Object.assign(new Error(data.error.message), { code: data.error.code }));
+      } else {
+        call.resolve(data.result);
+      }
+    } else if (data.type === EVENT) {
+      // The shell doesn't send accounts to proxied pages it can't identify; ask for them instead
+      if (data.event === 'accountsChanged' && !data.data) {
+        request({ method: 'eth_accounts' }).then(function (accounts) {
+          provider.selectedAddress = accounts[0] || null;
+          emit('accountsChanged', accounts);
+        }).catch(function () {});
+        return;
+      }
+      if (data.event === 'accountsChanged') provider.selectedAddress = data.data[0] || null;
+      if (data.event === 'chainChanged') provider.chainId = data.data;
+      emit(data.event, data.data);
+    }
+  });
+
+  var provider = {
+    isBurgerBrows: true,
+    isMetaMask: false,
+    chainId: null,
+    selectedAddress: null,
+    request: request,
+    on: function (event, listener) {
+      (listeners[event] = listeners[event] || []).push(listener);
+      return provider;
+    },
+    removeListener: function (event, listener) {
+      listeners[event] = (listeners[event] || []).filter(function (item) { return item !== listener; });
+      return provider;
+    },
+    // Legacy API still used by older dapps
+    enable: function () {
+      return request({ method: 'eth_requestAccounts' });
+    },
+  };
+
+  request({ method: 'eth_chainId' }).then(function (chainId) {
+    provider.chainId = chainId;
+    emit('connect', { chainId: chainId });
+  }).catch(function () {});
+
+  window.burgerbrows = provider;
+  if (!window.ethereum) window.ethereum = provider;
+
+  // EIP-6963 multi-wallet discovery
+  var info = Object.freeze({
+    uuid: 'b7a4c1e2-5d3f-4e8a-9c6b-0b5e1f2a7d43',
+    name: 'BurgerBrows',
+    icon: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><text y="26" font-size="26">🍔</text></svg>',
+    rdns: 'app.burgerbrows',
+  });
+  function announce() {
+    window.dispatchEvent(new CustomEvent('eip6963:announceProvider', {
+      detail: Object.freeze({ info: info, provider: provider }),
+    }));
+  }
+  window.addEventListener('eip6963:requestProvider', announce);
+  announce();
+})();
@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+import { NextResponse } from 'next/server';
+import type { SignedActivityReport } from '@/lib/activity';
+import { getNetworkByChainId } from '@/lib/networks';
+import { ApiError, errorResponse } from '@/lib/server/hackathonWallet';
+import { getRewardSummary, recordActivity, verifyActivityReport } from '@/lib/server/rewardLedger';
+
+// The network rewards are accrued on; each network's RewardPool pays out its own ledger
+const readNetwork = (chainId: unknown) => {
+  const network = getNetworkByChainId(Number(chainId));
+  if (!network) {
+    throw new ApiError(`Unsupported chain ID: ${chainId}`, 400);
+  }
+  return network;
+};
+
+// Current accrued rewards for an address on a network
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const address = params.get('address');
+    if (!address || !ethers.isAddress(address)) {
+      throw new ApiError('A valid address is required', 400);
+    }
+    return NextResponse.json(getRewardSummary(readNetwork(params.get('chainId')), address));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Record a signed browsing-session heartbeat and accrue rewards for it
+export async function POST(request: Request) {
+  try {
+    let report: Partial<SignedActivityReport>;
+    try {
+      // sendBeacon posts text/plain, so parse the raw body ourselves
+      report = JSON.parse(await request.text());
+    } catch {
+      throw new ApiError('Request body must be JSON', 400);
+    }
+    if (typeof report.address !== 'string' || !ethers.isAddress(report.address)) {
+      throw new ApiError('A valid address is required', 400);
+    }
+    if (typeof report.sessionId !== 'string' || typeof report.url !== 'string') {
+      throw new ApiError('sessionId and url are required', 400);
+    }
+    const network = readNetwork(report.chainId);
+    const { visibleMs, sentAt, grant, grantSignature, signature } = report;
+    if (typeof visibleMs !== 'number' || !Number.isSafeInteger(visibleMs) || visibleMs < 0) {
+      throw new ApiError('visibleMs must be a whole number of milliseconds', 400);
+    }
+    if (typeof sentAt !== 'number' || !Number.isSafeInteger(sentAt)) {
+      throw new ApiError('sentAt must be a timestamp in milliseconds', 400);
+    }
+    if (
+      typeof grant?.account !== 'string' ||
+      typeof grant.activityKey !== 'string' ||
+      !ethers.isAddress(grant.activityKey) ||
+      !Number.isSafeInteger(grant.expiresAt) ||
+      typeof grantSignature !== 'string' ||
+      typeof signature !== 'string'
+    ) {
+      throw new ApiError('Activity reports must be signed by an authorized activity key', 401);
+    }
+
+    return NextResponse.json(recordActivity(network, verifyActivityReport({
+      address: report.address,
+      chainId: network.chainId,
+      sessionId: report.sessionId,
+      url: report.url,
+      visibleMs,
+      ended: report.ended === true,
+      sentAt,
+      grant: { account: grant.account, activityKey: grant.activityKey, expiresAt: grant.expiresAt },
+      grantSignature,
+      signature,
+    })));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
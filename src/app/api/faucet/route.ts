@@ -0,0 +1,36 @@
+import { ethers } from 'ethers';
+import { NextResponse } from 'next/server';
+import { USDC_DECIMALS } from '@/lib/contracts';
+import { errorResponse, getHackathonUsdc, readRecipient } from '@/lib/server/hackathonWallet';
+import { clientIp, limitSubjects, reserveRateLimit } from '@/lib/server/rateLimit';
+
+const FAUCET_AMOUNT = '100';
+
+// Mint test USDC to the requesting wallet using the hackathon wallet
+export async function POST(request: Request) {
+  let release: (() => Promise<void>) | undefined;
+  let submitted = false;
+  try {
+    const { address, network, deviceId } = await readRecipient(request);
+    const { contract } = getHackathonUsdc(network);
+    const amount = ethers.parseUnits(FAUCET_AMOUNT, USDC_DECIMALS);
+    ({ release } = await reserveRateLimit('faucet', limitSubjects(address, deviceId, clientIp(request))));
+
+    // Call mint function (only available on MockUSDC, not real USDC)
+    const tx = await contract.mint(address, amount);
+    submitted = true;
+    const receipt = await tx.wait();
+
+    return NextResponse.json({
+      hash: tx.hash,
+      blockNumber: receipt.blockNumber,
+      amount: FAUCET_AMOUNT,
+    });
+  } catch (error) {
+    // A mint that never went out doesn't count against the limits
+    if (release && !submitted) {
+      await release();
+    }
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import type { FrameCheck } from '@/lib/proxy';
+import { findBlockedHost } from '@/lib/server/blocklist';
+import { errorResponse } from '@/lib/server/hackathonWallet';
+import { fetchUpstream, getFrameBlockReason, isProxyAllowed, resolvePublicUrl } from '@/lib/server/proxy';
+
+// Report whether a site's headers forbid framing, since the iframe never fires onError for those blocks
+export async function GET(request: Request) {
+  try {
+    const target = await resolvePublicUrl(new URL(request.url).searchParams.get('url'));
+    const { response, url } = await fetchUpstream(
+      target,
+      { method: 'GET', headers: { accept: 'text/html' } },
+      resolvePublicUrl,
+      { readBody: false }
+    );
+
+    const reason = getFrameBlockReason(response.headers);
+    const result: FrameCheck = {
+      url: url.toString(),
+      framable: !reason,
+      reason,
+      // The proxy refuses blocklisted hosts even when the user chose to open them
+      proxyAllowed: isProxyAllowed(url.hostname) && !(await findBlockedHost(url)),
+    };
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
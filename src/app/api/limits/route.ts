@@ -0,0 +1,18 @@
+import { ethers } from 'ethers';
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/server/hackathonWallet';
+import { clientIp, getRateLimitStatuses, limitSubjects } from '@/lib/server/rateLimit';
+
+// Faucet and claim availability for an address and device, for the popup's countdowns
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const address = params.get('address');
+    if (!address || !ethers.isAddress(address)) {
+      throw new ApiError('A valid address is required', 400);
+    }
+    return NextResponse.json(await getRateLimitStatuses(limitSubjects(address, params.get('deviceId') ?? undefined, clientIp(request))));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
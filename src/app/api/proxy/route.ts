@@ -0,0 +1,92 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { RequestInit as UpstreamInit } from 'undici';
+import { PROXY_PATH } from '@/lib/proxy';
+import { errorResponse } from '@/lib/server/hackathonWallet';
+import {
+  createPageKey,
+  fetchUpstream,
+  PAGE_KEY_COOKIE,
+  pageProof,
+  parsePageKey,
+  readProxyTarget,
+  resolveProxyTarget,
+  rewriteCss,
+  rewriteHtml,
+} from '@/lib/server/proxy';
+
+// Request headers worth passing on; cookies and auth stay with BurgerBrows
+const FORWARDED_HEADERS = ['accept', 'accept-language', 'user-agent', 'content-type'];
+
+// Proxied pages run in an opaque origin so their scripts cannot reach the wallet in the parent page
+const SANDBOX_POLICY = 'sandbox allow-scripts allow-forms allow-popups';
+
+const charsetOf = (contentType: string) => /charset=([^;]+)/i.exec(contentType)?.[1].trim() ?? 'utf-8';
+
+const decodeText = (body: Uint8Array, contentType: string) => {
+  try {
+    return new TextDecoder(charsetOf(contentType)).decode(body);
+  } catch {
+    return new TextDecoder().decode(body);
+  }
+};
+
+// Fetch a page server-side without its framing headers and rewrite it to keep browsing through the proxy
+const proxyRequest = async (request: NextRequest) => {
+  try {
+    const target = await resolveProxyTarget(readProxyTarget(new URL(request.url).searchParams));
+
+    const headers = new Headers();
+    FORWARDED_HEADERS.forEach(name => {
+      const value = request.headers.get(name);
+      if (value) headers.set(name, value);
+    });
+    const init: UpstreamInit = { method: request.method, headers };
+    if (request.method === 'POST') {
+      init.body = await request.arrayBuffer();
+    }
+
+    const { response, url, body } = await fetchUpstream(target, init, resolveProxyTarget);
+    const contentType = response.headers.get('content-type') ?? 'application/octet-stream';
+    const responseHeaders = {
+      'Content-Security-Policy': SANDBOX_POLICY,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'no-store',
+    };
+
+    if (contentType.includes('text/html')) {
+      // Pages carry a proof of the URL they were served for, keyed to this browser, for the wallet bridge
+      const storedKey = parsePageKey(request.cookies.get(PAGE_KEY_COOKIE)?.value);
+      const key = storedKey ?? createPageKey();
+      const html = rewriteHtml(decodeText(body!, contentType), url, pageProof(url.toString(), key));
+      const page = new NextResponse(html, {
+        status: response.status,
+        headers: { ...responseHeaders, 'Content-Type': 'text/html; charset=utf-8' },
+      });
+      if (!storedKey) {
+        page.cookies.set(PAGE_KEY_COOKIE, key, {
+          httpOnly: true,
+          sameSite: 'strict',
+          secure: process.env.NODE_ENV === 'production',
+          path: PROXY_PATH,
+        });
+      }
+      return page;
+    }
+    if (contentType.includes('text/css')) {
+      const css = rewriteCss(decodeText(body!, contentType), url);
+      return new NextResponse(css, {
+        status: response.status,
+        headers: { ...responseHeaders, 'Content-Type': 'text/css; charset=utf-8' },
+      });
+    }
+    return new NextResponse(body as BodyInit, {
+      status: response.status,
+      headers: { ...responseHeaders, 'Content-Type': contentType },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+};
+
+export const GET = proxyRequest;
+export const POST = proxyRequest;
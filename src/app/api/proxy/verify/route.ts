@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { isProxiedPage } from '@/lib/proxy';
+import { ApiError, errorResponse } from '@/lib/server/hackathonWallet';
+import { PAGE_KEY_COOKIE, parsePageKey, verifyPageProof } from '@/lib/server/proxy';
+
+// Check the URL a proxied page reports to the wallet bridge against the proof the proxy served it with
+export async function POST(request: NextRequest) {
+  try {
+    const page = await request.json().catch(() => null);
+    if (!isProxiedPage(page)) {
+      throw new ApiError('A page url and proof are required', 400);
+    }
+    const key = parsePageKey(request.cookies.get(PAGE_KEY_COOKIE)?.value);
+    return NextResponse.json({ valid: Boolean(key) && verifyPageProof(page.url, page.proof, key!) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/server/hackathonWallet';
+import { clientIp, limitSubjects } from '@/lib/server/rateLimit';
+import { readRelayRequest, relayDeposit } from '@/lib/server/relayer';
+
+// Submit a signed gasless deposit (EIP-2612 permit + deposit intent); the hackathon wallet pays the gas
+export async function POST(request: Request) {
+  try {
+    const { network, intent, intentSignature, permitDeadline, permitSignature, deviceId } = await readRelayRequest(request);
+    const subjects = limitSubjects(intent.user, deviceId, clientIp(request));
+    return NextResponse.json(await relayDeposit(network, intent, intentSignature, permitDeadline, permitSignature, subjects));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, readRecipient } from '@/lib/server/hackathonWallet';
+import { clientIp, limitSubjects, reserveRateLimit } from '@/lib/server/rateLimit';
+import { findOutstandingVoucher, issueRewardVoucher } from '@/lib/server/rewardVouchers';
+
+// Sign a RewardPool voucher for the address's accrued browsing rewards; the wallet submits the claim
+export async function POST(request: Request) {
+  let release: (() => Promise<void>) | undefined;
+  try {
+    const { address, network, deviceId } = await readRecipient(request);
+    const subjects = limitSubjects(address, deviceId, clientIp(request));
+
+    // Handing back an unused voucher is not a new claim
+    const outstanding = await findOutstandingVoucher(network, address);
+    if (outstanding) {
+      return NextResponse.json(outstanding);
+    }
+
+    ({ release } = await reserveRateLimit('claim', subjects));
+    return NextResponse.json(await issueRewardVoucher(network, address));
+  } catch (error) {
+    await release?.();
+    return errorResponse(error);
+  }
+}
@@ -1,51 +1,198 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useSyncExternalStore } from 'react';
 import { ethers } from 'ethers';
-import { Wallet, Globe, DollarSign, Gift, TrendingUp, Home } from 'lucide-react';
-
-// Contract addresses from environment variables
-const CONTRACTS = {
-  MOCK_USDC: process.env.NEXT_PUBLIC_MOCK_USDC,
-  BROWSER_VAULT: process.env.NEXT_PUBLIC_BROWSER_VAULT,
-  REWARD_POOL: process.env.NEXT_PUBLIC_REWARD_POOL,
-  HACKATHON_WALLET: process.env.NEXT_PUBLIC_HACKATHON_WALLET
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { Wallet, Globe, DollarSign, Gift, TrendingUp, Home, Lock, ChevronDown, ArrowLeft, ArrowRight, RotateCw, Star } from 'lucide-react';
+import { DEFAULT_NETWORK, explorerTxUrl, getNetworkById } from '@/lib/networks';
+import { postJson, TxResponse } from '@/lib/api';
+import { useActivityTracker } from '@/hooks/useActivityTracker';
+import { useAutoLock } from '@/hooks/useAutoLock';
+import { useTransactionHistory } from '@/hooks/useTransactionHistory';
+import { useTabs } from '@/hooks/useTabs';
+import { useBookmarks } from '@/hooks/useBookmarks';
+import { useBrowsingHistory } from '@/hooks/useBrowsingHistory';
+import { useWalletBridge, type BridgeFrame } from '@/hooks/useWalletBridge';
+import { useTxManager } from '@/hooks/useTxManager';
+import { useChainActions } from '@/hooks/useChainActions';
+import { useActivityLog } from '@/hooks/useActivityLog';
+import { useRewardPool } from '@/hooks/useRewardPool';
+import { useRateLimits } from '@/hooks/useRateLimits';
+import { useChainSession } from '@/hooks/useChainSession';
+import { useBalances } from '@/hooks/useBalances';
+import { useExternalSigner } from '@/hooks/useExternalSigner';
+import { useBalanceWatcher } from '@/hooks/useBalanceWatcher';
+import { useDomainList } from '@/hooks/useDomainList';
+import {
+  addDerivedAccount,
+  createWallet,
+  getActiveAccount,
+  getKeystoreState,
+  importAccount,
+  migrateLegacyWallet,
+  removeAccount,
+  renameAccount,
+  restoreWallet,
+  setActiveAccount,
+  unlockWallet,
+  type KeystoreState,
+  type RestoredKey,
+  type WalletKeyring,
+} from '@/lib/keystore';
+import Web3Providers from '@/components/Web3Providers';
+import UnlockScreen from '@/components/UnlockScreen';
+import ChangePasswordForm from '@/components/ChangePasswordForm';
+import WalletBackupPanel from '@/components/WalletBackupPanel';
+import AccountSwitcher from '@/components/AccountSwitcher';
+import VaultPanel from '@/components/VaultPanel';
+import HistoryPanel from '@/components/HistoryPanel';
+import SendPanel from '@/components/SendPanel';
+import ReceivePanel from '@/components/ReceivePanel';
+import NetworkSwitcher from '@/components/NetworkSwitcher';
+import RpcHealthIndicator from '@/components/RpcHealthIndicator';
+import PrivateSessionPanel from '@/components/PrivateSessionPanel';
+import SecurityInterstitial from '@/components/SecurityInterstitial';
+import SiteProtectionPanel from '@/components/SiteProtectionPanel';
+import TabStrip from '@/components/TabStrip';
+import AddressBar from '@/components/AddressBar';
+import SearchEngineSelect from '@/components/SearchEngineSelect';
+import BookmarksBar from '@/components/BookmarksBar';
+import BookmarksManager from '@/components/BookmarksManager';
+import HistoryManager from '@/components/HistoryManager';
+import WalletRequestPopup from '@/components/WalletRequestPopup';
+import ConnectedSites from '@/components/ConnectedSites';
+import PendingTransactions from '@/components/PendingTransactions';
+import TxFlowProgress from '@/components/TxFlowProgress';
+import LogViewer from '@/components/LogViewer';
+import RewardPoolPanel from '@/components/RewardPoolPanel';
+import {
+  canGoBack,
+  canGoForward,
+  defaultTabTitle,
+  HOME_SEARCH_MESSAGE,
+  HOME_URL,
+  tabDisplayUrl,
+  tabUrl,
+  type BrowserTab,
+} from '@/lib/tabs';
+import { checkFraming, fromProxyUrl, isProxyUrl, toProxyUrl } from '@/lib/proxy';
+import { createPrivateSession, type PrivateSession } from '@/lib/privateSession';
+import { allowDomain, blockDomain, evaluateSiteSecurity, findThreat, forgetDomain, type BlockedDomain } from '@/lib/siteSecurity';
+import {
+  DEFAULT_SEARCH_SETTINGS,
+  getSearchProvider,
+  loadSearchSettings,
+  resolveAddressInput,
+  saveSearchSettings,
+  type SearchSettings,
+} from '@/lib/search';
+import type { Suggestion } from '@/lib/suggestions';
+import { addBookmark, createBookmark, findBookmarkByUrl, removeBookmark } from '@/lib/bookmarks';
+import { recordVisit } from '@/lib/browsingHistory';
+import type { TxKind } from '@/lib/pendingTx';
+import { formatLogLine, type LogCategory } from '@/lib/activityLog';
+import { formatDuration } from '@/lib/limits';
+import { createDeviceSigner, SIGNER_SOURCE_LABELS } from '@/lib/signers';
+import { chooseDepositPath } from '@/lib/gasless';
+import { isPaymentRequestUri, parsePaymentRequest, toSendPrefill, type SendPrefill } from '@/lib/paymentRequest';
+
+// Lock the wallet after this long without user interaction
+const AUTO_LOCK_MS = 5 * 60 * 1000;
+
+const NETWORK_STORAGE_KEY = 'burgerbrows_network';
+
+// Log category for messages about each kind of queued transaction
+const TX_LOG_CATEGORIES: Record<TxKind, LogCategory> = {
+  approve: 'vault',
+  deposit: 'vault',
+  withdraw: 'vault',
+  transfer: 'wallet',
+  claim: 'rewards',
+  cancel: 'wallet',
 };
 
-// MockUSDC ABI for comprehensive operations  
-const MOCK_USDC_ABI = [
-  "function balanceOf(address owner) view returns (uint256)",
-  "function transfer(address to, uint256 amount) returns (bool)",
-  "function approve(address spender, uint256 amount) returns (bool)",
-  "function allowance(address owner, address spender) view returns (uint256)",
-  "function decimals() view returns (uint8)",
-  "function mint(address to, uint256 amount) returns (bool)", // MockUSDC has mint function
-];
-
-// BrowserVault ABI for deposit functionality
-const BROWSER_VAULT_ABI = [
-  "function deposit(uint256 amount) external",
-  "function getBalance(address user) view returns (uint256)",
-  "function withdraw(uint256 amount) external",
-];
-
-const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL;
-
-interface UserWallet {
-  address: string;
-  privateKey: string;
-  deviceHash: string;
+interface BrowserWindowProps {
+  // Set while browsing privately: nothing is read from or written to the device's wallet, history or logs
+  privateSession: PrivateSession | null;
+  // Start a private session; its leftover USDC can be swept to `returnAddress` at the end
+  onStartPrivate: (returnAddress?: string) => void;
+  onEndPrivate: () => void;
 }
 
-export default function BurgerBrowsApp() {
-  const [wallet, setWallet] = useState<UserWallet | null>(null);
-  const [balance, setBalance] = useState('0.000000');
-  const [currentUrl, setCurrentUrl] = useState('/google-home.html');
-  const [provider, setProvider] = useState<ethers.JsonRpcProvider | null>(null);
+function BrowserWindow({ privateSession, onStartPrivate, onEndPrivate }: BrowserWindowProps) {
+  // Private sessions keep everything in memory; nothing goes to localStorage or IndexedDB
+  const persist = !privateSession;
+  const [keyring, setKeyring] = useState<WalletKeyring | null>(null);
+  const [networkId, setNetworkId] = useState(DEFAULT_NETWORK.id);
   const [loading, setLoading] = useState(false);
-  const [logs, setLogs] = useState<string[]>(['🚀 BurgerBrows Web initialized!']);
-  const [browserError, setBrowserError] = useState('');
+  const activityLog = useActivityLog(persist);
+  // Add log message
+  const addLog = activityLog.log;
+  const domainList = useDomainList(message => addLog(message, 'navigation'), persist);
+  const [showLogViewer, setShowLogViewer] = useState(false);
+  // Browsing rewards credited to each open tab this session
+  const [tabEarnings, setTabEarnings] = useState<Record<string, number>>({});
+  const frameRefs = useRef(new Map<string, HTMLIFrameElement>());
+  const [searchSettings, setSearchSettings] = useState<SearchSettings>(DEFAULT_SEARCH_SETTINGS);
+  const [showBookmarks, setShowBookmarks] = useState(false);
+  const [showHistoryManager, setShowHistoryManager] = useState(false);
   const [showWalletPopup, setShowWalletPopup] = useState(false);
+  const [keystoreState, setKeystoreState] = useState<KeystoreState | null>(null);
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showAccountSwitcher, setShowAccountSwitcher] = useState(false);
+  const [showVault, setShowVault] = useState(false);
+  const [showRewards, setShowRewards] = useState(false);
+  const [showSend, setShowSend] = useState(false);
+  const [showReceive, setShowReceive] = useState(false);
+  const [sendPrefill, setSendPrefill] = useState<SendPrefill | undefined>(undefined);
+  const [sendFormKey, setSendFormKey] = useState(0);
+  const [popupTab, setPopupTab] = useState<'wallet' | 'history' | 'sites'>('wallet');
+  // Flagged site a tab tried to open, held behind the warning page until the user decides
+  const [siteWarning, setSiteWarning] = useState<{ tabId: string; url: string; threat: BlockedDomain } | null>(null);
+  // Flagged URL per tab the user chose to open once; leaving it brings the warning back
+  const [allowedOnce, setAllowedOnce] = useState<Record<string, string>>({});
+  const wallet = privateSession?.wallet ?? getActiveAccount(keyring);
+  const network = getNetworkById(networkId) ?? DEFAULT_NETWORK;
+  // A connected external wallet takes over signing from the built-in one until it disconnects
+  const connectedWallet = useExternalSigner(network);
+  // Private sessions sign only with their throwaway wallet
+  const externalSigner = privateSession ? null : connectedWallet;
+  const activeSigner = externalSigner ?? (wallet ? createDeviceSigner(wallet) : null);
+  const activeAddress = activeSigner?.address;
+  const contracts = network.contracts;
+  const { session, chainWarning } = useChainSession(network, message => addLog(message, 'network'));
+  const provider = session?.provider ?? null;
+  const chainId = session?.chainId ?? null;
+  const walletBalances = useBalances(network, session, addLog);
+  const refreshBalances = walletBalances.refresh;
+  const usdcDecimals = walletBalances.decimals;
+  const networkBalances = walletBalances.balances;
+  const balance = (activeAddress && networkBalances[activeAddress]) ?? '0.000000';
+  const vaultBalance = (activeAddress && walletBalances.vaultBalances[activeAddress]) ?? '0.0';
+  const ethBalance = (activeAddress && walletBalances.ethBalances[activeAddress]) ?? '0.0';
+  // Accounts without ETH for gas deposit through the relayer
+  const depositPath = chooseDepositPath(ethBalance);
+  // Balances refresh when a block brings a Transfer or vault event for the active account
+  const rpcHealth = useBalanceWatcher(session, activeAddress, () => {
+    if (activeAddress) refreshBalances(activeAddress);
+  });
+  const history = useTransactionHistory(provider, network, activeAddress, usdcDecimals, persist);
+  const browserTabs = useTabs(persist);
+  const bookmarks = useBookmarks(persist);
+  const browsingHistory = useBrowsingHistory(persist);
+  const activeTab = browserTabs.activeTab;
+  const {
+    summary: rewardSummary,
+    startVisit,
+    endVisit,
+    endAllVisits,
+    focusTab,
+    refreshSummary,
+  } = useActivityTracker(privateSession ? null : activeSigner, provider, network.chainId, (amount, domain, tabId) => {
+    addLog(`👀 Browsing activity on ${domain} earned ${amount} USDC`, 'rewards');
+    setTabEarnings(prev => ({ ...prev, [tabId]: (prev[tabId] ?? 0) + Number(amount) }));
+  });
 
   // Generate device fingerprint for unique wallet creation
   const generateDeviceFingerprint = () => {
@@ -69,290 +216,573 @@ export default function BurgerBrowsApp() {
     return ethers.keccak256(ethers.toUtf8Bytes(fingerprint));
   };
 
-  // Create or load unique wallet
-  const initializeWallet = () => {
-    const stored = localStorage.getItem('burgerbrows_wallet');
-    if (stored) {
-      const walletData = JSON.parse(stored);
-      setWallet(walletData);
-      addLog(`👋 Welcome back! Loaded wallet: ${walletData.address.slice(0, 20)}...`);
-      return walletData;
-    } else {
-      const deviceHash = generateDeviceFingerprint();
-      const newWallet = ethers.Wallet.createRandom();
-      const walletData = {
-        address: newWallet.address,
-        privateKey: newWallet.privateKey,
-        deviceHash: deviceHash.slice(0, 16)
-      };
-      
-      localStorage.setItem('burgerbrows_wallet', JSON.stringify(walletData));
+  // Create, migrate or unlock the encrypted wallet with the user's password
+  const handleUnlock = async (password: string) => {
+    let unlocked: WalletKeyring;
+    if (keystoreState === 'none') {
+      unlocked = await createWallet(password, generateDeviceFingerprint().slice(0, 16));
       localStorage.setItem('burgerbrows_device_id', crypto.randomUUID());
-      
-      setWallet(walletData);
-      addLog(`🆕 New wallet created: ${walletData.address.slice(0, 20)}...`);
-      addLog(`👤 Device ID: ${walletData.deviceHash}`);
-      return walletData;
+      addLog(`🆕 New wallet created: ${unlocked.activeAddress.slice(0, 20)}...`, 'wallet');
+      addLog(`👤 Device ID: ${unlocked.deviceHash}`, 'wallet');
+      addLog(`📝 Back up your recovery phrase from Backup & Restore in the wallet`, 'wallet');
+    } else if (keystoreState === 'legacy') {
+      unlocked = await migrateLegacyWallet(password);
+      addLog(`🔐 Wallet encrypted with your password`, 'wallet');
+    } else {
+      unlocked = await unlockWallet(password);
+      addLog(`👋 Welcome back! Unlocked ${unlocked.accounts.length} account(s)`, 'wallet');
     }
+
+    setKeystoreState('encrypted');
+    setKeyring(unlocked);
+    // The active account is refreshed by the balance effect; fetch the rest for the switcher
+    unlocked.accounts
+      .filter(account => account.address !== unlocked.activeAddress)
+      .forEach(account => refreshBalances(account.address));
   };
 
-  // Add log message
-  const addLog = (message: string) => {
-    const timestamp = new Date().toLocaleTimeString();
-    setLogs(prev => [...prev.slice(-10), `[${timestamp}] ${message}`]);
+  // Replace the stored wallet with one restored from a backup or imported key
+  const handleRestore = async (restored: RestoredKey, password: string) => {
+    const deviceHash = wallet?.deviceHash ?? generateDeviceFingerprint().slice(0, 16);
+    const restoredKeyring = await restoreWallet(restored, password, deviceHash);
+    endAllVisits();
+    setKeystoreState('encrypted');
+    setKeyring(restoredKeyring);
+    walletBalances.clear();
+    setShowBackup(false);
+    addLog(`♻️ Wallet restored: ${restoredKeyring.activeAddress.slice(0, 20)}...`, 'wallet');
+  };
+
+  // Apply an account change: the new active account gets its own visit sessions and balance
+  const applyKeyring = (next: WalletKeyring) => {
+    if (next.activeAddress !== keyring?.activeAddress) {
+      endAllVisits();
+    }
+    setKeyring(next);
+  };
+
+  const switchAccount = (address: string) => {
+    if (!keyring) return;
+    applyKeyring(setActiveAccount(keyring, address));
+    setShowAccountSwitcher(false);
+    const account = keyring.accounts.find(item => item.address === address);
+    addLog(`🔀 Switched to ${account?.label}: ${address.slice(0, 10)}...`, 'wallet');
+  };
+
+  const addAccount = (label: string) => {
+    if (!keyring) return;
+    try {
+      const next = addDerivedAccount(keyring, label);
+      applyKeyring(next);
+      addLog(`➕ Created ${getActiveAccount(next)?.label}: ${next.activeAddress.slice(0, 10)}...`, 'wallet');
+    } catch (error) {
+      addLog(`❌ ${error instanceof Error ? error.message : error}`, 'wallet');
+    }
+  };
+
+  const importExtraAccount = async (restored: RestoredKey, password: string, label: string) => {
+    if (!keyring) return;
+    const next = await importAccount(keyring, restored, label, password);
+    applyKeyring(next);
+    addLog(`📥 Imported ${getActiveAccount(next)?.label}: ${next.activeAddress.slice(0, 10)}...`, 'wallet');
+  };
+
+  const renameExistingAccount = (address: string, label: string) => {
+    if (!keyring) return;
+    try {
+      setKeyring(renameAccount(keyring, address, label));
+    } catch (error) {
+      addLog(`❌ ${error instanceof Error ? error.message : error}`, 'wallet');
+    }
+  };
+
+  const removeExistingAccount = (address: string) => {
+    if (!keyring) return;
+    const account = keyring.accounts.find(item => item.address === address);
+    if (!confirm(`Remove ${account?.label} from this device? Make sure you can restore its key first.`)) return;
+    try {
+      applyKeyring(removeAccount(keyring, address));
+      addLog(`🗑️ Removed ${account?.label}`, 'wallet');
+    } catch (error) {
+      addLog(`❌ ${error instanceof Error ? error.message : error}`, 'wallet');
+    }
+  };
+
+  // Drop the decrypted key from memory and return to the unlock screen
+  const lockWallet = (reason?: string) => {
+    endAllVisits();
+    setKeyring(null);
+    setShowWalletPopup(false);
+    setShowAccountSwitcher(false);
+    setShowChangePassword(false);
+    setShowBackup(false);
+    setShowVault(false);
+    setShowSend(false);
+    setShowReceive(false);
+    addLog(`🔒 Wallet locked${reason ? ` ${reason}` : ''}`, 'wallet');
+  };
+
+  useAutoLock(keyring !== null, () => lockWallet('after inactivity'), AUTO_LOCK_MS);
+
+  // Lock the stored wallet and switch to a throwaway one; the current account can receive the sweep later
+  const startPrivateSession = () => {
+    if (!confirm('Start a private session? Your wallet locks and a throwaway wallet takes over until the session ends.')) return;
+    endAllVisits();
+    onStartPrivate(activeAddress);
   };
 
   // Copy wallet address to clipboard
   const copyWalletAddress = async () => {
-    if (wallet?.address) {
+    if (activeAddress) {
       try {
-        await navigator.clipboard.writeText(wallet.address);
-        addLog(`📋 Wallet address copied to clipboard!`);
+        await navigator.clipboard.writeText(activeAddress);
+        addLog(`📋 Wallet address copied to clipboard!`, 'wallet');
       } catch (error) {
-        addLog(`❌ Failed to copy address`);
+        addLog(`❌ Failed to copy address`, 'wallet');
       }
     }
   };
 
-  // Initialize provider and wallet on mount
+  // Searches from the bundled home page arrive as messages from its frame
   useEffect(() => {
-    try {
-      // Validate required environment variables
-      if (!RPC_URL) {
-        addLog(`❌ RPC URL not configured`);
-        return;
-      }
-      if (!CONTRACTS.MOCK_USDC || !CONTRACTS.BROWSER_VAULT || !CONTRACTS.REWARD_POOL) {
-        addLog(`❌ Contract addresses not configured`);
-        return;
-      }
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin) return;
+      const data = event.data as { type?: unknown; query?: unknown } | null;
+      if (data?.type !== HOME_SEARCH_MESSAGE || typeof data.query !== 'string' || !data.query.trim()) return;
+      const frameEntry = [...frameRefs.current].find(([, frame]) => frame.contentWindow === event.source);
+      if (frameEntry) navigateTabToRef.current(frameEntry[0], data.query);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
 
-      addLog(`🔗 Connecting to RPC: ${RPC_URL.slice(0, 50)}...`);
-      addLog(`📋 Using MockUSDC contract: ${CONTRACTS.MOCK_USDC.slice(0, 20)}...`);
-      const provider = new ethers.JsonRpcProvider(RPC_URL);
-      setProvider(provider);
-      
-      const walletData = initializeWallet();
-      
-      // Check initial balance
-      if (walletData) {
-        addLog(`💼 Wallet loaded: ${walletData.address.slice(0, 10)}...`);
-        checkBalance(provider, walletData.address);
+  // window.ethereum requests from framed pages; proxied pages prove which site they show with each request
+  const walletBridge = useWalletBridge({
+    signer: activeSigner,
+    provider,
+    chainId: network.chainId,
+    getFrames: () => browserTabs.tabs.flatMap((tab): BridgeFrame[] => {
+      const frame = frameRefs.current.get(tab.id);
+      if (!frame) return [];
+      if (isProxyUrl(tabUrl(tab))) return [{ frame, origin: null }];
+      try {
+        return [{ frame, origin: new URL(tabUrl(tab), window.location.origin).origin }];
+      } catch {
+        return [];
       }
-    } catch (error) {
-      addLog(`❌ Failed to initialize: ${error}`);
-    }
-  }, []);
+    }),
+    getThreat: origin => findThreat(domainList.list, origin),
+    persist,
+    onLog: message => addLog(message, 'wallet'),
+  });
 
-  // Check MockUSDC balance
-  const checkBalance = async (providerInstance?: ethers.JsonRpcProvider, address?: string) => {
-    if (!provider && !providerInstance) return;
-    if (!wallet && !address) return;
-    if (!CONTRACTS.MOCK_USDC) {
-      addLog(`❌ MockUSDC contract not configured`);
-      return;
+  const txManager = useTxManager(provider, network, activeSigner, (message, tx) => {
+    addLog(message, TX_LOG_CATEGORIES[tx.kind], { txHash: tx.hash });
+  }, persist);
+
+  const rewardPool = useRewardPool(session, activeAddress, usdcDecimals);
+  const chainActions = useChainActions({
+    session,
+    signer: activeSigner,
+    deviceId: wallet?.deviceHash,
+    decimals: usdcDecimals,
+    depositPath,
+    txManager,
+    onLog: addLog,
+    onTransfer: history.refresh,
+  });
+  const claimPending = txManager.transactions.some(tx => tx.kind === 'claim' && tx.status === 'pending');
+  const rateLimits = useRateLimits(activeAddress, wallet?.deviceHash);
+  const faucetWait = rateLimits.remaining('faucet');
+  const claimWait = rateLimits.remaining('claim');
+
+  // Only the active tab accrues visible browsing time
+  useEffect(() => {
+    focusTab(activeTab?.id ?? null);
+  }, [activeTab?.id, focusTab]);
+
+  // Load keystore state, the last selected network and search settings on mount
+  useEffect(() => {
+    addLog('🚀 BurgerBrows Web initialized!', 'network');
+    if (privateSession) {
+      addLog(`🕶️ Private session started with throwaway wallet ${privateSession.wallet.address.slice(0, 10)}...`, 'wallet');
+    }
+    setKeystoreState(getKeystoreState());
+    setSearchSettings(loadSearchSettings());
+    const storedNetwork = getNetworkById(localStorage.getItem(NETWORK_STORAGE_KEY));
+    if (storedNetwork) {
+      setNetworkId(storedNetwork.id);
     }
+  }, [addLog, privateSession]);
 
-    const activeProvider = providerInstance || provider!;
-    const walletAddress = address || wallet!.address;
+  // Leaving the page discards a private session's wallet, so ask first
+  useEffect(() => {
+    if (!privateSession) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [privateSession]);
 
-    try {
-      setLoading(true);
-      addLog(`🏦 Checking MockUSDC balance...`);
-      
-      const contract = new ethers.Contract(CONTRACTS.MOCK_USDC, MOCK_USDC_ABI, activeProvider);
-      const balance = await contract.balanceOf(walletAddress);
-      const formattedBalance = ethers.formatUnits(balance, 6);
-      
-      setBalance(formattedBalance);
-      addLog(`💰 MockUSDC Balance: ${formattedBalance}`);
-    } catch (error) {
-      addLog(`❌ Error checking balance: ${error}`);
-    } finally {
-      setLoading(false);
+  // Refresh the active account's balances on connect and whenever the account changes
+  useEffect(() => {
+    if (activeAddress) {
+      refreshBalances(activeAddress);
     }
+  }, [refreshBalances, activeAddress]);
+
+  // Note when an external wallet takes over signing
+  const externalAddress = externalSigner?.address;
+  const externalName = externalSigner?.name;
+  useEffect(() => {
+    if (externalAddress) {
+      addLog(`🔌 Signing with ${externalName}: ${externalAddress.slice(0, 10)}...`, 'wallet');
+    }
+  }, [externalAddress, externalName, addLog]);
+
+  // Switch networks; balances and history stay cached per network
+  const switchNetwork = (id: string) => {
+    const next = getNetworkById(id);
+    if (!next || next.id === network.id) return;
+    endAllVisits();
+    setShowSend(false);
+    if (persist) localStorage.setItem(NETWORK_STORAGE_KEY, next.id);
+    setNetworkId(next.id);
+    addLog(`🌍 Switched to ${next.name}`, 'network');
+  };
+
+  // Refresh the active account's MockUSDC and BrowserVault balances
+  const checkBalance = () => {
+    if (activeAddress) refreshBalances(activeAddress);
   };
 
-  // Get test USDC from MockUSDC faucet using mint function
+  // Get test USDC from MockUSDC faucet (minted server-side by the hackathon wallet)
   const mintTestUSDC = async () => {
-    if (!provider || !wallet) return;
-    if (!CONTRACTS.MOCK_USDC) {
-      addLog(`❌ MockUSDC contract not configured`);
-      return;
-    }
+    if (!session || !wallet || !activeAddress || privateSession) return;
 
     try {
       setLoading(true);
-      addLog(`🚰 Minting 100 test USDC from MockUSDC faucet...`);
-      
-      // Use hackathon wallet to call mint function
-      const hackathonPrivateKey = process.env.NEXT_PUBLIC_HACKATHON_PRIVATE_KEY;
-      if (!hackathonPrivateKey) {
-        addLog(`❌ Hackathon wallet not configured`);
-        return;
-      }
-      const hackathonWallet = new ethers.Wallet(hackathonPrivateKey, provider);
-      
-      // Create MockUSDC contract instance
-      const contract = new ethers.Contract(CONTRACTS.MOCK_USDC, MOCK_USDC_ABI, hackathonWallet);
-      const amount = ethers.parseUnits('100', 6); // 100 USDC
-      
-      addLog(`🎯 Minting to your wallet: ${wallet.address.slice(0, 20)}...`);
-      
-      // Call mint function (only available on MockUSDC, not real USDC)
-      const tx = await contract.mint(wallet.address, amount);
-      addLog(`📤 Mint transaction sent: ${tx.hash.slice(0, 20)}...`);
+      addLog(`🚰 Minting 100 test USDC from MockUSDC faucet...`, 'wallet');
+      addLog(`🎯 Minting to your wallet: ${activeAddress.slice(0, 20)}...`, 'wallet');
       
-      const receipt = await tx.wait();
-      addLog(`✅ MockUSDC minted successfully!`);
-      addLog(`🔗 Block: ${receipt.blockNumber}`);
-      
-      // Update balance
-      setTimeout(() => checkBalance(), 2000);
+      const result = await postJson<TxResponse>('/api/faucet', {
+        address: activeAddress,
+        chainId: network.chainId,
+        deviceId: wallet.deviceHash,
+      });
+      addLog(`📤 Mint transaction sent: ${result.hash.slice(0, 20)}...`, 'wallet', { txHash: result.hash });
+      addLog(`✅ MockUSDC minted successfully!`, 'wallet');
+      addLog(`🔗 Block: ${result.blockNumber}`, 'wallet');
     } catch (error) {
-      addLog(`❌ Mint error: ${error}`);
+      addLog(`❌ Mint error: ${error instanceof Error ? error.message : error}`, 'wallet');
     } finally {
       setLoading(false);
+      rateLimits.refresh();
+    }
+  };
+
+  // Claim browsing rewards, then refresh everything the claim changes
+  const claimRewards = async () => {
+    if (privateSession) return;
+    await chainActions.claimRewards(rewardSummary?.accrued ?? '0');
+    refreshSummary();
+    rewardPool.refresh();
+    rateLimits.refresh();
+  };
+
+  // Move the private wallet's USDC, including anything in the vault, to the main wallet, then end the session
+  const sweepAndEndPrivateSession = async () => {
+    const returnAddress = privateSession?.returnAddress;
+    if (!returnAddress) return;
+
+    setLoading(true);
+    const swept = await chainActions.sweep(returnAddress);
+    setLoading(false);
+    if (swept) onEndPrivate();
+  };
+
+  const quickAccess = bookmarks.store.bookmarks.filter(bookmark => bookmark.folderId === null);
+  const activeBookmark = activeTab ? findBookmarkByUrl(bookmarks.store, tabDisplayUrl(activeTab)) : undefined;
+
+  // Star or unstar the active tab's page; new bookmarks land on the Quick Access bar
+  const toggleBookmark = () => {
+    if (!activeTab) return;
+    if (activeBookmark) {
+      bookmarks.update(store => removeBookmark(store, activeBookmark.id));
+      addLog(`☆ Removed bookmark: ${activeBookmark.title}`, 'navigation');
+    } else {
+      const bookmark = createBookmark(activeTab.title, tabDisplayUrl(activeTab));
+      bookmarks.update(store => addBookmark(store, bookmark));
+      addLog(`⭐ Bookmarked: ${bookmark.title}`, 'navigation');
     }
   };
 
-  // Deposit USDC into BrowserVault (real implementation matching Python version)
-  const depositUSDC = async () => {
-    if (!provider || !wallet) return;
-    if (!CONTRACTS.MOCK_USDC || !CONTRACTS.BROWSER_VAULT) {
-      addLog(`❌ Contract addresses not configured`);
+  // Navigate a tab to typed input: a URL, a search query or a payment request.
+  // Blocklisted sites wait behind a warning page unless `bypassBlocklist`; frame-blocked sites load through the proxy.
+  const navigateTabTo = async (tabId: string, input: string, bypassBlocklist = false) => {
+    // EIP-681 payment requests open the Send form instead of navigating
+    if (isPaymentRequestUri(input)) {
+      openPaymentRequest(input);
       return;
     }
+    const resolved = resolveAddressInput(input, searchSettings);
+    let url = resolved.url;
+    const threat = bypassBlocklist ? null : findThreat(domainList.list, url);
+    if (threat) {
+      setSiteWarning({ tabId, url, threat });
+      addLog(`⛔ Blocked ${url}: flagged as ${threat.category} (${threat.domain})`, 'navigation', { url, level: 'error' });
+      return;
+    }
+    setSiteWarning(current => (current?.tabId === tabId ? null : current));
+    endVisit(tabId);
+    addLog(resolved.kind === 'search' ? `🔍 Searching for: ${resolved.query}` : `🌐 Navigating to: ${url}`, 'navigation', { url });
 
-    try {
-      setLoading(true);
-      addLog(`🏦 Preparing MockUSDC deposit to BrowserVault...`);
-      
-      // Create user wallet instance
-      const userWallet = new ethers.Wallet(wallet.privateKey, provider);
-      
-      // Check current balance first
-      const usdcContract = new ethers.Contract(CONTRACTS.MOCK_USDC, MOCK_USDC_ABI, userWallet);
-      const balance = await usdcContract.balanceOf(wallet.address);
-      
-      if (balance === BigInt(0)) {
-        addLog(`❌ No MockUSDC to deposit. Use faucet first!`);
-        return;
-      }
-      
-      const depositAmount = ethers.parseUnits('50', 6); // Deposit 50 USDC
-      
-      if (balance < depositAmount) {
-        addLog(`❌ Insufficient balance. Need 50 MockUSDC, have ${ethers.formatUnits(balance, 6)}`);
-        return;
+    if (!url.startsWith('/')) {
+      browserTabs.markLoading(tabId);
+      try {
+        const check = await checkFraming(url);
+        if (!check.framable && check.proxyAllowed) {
+          addLog(`🛡️ ${new URL(url).hostname} blocks framing (${check.reason}), loading through proxy`, 'navigation', { url });
+          url = toProxyUrl(url);
+        } else if (!check.framable) {
+          browserTabs.navigate(tabId, url);
+          browserTabs.markFailed(tabId, `This site refuses to be displayed in an embedded frame (${check.reason}) and is not allowed through the proxy.`);
+          addLog(`🚫 ${url} blocks framing: ${check.reason}`, 'navigation', { url, level: 'error' });
+          return;
+        }
+      } catch (error) {
+        // If the pre-check fails, try loading the site directly
+        addLog(`⚠️ Frame check failed: ${error instanceof Error ? error.message : error}`, 'navigation');
       }
-      
-      // Step 1: Approve BrowserVault to spend USDC
-      addLog(`🔐 Approving BrowserVault to spend MockUSDC...`);
-      const approveTx = await usdcContract.approve(CONTRACTS.BROWSER_VAULT, depositAmount);
-      await approveTx.wait();
-      addLog(`✅ Approval confirmed`);
-      
-      // Step 2: Deposit to BrowserVault
-      addLog(`🏦 Depositing 50 MockUSDC to BrowserVault...`);
-      const vaultContract = new ethers.Contract(CONTRACTS.BROWSER_VAULT, BROWSER_VAULT_ABI, userWallet);
-      const depositTx = await vaultContract.deposit(depositAmount);
-      
-      addLog(`📤 Deposit transaction: ${depositTx.hash.slice(0, 20)}...`);
-      const receipt = await depositTx.wait();
-      addLog(`✅ Successfully deposited 50 MockUSDC to vault!`);
-      addLog(`� Block: ${receipt.blockNumber}`);
-      
-      // Update balance
-      setTimeout(() => checkBalance(), 2000);
-    } catch (error) {
-      addLog(`❌ Deposit error: ${error}`);
-    } finally {
-      setLoading(false);
     }
+    browserTabs.navigate(tabId, url);
   };
 
-  // Claim rewards (transfer MockUSDC from hackathon wallet)
-  const claimRewards = async () => {
-    if (!provider || !wallet) return;
-    if (!CONTRACTS.MOCK_USDC) {
-      addLog(`❌ MockUSDC contract not configured`);
+  const navigateTabToRef = useRef(navigateTabTo);
+  useEffect(() => {
+    navigateTabToRef.current = navigateTabTo;
+  });
+
+  const navigateToUrl = (input: string) => {
+    if (activeTab) navigateTabTo(activeTab.id, input);
+  };
+
+  // Blocklist entry for the page a tab is showing, unless the user chose to open it once.
+  // Covers restored tabs, back/forward and links followed inside proxied pages, which skip navigateTabTo.
+  const tabThreat = (tab: BrowserTab) => {
+    const url = tabDisplayUrl(tab);
+    return allowedOnce[tab.id] === url ? null : findThreat(domainList.list, url);
+  };
+
+  const activeThreat = activeTab && tabThreat(activeTab);
+  const activeWarning = siteWarning && siteWarning.tabId === activeTab?.id
+    ? siteWarning
+    : activeTab && activeThreat ? { tabId: activeTab.id, url: tabDisplayUrl(activeTab), threat: activeThreat } : null;
+
+  // Leave the warning page, optionally loading the flagged site and trusting its domain from now on
+  const resolveSiteWarning = (choice: 'back' | 'proceed' | 'trust') => {
+    if (!activeWarning) return;
+    const { tabId, url, threat } = activeWarning;
+    setSiteWarning(null);
+    if (choice === 'back') {
+      // Move the tab off the flagged page if it is already on it
+      const tab = browserTabs.tabs.find(candidate => candidate.id === tabId);
+      if (tab && tabDisplayUrl(tab) === url) {
+        endVisit(tabId);
+        if (canGoBack(tab)) {
+          browserTabs.goBack(tabId);
+        } else {
+          browserTabs.navigate(tabId, HOME_URL);
+        }
+      }
       return;
     }
+    if (choice === 'trust') {
+      domainList.update(list => allowDomain(list, threat.domain));
+      addLog(`✅ Allowed ${threat.domain} despite the blocklist`, 'navigation');
+    } else {
+      setAllowedOnce(prev => ({ ...prev, [tabId]: url }));
+    }
+    addLog(`⚠️ Opening flagged site ${url} at your request`, 'navigation', { url });
+    navigateTabTo(tabId, url, true);
+  };
+
+  const changeSearchSettings = (next: SearchSettings) => {
+    if (persist) saveSearchSettings(next);
+    setSearchSettings(next);
+    addLog(`🔍 Search engine set to ${getSearchProvider(next).name}`, 'navigation');
+  };
+
+  // Address bar suggestions from bookmarks and browsing history
+  const suggestions: Suggestion[] = [
+    ...bookmarks.store.bookmarks.map(bookmark => ({ title: bookmark.title, url: bookmark.url, source: 'bookmark' as const })),
+    ...browsingHistory.visits.map(visit => ({ title: visit.title, url: visit.url, source: 'history' as const })),
+  ];
+
+  // Back, forward and reload act on the active tab's own history
+  const goBack = () => {
+    if (!activeTab || !canGoBack(activeTab)) return;
+    endVisit(activeTab.id);
+    browserTabs.goBack(activeTab.id);
+  };
+
+  const goForward = () => {
+    if (!activeTab || !canGoForward(activeTab)) return;
+    endVisit(activeTab.id);
+    browserTabs.goForward(activeTab.id);
+  };
+
+  const reloadTab = () => {
+    if (!activeTab) return;
+    endVisit(activeTab.id);
+    browserTabs.reload(activeTab.id);
+  };
+
+  const openTab = () => {
+    browserTabs.openTab();
+    addLog(`🗂️ Opened a new tab`, 'navigation');
+  };
+
+  const closeTab = (id: string) => {
+    endVisit(id);
+    frameRefs.current.delete(id);
+    browserTabs.closeTab(id);
+    setSiteWarning(current => (current?.tabId === id ? null : current));
+    setAllowedOnce(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    setTabEarnings(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
 
+  // Prefill the Send form from an ethereum: payment request link
+  const openPaymentRequest = (uri: string) => {
     try {
-      setLoading(true);
-      addLog(`🎁 Claiming browsing rewards...`);
-      
-      // Use hardcoded hackathon wallet (fee payer for rewards)
-      const hackathonPrivateKey = process.env.NEXT_PUBLIC_HACKATHON_PRIVATE_KEY;
-      if (!hackathonPrivateKey) {
-        addLog(`❌ Hackathon wallet not configured`);
-        return;
-      }
-      const hackathonWallet = new ethers.Wallet(hackathonPrivateKey, provider);
-      
-      const contract = new ethers.Contract(CONTRACTS.MOCK_USDC, MOCK_USDC_ABI, hackathonWallet);
-      const rewardAmount = ethers.parseUnits('10', 6); // 10 USDC reward
-      
-      // Check hackathon wallet balance
-      const hackathonBalance = await contract.balanceOf(hackathonWallet.address);
-      if (hackathonBalance < rewardAmount) {
-        addLog(`❌ Insufficient reward funds. Available: ${ethers.formatUnits(hackathonBalance, 6)} USDC`);
-        return;
-      }
-      
-      addLog(`🏆 Distributing 10 USDC browsing reward...`);
-      
-      const tx = await contract.transfer(wallet.address, rewardAmount);
-      addLog(`📤 Reward transaction: ${tx.hash.slice(0, 20)}...`);
-      
-      const receipt = await tx.wait();
-      addLog(`✅ Rewards claimed successfully!`);
-      addLog(`🎉 +10 USDC for active browsing`);
-      
-      // Update balance
-      setTimeout(() => checkBalance(), 2000);
+      const prefill = toSendPrefill(parsePaymentRequest(uri), contracts.MOCK_USDC, chainId, usdcDecimals);
+      setSendPrefill(prefill);
+      setSendFormKey(key => key + 1);
+      setPopupTab('wallet');
+      setShowSend(true);
+      setShowWalletPopup(true);
+      addLog(`🧾 Payment request to ${prefill.recipient.slice(0, 10)}...${prefill.amount ? ` for ${prefill.amount} USDC` : ''}`, 'wallet');
     } catch (error) {
-      addLog(`❌ Claim error: ${error}`);
-    } finally {
-      setLoading(false);
+      addLog(`❌ ${error instanceof Error ? error.message : error}`, 'wallet');
     }
   };
 
-  // Safe sites that can be embedded in iframes
-  const safeSites = [
-    { name: 'Google', url: '/google-home.html' },
-    { name: 'Test Page', url: '/test-page.html' },
-    { name: 'Example', url: 'https://example.com' },
-    { name: 'Wikipedia', url: 'https://en.wikipedia.org' },
-    { name: 'Ethereum.org', url: 'https://ethereum.org' },
-    { name: 'DuckDuckGo', url: 'https://duckduckgo.com' }
-  ];
-
-  // Navigate to URL
-  const navigateToUrl = (url: string) => {
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
-      url = 'https://' + url;
+  // Record a finished load; same-origin pages also report their real URL and title
+  const handleFrameLoad = (tab: BrowserTab) => {
+    const frame = frameRefs.current.get(tab.id);
+    let frameUrl: string | undefined;
+    let title: string | undefined;
+    try {
+      const location = frame?.contentWindow?.location;
+      if (location && location.origin === window.location.origin) {
+        frameUrl = location.pathname + location.search + location.hash;
+        title = frame?.contentDocument?.title;
+      }
+    } catch {
+      // Cross-origin frames keep the requested URL and hostname title
     }
-    setCurrentUrl(url);
-    setBrowserError('');
-    addLog(`🌐 Navigating to: ${url}`);
-    
-    // Simulate browsing activity for rewards
-    setTimeout(() => {
-      addLog(`👀 Browsing activity detected - earning rewards!`);
-    }, 3000);
+    const url = fromProxyUrl(frameUrl ?? tabUrl(tab));
+    browserTabs.markLoaded(tab.id, frameUrl, title);
+    // A link followed inside the page can lead to a flagged site; recording it above swaps the frame for the warning
+    const threat = allowedOnce[tab.id] === url ? null : findThreat(domainList.list, url);
+    if (threat) {
+      endVisit(tab.id);
+      addLog(`⛔ Blocked ${url}: flagged as ${threat.category} (${threat.domain})`, 'navigation', { url, level: 'error' });
+      return;
+    }
+    if (allowedOnce[tab.id] && allowedOnce[tab.id] !== url) {
+      setAllowedOnce(prev => {
+        const next = { ...prev };
+        delete next[tab.id];
+        return next;
+      });
+    }
+    if (!url.startsWith('/')) {
+      browsingHistory.update(visits => recordVisit(visits, url, title || defaultTabTitle(url)));
+    }
+    addLog(`✅ Successfully loaded: ${url}`, 'navigation', { url });
+    startVisit(tab.id, url);
   };
 
   // Handle iframe load error
-  const handleIframeError = () => {
-    setBrowserError('This site cannot be displayed in an embedded frame due to security policies. Try a different URL.');
-    addLog(`❌ Failed to load: ${currentUrl}`);
+  const handleIframeError = (tab: BrowserTab) => {
+    endVisit(tab.id);
+    browserTabs.markFailed(tab.id, 'This site cannot be displayed in an embedded frame due to security policies. Try a different URL.');
+    addLog(`❌ Failed to load: ${tabDisplayUrl(tab)}`, 'navigation', { url: tabDisplayUrl(tab) });
   };
 
   return (
     <div className="h-screen bg-gray-100 flex relative">
+      {keyring && showAccountSwitcher && (
+        <AccountSwitcher
+          keyring={keyring}
+          balances={networkBalances}
+          onSelect={switchAccount}
+          onAdd={addAccount}
+          onImport={importExtraAccount}
+          onRename={renameExistingAccount}
+          onRemove={removeExistingAccount}
+          onClose={() => setShowAccountSwitcher(false)}
+        />
+      )}
+
+      {showBookmarks && (
+        <BookmarksManager
+          store={bookmarks.store}
+          onUpdate={bookmarks.update}
+          onOpen={(url) => {
+            setShowBookmarks(false);
+            navigateToUrl(url);
+          }}
+          onLog={message => addLog(message, 'navigation')}
+          onClose={() => setShowBookmarks(false)}
+        />
+      )}
+
+      {showHistoryManager && (
+        <HistoryManager
+          visits={browsingHistory.visits}
+          onUpdate={browsingHistory.update}
+          onOpen={(url) => {
+            setShowHistoryManager(false);
+            navigateToUrl(url);
+          }}
+          onLog={message => addLog(message, 'navigation')}
+          onClose={() => setShowHistoryManager(false)}
+        />
+      )}
+
+      {showLogViewer && (
+        <LogViewer
+          events={activityLog.events}
+          txUrl={hash => explorerTxUrl(network, hash)}
+          onClear={activityLog.clear}
+          onClose={() => setShowLogViewer(false)}
+        />
+      )}
+
+      {walletBridge.pendingRequest && (
+        <WalletRequestPopup request={walletBridge.pendingRequest} queuedCount={walletBridge.queuedCount} />
+      )}
+
+      {keystoreState && !wallet && (
+        <UnlockScreen
+          keystoreState={keystoreState}
+          onSubmit={handleUnlock}
+          onRestore={handleRestore}
+          onBrowsePrivately={() => onStartPrivate()}
+        />
+      )}
+
       {/* Phantom-style Wallet Popup */}
       {showWalletPopup && (
         <div className="fixed inset-0 z-50 flex items-start justify-end p-4">
@@ -372,129 +802,385 @@ export default function BurgerBrowsApp() {
                   </div>
                   <div>
                     <h3 className="font-bold text-lg">BurgerBrows Wallet</h3>
-                    <p className="text-xs opacity-90">Ethereum Sepolia Network</p>
+                    <p className="text-xs opacity-90">{network.name} Network</p>
                   </div>
                 </div>
-                <button 
-                  onClick={() => setShowWalletPopup(false)}
-                  className="w-8 h-8 text-white hover:bg-white hover:bg-opacity-20 rounded-full flex items-center justify-center transition-colors"
+                <div className="flex items-center space-x-1">
+                  {!privateSession && (
+                    <button
+                      onClick={() => lockWallet()}
+                      className="w-8 h-8 text-white hover:bg-white hover:bg-opacity-20 rounded-full flex items-center justify-center transition-colors"
+                      title="Lock Wallet"
+                    >
+                      <Lock size={16} />
+                    </button>
+                  )}
+                  <button 
+                    onClick={() => setShowWalletPopup(false)}
+                    className="w-8 h-8 text-white hover:bg-white hover:bg-opacity-20 rounded-full flex items-center justify-center transition-colors"
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {chainWarning && (
+              <div className="px-4 py-2 bg-yellow-50 border-b border-yellow-200 text-xs text-yellow-800">
+                ⚠️ {chainWarning}
+              </div>
+            )}
+
+            {/* Tabs */}
+            <div className="flex border-b border-gray-100">
+              {(['wallet', 'history', 'sites'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setPopupTab(tab)}
+                  className={`flex-1 py-2 text-sm font-semibold capitalize transition-colors ${
+                    popupTab === tab ? 'text-purple-700 border-b-2 border-purple-600' : 'text-gray-500 hover:text-gray-700'
+                  }`}
                 >
-                  ×
+                  {tab}
                 </button>
-              </div>
+              ))}
             </div>
 
-            {/* Balance Card */}
-            {wallet && (
-              <div className="p-4">
-                <div className="bg-gradient-to-br from-gray-50 to-blue-50 rounded-xl p-4 border border-gray-100 mb-4">
-                  <div className="text-center mb-4">
-                    <div className="text-4xl font-bold bg-gradient-to-r from-purple-600 to-indigo-600 bg-clip-text text-transparent">
-                      ${balance}
-                    </div>
-                    <div className="text-sm text-gray-600 font-medium">Total USDC Balance</div>
-                  </div>
+            {(txManager.flows.length > 0 || txManager.transactions.length > 0) && (
+              <div className="p-4 space-y-3 border-b border-gray-100">
+                {txManager.flows.map(flow => (
+                  <TxFlowProgress
+                    key={flow.id}
+                    flow={flow}
+                    running={txManager.runningFlows.includes(flow.id)}
+                    onResume={() => chainActions.resumeDeposit(flow)}
+                    onDismiss={() => txManager.dismissFlow(flow.id)}
+                  />
+                ))}
+                <PendingTransactions
+                  transactions={txManager.transactions}
+                  txUrl={hash => explorerTxUrl(network, hash)}
+                  onSpeedUp={txManager.speedUp}
+                  onCancel={txManager.cancel}
+                  onClearSettled={txManager.clearSettled}
+                />
+              </div>
+            )}
+
+            {popupTab === 'wallet' && (
+              <>
+                {/* Balance Card */}
+                {wallet && activeSigner && (
+                  <div className="p-4">
+                    <div className="bg-gradient-to-br from-gray-50 to-blue-50 rounded-xl p-4 border border-gray-100 mb-4">
+                      <div className="text-center mb-4">
+                        <div className="text-4xl font-bold bg-gradient-to-r from-purple-600 to-indigo-600 bg-clip-text text-transparent">
+                          ${balance}
+                        </div>
+                        <div className="text-sm text-gray-600 font-medium">Wallet USDC Balance</div>
+                        <div className="text-xs text-purple-700 mt-1">+ ${vaultBalance} in BrowserVault</div>
+                      </div>
                   
-                  <div className="bg-white rounded-lg p-3 border border-gray-200">
-                    <div className="flex items-center justify-between">
-                      <div className="flex-1">
-                        <p className="text-xs text-gray-500 mb-1">Wallet Address</p>
-                        <p className="font-mono text-sm text-gray-800 break-all">
-                          {wallet.address}
-                        </p>
+                      <div className="bg-white rounded-lg p-3 border border-gray-200">
+                        <div className="flex items-center justify-between">
+                          <div className="flex-1">
+                            <p className="text-xs text-gray-500 mb-1">Wallet Address</p>
+                            <p className="font-mono text-sm text-gray-800 break-all">
+                              {activeSigner.address}
+                            </p>
+                          </div>
+                          <button
+                            onClick={copyWalletAddress}
+                            className="ml-2 p-2 hover:bg-gray-100 rounded-lg transition-colors flex-shrink-0"
+                            title="Copy Address"
+                          >
+                            <span className="text-lg">📋</span>
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="mt-3 flex items-center justify-between text-xs">
+                        <span
+                          className={`px-2 py-0.5 rounded font-medium ${
+                            activeSigner.source === 'external' ? 'bg-blue-100 text-blue-700' : 'bg-purple-100 text-purple-700'
+                          }`}
+                        >
+                          {SIGNER_SOURCE_LABELS[activeSigner.source]}
+                        </span>
+                        <span className="text-gray-500">{activeSigner.name}</span>
+                      </div>
+
+                      <div className="mt-2 flex justify-between text-xs text-gray-500">
+                        <span>Device: @BurgerBrows{wallet.deviceHash}</span>
+                        {activeSigner.source === 'external' && <span>Disconnect to use {wallet.label}</span>}
                       </div>
-                      <button
-                        onClick={copyWalletAddress}
-                        className="ml-2 p-2 hover:bg-gray-100 rounded-lg transition-colors flex-shrink-0"
-                        title="Copy Address"
-                      >
-                        <span className="text-lg">📋</span>
-                      </button>
+
+                      {rewardSummary && (
+                        <div className="mt-2 text-xs text-gray-500">
+                          Earning {rewardSummary.ratePerMinute} USDC/min · {rewardSummary.earnedToday} of {rewardSummary.dailyCap} USDC today
+                        </div>
+                      )}
                     </div>
                   </div>
+                )}
+
+                {/* Action Buttons */}
+                <div className="px-4 pb-4">
+                  <div className="grid grid-cols-2 gap-3 mb-4">
+                    <button
+                      onClick={() => {
+                        checkBalance();
+                        // Don't close popup, let user see the result
+                      }}
+                      disabled={loading}
+                      className="group flex flex-col items-center p-4 bg-gradient-to-br from-blue-50 to-blue-100 hover:from-blue-100 hover:to-blue-200 rounded-xl border border-blue-200 disabled:opacity-50 transition-all"
+                    >
+                      <div className="w-12 h-12 bg-blue-500 rounded-full flex items-center justify-center mb-2 group-hover:scale-105 transition-transform">
+                        <DollarSign size={20} className="text-white" />
+                      </div>
+                      <span className="text-sm font-semibold text-blue-800">Refresh Balance</span>
+                    </button>
+
+                    <button
+                      onClick={mintTestUSDC}
+                      disabled={loading || faucetWait > 0 || Boolean(privateSession)}
+                      className="group flex flex-col items-center p-4 bg-gradient-to-br from-green-50 to-green-100 hover:from-green-100 hover:to-green-200 rounded-xl border border-green-200 disabled:opacity-50 transition-all"
+                    >
+                      <div className="w-12 h-12 bg-green-500 rounded-full flex items-center justify-center mb-2 group-hover:scale-105 transition-transform">
+                        <Globe size={20} className="text-white" />
+                      </div>
+                      <span className="text-sm font-semibold text-green-800">MockUSDC Faucet</span>
+                      {privateSession ? (
+                        <span className="text-xs text-green-700">Off in private sessions</span>
+                      ) : faucetWait > 0 && (
+                        <span className="text-xs text-green-700">Next claim available in {formatDuration(faucetWait)}</span>
+                      )}
+                    </button>
 
-                  <div className="mt-3 flex justify-between text-xs text-gray-500">
-                    <span>Device: @BurgerBrows{wallet.deviceHash}</span>
-                    <span>Account: #{wallet.deviceHash.slice(-4)}</span>
+                    <button
+                      onClick={() => setShowVault(!showVault)}
+                      disabled={loading}
+                      className="group flex flex-col items-center p-4 bg-gradient-to-br from-purple-50 to-purple-100 hover:from-purple-100 hover:to-purple-200 rounded-xl border border-purple-200 disabled:opacity-50 transition-all"
+                    >
+                      <div className="w-12 h-12 bg-purple-500 rounded-full flex items-center justify-center mb-2 group-hover:scale-105 transition-transform">
+                        <TrendingUp size={20} className="text-white" />
+                      </div>
+                      <span className="text-sm font-semibold text-purple-800">Vault</span>
+                      <span className="text-xs text-purple-700">${vaultBalance} deposited</span>
+                    </button>
+
+                    <button
+                      onClick={() => setShowRewards(!showRewards)}
+                      disabled={loading}
+                      className="group flex flex-col items-center p-4 bg-gradient-to-br from-orange-50 to-orange-100 hover:from-orange-100 hover:to-orange-200 rounded-xl border border-orange-200 disabled:opacity-50 transition-all"
+                    >
+                      <div className="w-12 h-12 bg-orange-500 rounded-full flex items-center justify-center mb-2 group-hover:scale-105 transition-transform">
+                        <Gift size={20} className="text-white" />
+                      </div>
+                      <span className="text-sm font-semibold text-orange-800">Claim Rewards</span>
+                      <span className="text-xs text-orange-700">
+                        {claimWait > 0
+                          ? `Next claim in ${formatDuration(claimWait)}`
+                          : `${rewardSummary?.accrued ?? '0.0'} USDC accrued`}
+                      </span>
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <button
+                      onClick={() => {
+                        setSendPrefill(undefined);
+                        setShowSend(!showSend);
+                      }}
+                      disabled={loading}
+                      className="py-2 text-sm bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white rounded-lg font-semibold disabled:opacity-50 transition-all"
+                    >
+                      ↗ Send
+                    </button>
+                    <button
+                      onClick={() => setShowReceive(!showReceive)}
+                      className="py-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white rounded-lg font-semibold transition-all"
+                    >
+                      ↙ Receive
+                    </button>
                   </div>
                 </div>
-              </div>
-            )}
 
-            {/* Action Buttons */}
-            <div className="px-4 pb-4">
-              <div className="grid grid-cols-2 gap-3 mb-4">
-                <button
-                  onClick={() => {
-                    checkBalance();
-                    // Don't close popup, let user see the result
-                  }}
-                  disabled={loading}
-                  className="group flex flex-col items-center p-4 bg-gradient-to-br from-blue-50 to-blue-100 hover:from-blue-100 hover:to-blue-200 rounded-xl border border-blue-200 disabled:opacity-50 transition-all"
-                >
-                  <div className="w-12 h-12 bg-blue-500 rounded-full flex items-center justify-center mb-2 group-hover:scale-105 transition-transform">
-                    <DollarSign size={20} className="text-white" />
+                {/* Receive */}
+                {showReceive && activeAddress && (
+                  <div className="px-4 pb-4">
+                    <ReceivePanel
+                      address={activeAddress}
+                      tokenAddress={contracts.MOCK_USDC}
+                      chainId={chainId}
+                      decimals={usdcDecimals}
+                      onLog={message => addLog(message, 'wallet')}
+                      onClose={() => setShowReceive(false)}
+                    />
                   </div>
-                  <span className="text-sm font-semibold text-blue-800">Refresh Balance</span>
-                </button>
+                )}
 
-                <button
-                  onClick={async () => {
-                    await mintTestUSDC();
-                    // Refresh balance after minting
-                    setTimeout(() => checkBalance(), 3000);
-                  }}
-                  disabled={loading}
-                  className="group flex flex-col items-center p-4 bg-gradient-to-br from-green-50 to-green-100 hover:from-green-100 hover:to-green-200 rounded-xl border border-green-200 disabled:opacity-50 transition-all"
-                >
-                  <div className="w-12 h-12 bg-green-500 rounded-full flex items-center justify-center mb-2 group-hover:scale-105 transition-transform">
-                    <Globe size={20} className="text-white" />
+                {/* Send */}
+                {showSend && provider && activeAddress && (
+                  <div className="px-4 pb-4">
+                    <SendPanel
+                      key={sendFormKey}
+                      provider={provider}
+                      tokenAddress={contracts.MOCK_USDC}
+                      fromAddress={activeAddress}
+                      balance={balance}
+                      decimals={usdcDecimals}
+                      chainId={chainId}
+                      prefill={sendPrefill}
+                      onSend={chainActions.send}
+                      onClose={() => setShowSend(false)}
+                    />
                   </div>
-                  <span className="text-sm font-semibold text-green-800">MockUSDC Faucet</span>
-                </button>
+                )}
 
-                <button
-                  onClick={async () => {
-                    await depositUSDC();
-                    // Refresh balance after deposit
-                    setTimeout(() => checkBalance(), 3000);
-                  }}
-                  disabled={loading}
-                  className="group flex flex-col items-center p-4 bg-gradient-to-br from-purple-50 to-purple-100 hover:from-purple-100 hover:to-purple-200 rounded-xl border border-purple-200 disabled:opacity-50 transition-all"
-                >
-                  <div className="w-12 h-12 bg-purple-500 rounded-full flex items-center justify-center mb-2 group-hover:scale-105 transition-transform">
-                    <TrendingUp size={20} className="text-white" />
+                {/* Vault */}
+                {showVault && (
+                  <div className="px-4 pb-4">
+                    <VaultPanel
+                      walletBalance={balance}
+                      vaultBalance={vaultBalance}
+                      ethBalance={ethBalance}
+                      depositPath={depositPath}
+                      decimals={usdcDecimals}
+                      loading={loading}
+                      onDeposit={chainActions.deposit}
+                      onWithdraw={chainActions.withdraw}
+                      onClose={() => setShowVault(false)}
+                    />
                   </div>
-                  <span className="text-sm font-semibold text-purple-800">Deposit to Vault</span>
-                </button>
+                )}
 
-                <button
-                  onClick={async () => {
-                    await claimRewards();
-                    // Refresh balance after claiming rewards
-                    setTimeout(() => checkBalance(), 3000);
-                  }}
-                  disabled={loading}
-                  className="group flex flex-col items-center p-4 bg-gradient-to-br from-orange-50 to-orange-100 hover:from-orange-100 hover:to-orange-200 rounded-xl border border-orange-200 disabled:opacity-50 transition-all"
-                >
-                  <div className="w-12 h-12 bg-orange-500 rounded-full flex items-center justify-center mb-2 group-hover:scale-105 transition-transform">
-                    <Gift size={20} className="text-white" />
+                {/* Reward Pool */}
+                {showRewards && (
+                  <div className="px-4 pb-4">
+                    <RewardPoolPanel
+                      status={rewardPool.status}
+                      claims={rewardPool.claims}
+                      accrued={rewardSummary?.accrued ?? '0.0'}
+                      decimals={usdcDecimals}
+                      loading={rewardPool.loading}
+                      error={rewardPool.error}
+                      claiming={claimPending}
+                      cooldownMs={claimWait}
+                      txUrl={hash => explorerTxUrl(network, hash)}
+                      onClaim={claimRewards}
+                      unavailableReason={privateSession ? 'Browsing rewards are off in private sessions' : undefined}
+                      onRefresh={rewardPool.refresh}
+                      onClose={() => setShowRewards(false)}
+                    />
                   </div>
-                  <span className="text-sm font-semibold text-orange-800">Claim Rewards</span>
-                </button>
+                )}
+
+                {/* Security */}
+                <div className="px-4 pb-4 space-y-2">
+                  {privateSession && (
+                    <PrivateSessionPanel
+                      returnAddress={privateSession.returnAddress}
+                      walletBalance={balance}
+                      vaultBalance={vaultBalance}
+                      ethBalance={ethBalance}
+                      loading={loading}
+                      onSweepAndEnd={sweepAndEndPrivateSession}
+                      onEnd={onEndPrivate}
+                    />
+                  )}
+                  {keyring && showBackup && (
+                    <WalletBackupPanel
+                      mnemonic={keyring?.mnemonic}
+                      onRestore={handleRestore}
+                      onLog={message => addLog(message, 'wallet')}
+                      onClose={() => setShowBackup(false)}
+                    />
+                  )}
+                  {keyring && !showBackup && !showChangePassword && (
+                    <button
+                      onClick={() => setShowBackup(true)}
+                      className="w-full py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                    >
+                      🛡️ Backup & Restore
+                    </button>
+                  )}
+                  {!keyring || showBackup ? null : showChangePassword ? (
+                    <ChangePasswordForm
+                      onDone={(message) => {
+                        addLog(message, 'wallet');
+                        setShowChangePassword(false);
+                      }}
+                      onCancel={() => setShowChangePassword(false)}
+                    />
+                  ) : (
+                    <button
+                      onClick={() => setShowChangePassword(true)}
+                      className="w-full py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                    >
+                      🔑 Change Password
+                    </button>
+                  )}
+                  {keyring && !showBackup && !showChangePassword && (
+                    <button
+                      onClick={startPrivateSession}
+                      className="w-full py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                    >
+                      🕶️ Start Private Session
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+
+            {popupTab === 'history' && (
+              <div className="p-4">
+                <HistoryPanel
+                  txUrl={hash => explorerTxUrl(network, hash)}
+                  entries={history.entries}
+                  latestBlock={history.latestBlock}
+                  syncing={history.syncing}
+                  error={history.error}
+                  onRefresh={history.refresh}
+                />
               </div>
-            </div>
+            )}
+
+            {popupTab === 'sites' && (
+              <div className="p-4">
+                <ConnectedSites connections={walletBridge.connections} onRevoke={walletBridge.revoke} />
+                <div className="mt-4 pt-4 border-t border-gray-100">
+                  <SiteProtectionPanel
+                    list={domainList.list}
+                    onBlock={(domain) => {
+                      domainList.update(list => blockDomain(list, domain));
+                      addLog(`⛔ Blocked ${domain}`, 'navigation');
+                    }}
+                    onForget={(domain) => {
+                      domainList.update(list => forgetDomain(list, domain));
+                      addLog(`🗑️ Removed ${domain} from your site lists`, 'navigation');
+                    }}
+                    onRefresh={domainList.refresh}
+                  />
+                </div>
+              </div>
+            )}
 
             {/* Recent Activity */}
             <div className="px-4 pb-4 border-t border-gray-100 pt-4 bg-gray-50">
-              <h4 className="font-bold text-gray-800 mb-3 flex items-center">
-                <span className="mr-2">📊</span>
-                Recent Activity
-              </h4>
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-bold text-gray-800 flex items-center">
+                  <span className="mr-2">📊</span>
+                  Recent Activity
+                </h4>
+                <button onClick={() => setShowLogViewer(true)} className="text-xs text-purple-700 hover:underline">
+                  View all
+                </button>
+              </div>
               <div className="space-y-2 max-h-24 overflow-y-auto">
-                {logs.slice(-3).map((log, index) => (
-                  <div key={index} className="text-xs text-gray-600 bg-white p-2 rounded border">
-                    {log}
+                {activityLog.events.slice(-3).map(event => (
+                  <div key={event.id} className="text-xs text-gray-600 bg-white p-2 rounded border">
+                    {formatLogLine(event)}
                   </div>
                 ))}
               </div>
@@ -504,35 +1190,48 @@ export default function BurgerBrowsApp() {
       )}
 
       {/* Main Content */}
-      <div className="flex flex-1">
+      <div className="flex flex-col flex-1 min-w-0">
+        {/* Tabs */}
+        <TabStrip
+          tabs={browserTabs.tabs}
+          activeTabId={activeTab?.id}
+          earnings={tabEarnings}
+          onActivate={browserTabs.activateTab}
+          onClose={closeTab}
+          onOpen={openTab}
+          onReorder={browserTabs.reorderTab}
+        />
+
         {/* Navigation Bar */}
         <div className="bg-white border-b border-gray-200 p-3 shadow-sm">
           <div className="flex items-center space-x-3 mb-3">
             <div className="flex items-center space-x-2">
               {/* Browser Controls */}
               <button 
-                className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center text-gray-600"
+                className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center text-gray-600 disabled:opacity-40"
                 title="Back"
-                onClick={() => window.history.back()}
+                onClick={goBack}
+                disabled={!activeTab || !canGoBack(activeTab)}
               >
-                ←
+                <ArrowLeft size={16} />
               </button>
               <button 
-                className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center text-gray-600"
+                className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center text-gray-600 disabled:opacity-40"
                 title="Forward"
-                onClick={() => window.history.forward()}
+                onClick={goForward}
+                disabled={!activeTab || !canGoForward(activeTab)}
               >
-                →
+                <ArrowRight size={16} />
               </button>
               <button 
                 className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center text-gray-600"
                 title="Refresh"
-                onClick={() => window.location.reload()}
+                onClick={reloadTab}
               >
-                ↻
+                <RotateCw size={16} className={activeTab?.loading ? 'animate-spin' : ''} />
               </button>
               <button 
-                onClick={() => navigateToUrl('/google-home.html')}
+                onClick={() => navigateToUrl(HOME_URL)}
                 className="w-8 h-8 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center text-gray-600"
                 title="Home"
               >
@@ -542,20 +1241,25 @@ export default function BurgerBrowsApp() {
             
             {/* Address Bar */}
             <div className="flex-1 relative">
-              <div className="relative">
-                <div className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400">
-                  🔒
-                </div>
-                <input
-                  type="text"
-                  value={currentUrl}
-                  onChange={(e) => setCurrentUrl(e.target.value)}
-                  onKeyPress={(e) => e.key === 'Enter' && navigateToUrl(currentUrl)}
-                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-50"
-                  placeholder="Search or enter website URL..."
+              {activeTab && (
+                <AddressBar
+                  key={`${activeTab.id}:${tabUrl(activeTab)}`}
+                  url={tabDisplayUrl(activeTab)}
+                  security={evaluateSiteSecurity(tabUrl(activeTab), domainList.list)}
+                  suggestions={suggestions}
+                  searchSettings={searchSettings}
+                  onNavigate={navigateToUrl}
                 />
-              </div>
+              )}
             </div>
+            <button
+              onClick={toggleBookmark}
+              disabled={!activeTab}
+              className={`w-8 h-8 rounded-full hover:bg-gray-100 flex items-center justify-center ${activeBookmark ? 'text-yellow-500' : 'text-gray-400'}`}
+              title={activeBookmark ? 'Remove Bookmark' : 'Bookmark this Page'}
+            >
+              <Star size={18} fill={activeBookmark ? 'currentColor' : 'none'} />
+            </button>
             
             {/* Browser Menu and Wallet */}
             <div className="flex items-center space-x-2">
@@ -563,6 +1267,20 @@ export default function BurgerBrowsApp() {
                 <span className="px-2 py-1 bg-gradient-to-r from-orange-400 to-orange-600 text-white rounded text-xs font-medium">
                   🍔 BurgerBrows
                 </span>
+
+                <SearchEngineSelect settings={searchSettings} onChange={changeSearchSettings} />
+
+                <NetworkSwitcher network={network} warning={chainWarning} onSwitch={switchNetwork} />
+                <RpcHealthIndicator health={rpcHealth} />
+
+                {/* External wallet (MetaMask, WalletConnect, injected); unavailable in private sessions */}
+                {privateSession ? (
+                  <span className="px-2 py-1 bg-gray-900 text-white rounded text-xs font-medium" title="Nothing from this session is saved">
+                    🕶️ Private
+                  </span>
+                ) : (
+                  <ConnectButton label="Connect" accountStatus="avatar" chainStatus="none" showBalance={false} />
+                )}
                 
                 {/* Wallet Icon */}
                 <button
@@ -572,70 +1290,117 @@ export default function BurgerBrowsApp() {
                 >
                   <Wallet size={16} />
                   <span className="text-xs font-medium">
-                    {wallet ? `${wallet.address.slice(0, 6)}...${wallet.address.slice(-4)}` : 'Wallet'}
+                    {activeAddress ? `${activeAddress.slice(0, 6)}...${activeAddress.slice(-4)}` : 'Wallet'}
                   </span>
                   <span className="text-xs bg-white bg-opacity-20 px-1.5 py-0.5 rounded">
                     ${balance}
                   </span>
                 </button>
+
+                {/* Account Switcher */}
+                {keyring && (
+                  <button
+                    onClick={() => setShowAccountSwitcher(!showAccountSwitcher)}
+                    className="flex items-center space-x-1 px-2 py-1.5 bg-purple-100 hover:bg-purple-200 text-purple-800 rounded-lg transition-colors"
+                    title="Switch Account"
+                  >
+                    <span className="text-xs font-medium max-w-24 truncate">{wallet?.label}</span>
+                    <ChevronDown size={14} />
+                  </button>
+                )}
               </div>
             </div>
           </div>
           
-          {/* Quick access buttons for safe sites */}
-          <div className="flex flex-wrap gap-2">
-            <span className="text-xs text-gray-500 mr-2">Quick Access:</span>
-            {safeSites.map((site, index) => (
-              <button
-                key={index}
-                onClick={() => navigateToUrl(site.url)}
-                className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-full border transition-colors"
-              >
-                {site.name}
-              </button>
-            ))}
-          </div>
+          {/* Bookmarks */}
+          <BookmarksBar
+            store={bookmarks.store}
+            onOpen={navigateToUrl}
+            onManage={() => setShowBookmarks(true)}
+            onHistory={() => setShowHistoryManager(true)}
+          />
         </div>
 
         {/* Browser Content */}
         <div className="flex-1 relative">
-          {browserError ? (
-            <div className="flex items-center justify-center h-full bg-gray-50">
-              <div className="text-center p-8">
-                <div className="text-6xl mb-4">🚫</div>
-                <h2 className="text-xl font-semibold mb-2">Cannot Display Site</h2>
-                <p className="text-gray-600 mb-4 max-w-md">{browserError}</p>
-                <div className="space-y-2">
-                  <p className="text-sm text-gray-500">Try one of these instead:</p>
-                  <div className="flex flex-wrap gap-2 justify-center">
-                    {safeSites.slice(0, 3).map((site, index) => (
-                      <button
-                        key={index}
-                        onClick={() => navigateToUrl(site.url)}
-                        className="px-3 py-1 text-sm bg-blue-100 hover:bg-blue-200 text-blue-700 rounded"
-                      >
-                        {site.name}
-                      </button>
-                    ))}
-                  </div>
-                </div>
-              </div>
-            </div>
-          ) : (
-            <iframe
-              src={currentUrl}
-              className="w-full h-full border-0"
-              sandbox="allow-scripts allow-same-origin allow-popups allow-forms"
-              title="Browser Content"
-              onError={handleIframeError}
-              onLoad={() => {
-                setBrowserError('');
-                addLog(`✅ Successfully loaded: ${currentUrl}`);
-              }}
+          {activeWarning && (
+            <SecurityInterstitial
+              url={activeWarning.url}
+              threat={activeWarning.threat}
+              onBack={() => resolveSiteWarning('back')}
+              onProceed={() => resolveSiteWarning('proceed')}
+              onTrust={() => resolveSiteWarning('trust')}
             />
           )}
+          {browserTabs.tabs.map(tab => {
+            const active = tab.id === activeTab?.id;
+            if (tab.error) {
+              return active && (
+                <div key={tab.id} className="flex items-center justify-center h-full bg-gray-50">
+                  <div className="text-center p-8">
+                    <div className="text-6xl mb-4">🚫</div>
+                    <h2 className="text-xl font-semibold mb-2">Cannot Display Site</h2>
+                    <p className="text-gray-600 mb-4 max-w-md">{tab.error}</p>
+                    <div className="space-y-2">
+                      <p className="text-sm text-gray-500">Try one of these instead:</p>
+                      <div className="flex flex-wrap gap-2 justify-center">
+                        {quickAccess.slice(0, 3).map(bookmark => (
+                          <button
+                            key={bookmark.id}
+                            onClick={() => navigateToUrl(bookmark.url)}
+                            className="px-3 py-1 text-sm bg-blue-100 hover:bg-blue-200 text-blue-700 rounded"
+                          >
+                            {bookmark.title}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            }
+            // Flagged pages never load behind the warning, e.g. when a restored tab still points at one
+            if (tabThreat(tab)) return null;
+            // Every tab keeps its own iframe so switching tabs preserves page state
+            return (
+              <iframe
+                key={`${tab.id}:${tab.reloadCount}`}
+                ref={(frame) => {
+                  if (frame) frameRefs.current.set(tab.id, frame);
+                }}
+                src={tab.src}
+                className={active ? 'w-full h-full border-0' : 'hidden'}
+                sandbox="allow-scripts allow-same-origin allow-popups allow-forms"
+                title={tab.title}
+                onError={() => handleIframeError(tab)}
+                onLoad={() => handleFrameLoad(tab)}
+              />
+            );
+          })}
         </div>
       </div>
     </div>
   );
 }
+
+// Nothing to subscribe to; hydration is the only change the snapshot reports
+const subscribeToNothing = () => () => {};
+
+// The browser and its wallet providers remount when a private session starts or ends, so no state carries over between the two
+export default function BurgerBrowsApp() {
+  const [privateSession, setPrivateSession] = useState<PrivateSession | null>(null);
+  // The browser window restores saved state while rendering, so it is rendered only once hydrated
+  const hydrated = useSyncExternalStore(subscribeToNothing, () => true, () => false);
+
+  if (!hydrated) return null;
+
+  return (
+    <Web3Providers key={privateSession?.id ?? 'main'} persist={!privateSession}>
+      <BrowserWindow
+        privateSession={privateSession}
+        onStartPrivate={returnAddress => setPrivateSession(createPrivateSession(returnAddress))}
+        onEndPrivate={() => setPrivateSession(null)}
+      />
+    </Web3Providers>
+  );
+}
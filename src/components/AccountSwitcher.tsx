@@ -0,0 +1,177 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { RestoredKey, WalletKeyring } from '@/lib/keystore';
+import RestoreWalletForm from '@/components/RestoreWalletForm';
+
+interface AccountSwitcherProps {
+  keyring: WalletKeyring;
+  balances: Record<string, string>;
+  onSelect: (address: string) => void;
+  onAdd: (label: string) => void;
+  onImport: (restored: RestoredKey, password: string, label: string) => Promise<void>;
+  onRename: (address: string, label: string) => void;
+  onRemove: (address: string) => void;
+  onClose: () => void;
+}
+
+type SwitcherView = 'list' | 'add' | 'import';
+
+// Navbar dropdown listing every unlocked account with its balance
+export default function AccountSwitcher({
+  keyring,
+  balances,
+  onSelect,
+  onAdd,
+  onImport,
+  onRename,
+  onRemove,
+  onClose,
+}: AccountSwitcherProps) {
+  const [view, setView] = useState<SwitcherView>('list');
+  const [newLabel, setNewLabel] = useState('');
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editLabel, setEditLabel] = useState('');
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+  return (
+    <div className="fixed inset-0 z-50" onClick={onClose}>
+      <div
+        className="absolute right-4 top-16 bg-white rounded-xl shadow-2xl w-80 border border-gray-200 p-3 space-y-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {view === 'list' && (
+          <>
+            <h4 className="font-bold text-gray-800 text-sm">Accounts</h4>
+            <div className="max-h-72 overflow-y-auto space-y-1">
+              {keyring.accounts.map(account => (
+                <div
+                  key={account.address}
+                  className={`flex items-center gap-2 p-2 rounded-lg border ${
+                    account.address === keyring.activeAddress ? 'border-purple-300 bg-purple-50' : 'border-transparent hover:bg-gray-50'
+                  }`}
+                >
+                  {editing === account.address ? (
+                    <form
+                      className="flex-1 flex gap-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        onRename(account.address, editLabel);
+                        setEditing(null);
+                      }}
+                    >
+                      <input
+                        value={editLabel}
+                        onChange={(e) => setEditLabel(e.target.value)}
+                        autoFocus
+                        className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+                      />
+                      <button type="submit" className="p-1 text-purple-700" title="Save">
+                        <Check size={14} />
+                      </button>
+                    </form>
+                  ) : (
+                    <button className="flex-1 text-left" onClick={() => onSelect(account.address)}>
+                      <div className="text-sm font-semibold text-gray-800">
+                        {account.label}
+                        {account.source === 'imported' && (
+                          <span className="ml-1 text-[10px] font-normal text-gray-500 bg-gray-100 px-1 rounded">Imported</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 font-mono">
+                        {account.address.slice(0, 6)}...{account.address.slice(-4)} · ${balances[account.address] ?? '—'}
+                      </div>
+                    </button>
+                  )}
+                  {editing !== account.address && (
+                    <button
+                      onClick={() => {
+                        setEditing(account.address);
+                        setEditLabel(account.label);
+                      }}
+                      className="p-1 text-gray-400 hover:text-gray-700"
+                      title="Rename"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                  )}
+                  {account.source !== 'primary' && (
+                    <button
+                      onClick={() => onRemove(account.address)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Remove"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setView('add')}
+                disabled={!keyring.mnemonic}
+                title={keyring.mnemonic ? undefined : 'This wallet has no recovery phrase'}
+                className="flex-1 flex items-center justify-center gap-1 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg disabled:opacity-50"
+              >
+                <Plus size={14} /> New Account
+              </button>
+              <button
+                onClick={() => setView('import')}
+                className="flex-1 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg"
+              >
+                Import Key
+              </button>
+            </div>
+          </>
+        )}
+
+        {view === 'add' && (
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              onAdd(newLabel);
+              setNewLabel('');
+              setView('list');
+            }}
+          >
+            <h4 className="font-bold text-gray-800 text-sm">New account from your recovery phrase</h4>
+            <input
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              placeholder={`Account ${keyring.accounts.length + 1}`}
+              autoFocus
+              className={inputClass}
+            />
+            <div className="flex gap-2">
+              <button type="submit" className="flex-1 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold">
+                Create
+              </button>
+              <button type="button" onClick={() => setView('list')} className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg">
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {view === 'import' && (
+          <>
+            <h4 className="font-bold text-gray-800 text-sm">Import an independent account</h4>
+            <RestoreWalletForm
+              passwordMode="current"
+              submitLabel="Import Account"
+              onRestore={async (restored, password, label) => {
+                await onImport(restored, password, label);
+                setView('list');
+              }}
+              onCancel={() => setView('list')}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
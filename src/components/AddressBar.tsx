@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { getSearchProvider, resolveAddressInput, type SearchSettings } from '@/lib/search';
+import type { SiteSecurity } from '@/lib/siteSecurity';
+import { matchSuggestions, type Suggestion, type SuggestionSource } from '@/lib/suggestions';
+
+interface AddressBarProps {
+  // URL of the active tab; remount with a new key to reset the draft when it changes
+  url: string;
+  // Security of the loaded page, shown as the icon before the URL
+  security: SiteSecurity;
+  // Everything the dropdown may suggest; filtered against the draft here
+  suggestions: Suggestion[];
+  searchSettings: SearchSettings;
+  onNavigate: (input: string) => void;
+}
+
+const SOURCE_ICONS: Record<SuggestionSource, string> = {
+  bookmark: '⭐',
+  history: '🕘',
+};
+
+// Editable address field with search/URL detection and a suggestion dropdown
+export default function AddressBar({ url, security, suggestions, searchSettings, onNavigate }: AddressBarProps) {
+  const [draft, setDraft] = useState(url);
+  const [open, setOpen] = useState(false);
+  // -1 selects the "go to / search" row
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const input = draft.trim();
+  const resolved = input ? resolveAddressInput(input, searchSettings) : null;
+  const matches = open ? matchSuggestions(input, suggestions) : [];
+
+  const go = (target: string) => {
+    setOpen(false);
+    setHighlighted(-1);
+    onNavigate(target);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && open) {
+      e.preventDefault();
+      setHighlighted(index => Math.min(index + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp' && open) {
+      e.preventDefault();
+      setHighlighted(index => Math.max(index - 1, -1));
+    } else if (e.key === 'Enter' && input) {
+      go(highlighted >= 0 && matches[highlighted] ? matches[highlighted].url : input);
+    } else if (e.key === 'Escape') {
+      setDraft(url);
+      setOpen(false);
+      setHighlighted(-1);
+    }
+  };
+
+  const rowClass = (active: boolean) =>
+    `w-full flex items-center gap-2 px-3 py-2 text-left text-sm ${active ? 'bg-purple-50' : 'hover:bg-gray-50'}`;
+
+  return (
+    <div className="relative">
+      <div
+        title={security.summary}
+        className="absolute left-3 top-1/2 transform -translate-y-1/2 cursor-help"
+      >
+        {security.icon}
+      </div>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setOpen(true);
+          setHighlighted(-1);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={(e) => e.target.select()}
+        onBlur={() => setOpen(false)}
+        title={security.summary}
+        className={`w-full pl-10 pr-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${security.level === 'dangerous' ? 'border-red-400 bg-red-50' : 'border-gray-300 bg-gray-50'}`}
+        placeholder="Search or enter website URL..."
+      />
+
+      {open && resolved && (
+        // onMouseDown so the choice registers before the input's blur closes the list
+        <div className="absolute left-0 right-0 top-full mt-1 z-40 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+          <button onMouseDown={(e) => { e.preventDefault(); go(input); }} className={rowClass(highlighted === -1)}>
+            <span>{resolved.kind === 'search' ? '🔍' : '➡️'}</span>
+            <span className="truncate">
+              {resolved.kind === 'search'
+                ? <>Search {getSearchProvider(searchSettings).name} for <strong>{resolved.query}</strong></>
+                : <>Go to <strong>{resolved.url}</strong></>}
+            </span>
+          </button>
+          {matches.map((suggestion, index) => (
+            <button
+              key={suggestion.url}
+              onMouseDown={(e) => { e.preventDefault(); go(suggestion.url); }}
+              className={rowClass(highlighted === index)}
+            >
+              <span>{SOURCE_ICONS[suggestion.source]}</span>
+              <span className="truncate text-gray-800">{suggestion.title}</span>
+              <span className="truncate text-xs text-gray-400 ml-auto">{suggestion.url}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
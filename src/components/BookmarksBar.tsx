@@ -0,0 +1,64 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import type { BookmarkStore } from '@/lib/bookmarks';
+
+interface BookmarksBarProps {
+  store: BookmarkStore;
+  onOpen: (url: string) => void;
+  onManage: () => void;
+  onHistory: () => void;
+}
+
+// Quick Access row: top-level bookmarks, then folders as dropdowns
+export default function BookmarksBar({ store, onOpen, onManage, onHistory }: BookmarksBarProps) {
+  const [openFolder, setOpenFolder] = useState<string | null>(null);
+
+  const chipClass = 'px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-full border transition-colors';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-gray-500 mr-2">Quick Access:</span>
+      {store.bookmarks.filter(bookmark => bookmark.folderId === null).map(bookmark => (
+        <button key={bookmark.id} onClick={() => onOpen(bookmark.url)} title={bookmark.url} className={chipClass}>
+          {bookmark.title}
+        </button>
+      ))}
+      {store.folders.map(folder => (
+        <div key={folder.id} className="relative">
+          <button
+            onClick={() => setOpenFolder(openFolder === folder.id ? null : folder.id)}
+            className={`${chipClass} flex items-center gap-1`}
+          >
+            📁 {folder.name} <ChevronDown size={12} />
+          </button>
+          {openFolder === folder.id && (
+            <div className="absolute left-0 top-full mt-1 z-40 w-56 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+              {store.bookmarks.filter(bookmark => bookmark.folderId === folder.id).map(bookmark => (
+                <button
+                  key={bookmark.id}
+                  onClick={() => {
+                    setOpenFolder(null);
+                    onOpen(bookmark.url);
+                  }}
+                  title={bookmark.url}
+                  className="w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-50 truncate"
+                >
+                  {bookmark.title}
+                </button>
+              ))}
+              {!store.bookmarks.some(bookmark => bookmark.folderId === folder.id) && (
+                <p className="px-3 py-1.5 text-xs text-gray-400">Empty folder</p>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      <div className="ml-auto flex gap-3">
+        <button onClick={onManage} className="text-xs text-purple-700 hover:underline">Bookmarks</button>
+        <button onClick={onHistory} className="text-xs text-purple-700 hover:underline">History</button>
+      </div>
+    </div>
+  );
+}
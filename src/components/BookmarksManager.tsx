@@ -0,0 +1,261 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Pencil, Trash2, X } from 'lucide-react';
+import {
+  addFolder,
+  mergeBookmarks,
+  moveBookmark,
+  removeBookmark,
+  removeFolder,
+  renameFolder,
+  updateBookmark,
+  type BookmarkStore,
+} from '@/lib/bookmarks';
+import { exportBookmarksHtml, exportBookmarksJson, parseBookmarksFile } from '@/lib/bookmarkFiles';
+import { downloadFile } from '@/lib/download';
+
+interface BookmarksManagerProps {
+  store: BookmarkStore;
+  onUpdate: (change: (store: BookmarkStore) => BookmarkStore) => void;
+  onOpen: (url: string) => void;
+  onLog: (message: string) => void;
+  onClose: () => void;
+}
+
+// Folder id selected in the sidebar; null is the Quick Access bar
+type FolderSelection = string | null;
+
+// Organize bookmarks: folders, rename, delete, drag to reorder, import and export
+export default function BookmarksManager({ store, onUpdate, onOpen, onLog, onClose }: BookmarksManagerProps) {
+  const [folderId, setFolderId] = useState<FolderSelection>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [editUrl, setEditUrl] = useState('');
+  const [newFolder, setNewFolder] = useState('');
+  const [renamingFolder, setRenamingFolder] = useState(false);
+  const [folderName, setFolderName] = useState('');
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const folder = store.folders.find(candidate => candidate.id === folderId);
+  const bookmarks = store.bookmarks.filter(bookmark => bookmark.folderId === folderId);
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseBookmarksFile(await file.text());
+      onUpdate(current => mergeBookmarks(current, imported));
+      setError('');
+      onLog(`⭐ Imported ${imported.bookmarks.length} bookmark(s) from ${file.name}`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const inputClass = 'px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500';
+  const buttonClass = 'px-3 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-[48rem] max-w-[95vw] h-[32rem] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h3 className="font-bold text-gray-800">⭐ Bookmarks</h3>
+          <div className="flex items-center gap-2">
+            <label className={`${buttonClass} cursor-pointer`}>
+              Import
+              <input
+                type="file"
+                accept=".json,.html,.htm,application/json,text/html"
+                onChange={(e) => {
+                  importFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+            </label>
+            <button
+              onClick={() => downloadFile('burgerbrows-bookmarks.json', exportBookmarksJson(store), 'application/json')}
+              className={buttonClass}
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => downloadFile('burgerbrows-bookmarks.html', exportBookmarksHtml(store), 'text/html')}
+              className={buttonClass}
+            >
+              Export HTML
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+        {error && <p className="px-4 py-2 text-xs text-red-600 bg-red-50">❌ {error}</p>}
+
+        <div className="flex flex-1 min-h-0">
+          {/* Folders */}
+          <div className="w-52 border-r bg-gray-50 p-2 space-y-1 overflow-y-auto">
+            {[{ id: null, name: 'Quick Access' }, ...store.folders].map(entry => (
+              <button
+                key={entry.id ?? 'quick-access'}
+                onClick={() => {
+                  setFolderId(entry.id);
+                  setRenamingFolder(false);
+                }}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => {
+                  if (dragId) onUpdate(current => updateBookmark(current, dragId, { folderId: entry.id }));
+                  setDragId(null);
+                }}
+                className={`w-full text-left px-2 py-1.5 rounded text-sm truncate ${
+                  entry.id === folderId ? 'bg-purple-100 text-purple-800 font-semibold' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {entry.id ? '📁' : '⭐'} {entry.name}
+              </button>
+            ))}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                onUpdate(current => addFolder(current, newFolder));
+                setNewFolder('');
+              }}
+              className="flex gap-1 pt-2"
+            >
+              <input
+                value={newFolder}
+                onChange={(e) => setNewFolder(e.target.value)}
+                placeholder="New folder"
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              <button type="submit" className="px-2 text-sm text-purple-700" title="Add Folder">+</button>
+            </form>
+          </div>
+
+          {/* Bookmarks in the selected folder */}
+          <div className="flex-1 p-3 space-y-2 overflow-y-auto">
+            {folder && (
+              <div className="flex items-center gap-2">
+                {renamingFolder ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      onUpdate(current => renameFolder(current, folder.id, folderName));
+                      setRenamingFolder(false);
+                    }}
+                    className="flex gap-1 flex-1"
+                  >
+                    <input value={folderName} onChange={(e) => setFolderName(e.target.value)} autoFocus className={`${inputClass} flex-1`} />
+                    <button type="submit" className="p-1 text-purple-700" title="Save"><Check size={14} /></button>
+                  </form>
+                ) : (
+                  <>
+                    <h4 className="flex-1 font-semibold text-gray-800 text-sm">📁 {folder.name}</h4>
+                    <button
+                      onClick={() => {
+                        setFolderName(folder.name);
+                        setRenamingFolder(true);
+                      }}
+                      className="p-1 text-gray-400 hover:text-gray-700"
+                      title="Rename Folder"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => {
+                        onUpdate(current => removeFolder(current, folder.id));
+                        setFolderId(null);
+                      }}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Delete Folder and its Bookmarks"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {bookmarks.length === 0 && (
+              <p className="text-xs text-gray-500 text-center py-8">No bookmarks here yet. Use the ☆ in the address bar to add one.</p>
+            )}
+            {bookmarks.map(bookmark => (
+              <div
+                key={bookmark.id}
+                draggable={editing !== bookmark.id}
+                onDragStart={() => setDragId(bookmark.id)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.stopPropagation();
+                  if (dragId) onUpdate(current => moveBookmark(current, dragId, bookmark.id));
+                  setDragId(null);
+                }}
+                onDragEnd={() => setDragId(null)}
+                className={`flex items-center gap-2 p-2 rounded-lg border bg-white ${dragId === bookmark.id ? 'opacity-50' : ''}`}
+              >
+                {editing === bookmark.id ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      onUpdate(current => updateBookmark(current, bookmark.id, {
+                        title: editTitle.trim() || bookmark.title,
+                        url: editUrl.trim() || bookmark.url,
+                      }));
+                      setEditing(null);
+                    }}
+                    className="flex-1 flex gap-1"
+                  >
+                    <input value={editTitle} onChange={(e) => setEditTitle(e.target.value)} autoFocus className={`${inputClass} w-40`} />
+                    <input value={editUrl} onChange={(e) => setEditUrl(e.target.value)} className={`${inputClass} flex-1 font-mono`} />
+                    <button type="submit" className="p-1 text-purple-700" title="Save"><Check size={14} /></button>
+                  </form>
+                ) : (
+                  <>
+                    <span className="cursor-grab text-gray-300" title="Drag to reorder or onto a folder">⋮⋮</span>
+                    <button onClick={() => onOpen(bookmark.url)} className="flex-1 min-w-0 text-left">
+                      <div className="text-sm font-semibold text-gray-800 truncate">{bookmark.title}</div>
+                      <div className="text-xs text-gray-500 font-mono truncate">{bookmark.url}</div>
+                    </button>
+                    <select
+                      value={bookmark.folderId ?? ''}
+                      onChange={(e) => onUpdate(current => updateBookmark(current, bookmark.id, { folderId: e.target.value || null }))}
+                      className="text-xs border border-gray-200 rounded px-1 py-0.5 text-gray-600"
+                      title="Move to folder"
+                    >
+                      <option value="">Quick Access</option>
+                      {store.folders.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => {
+                        setEditing(bookmark.id);
+                        setEditTitle(bookmark.title);
+                        setEditUrl(bookmark.url);
+                      }}
+                      className="p-1 text-gray-400 hover:text-gray-700"
+                      title="Edit"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => onUpdate(current => removeBookmark(current, bookmark.id))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { changePassword, validatePassword } from '@/lib/keystore';
+
+interface ChangePasswordFormProps {
+  onDone: (message: string) => void;
+  onCancel: () => void;
+}
+
+// Re-encrypts the wallet keystore under a new password
+export default function ChangePasswordForm({ onDone, onCancel }: ChangePasswordFormProps) {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validatePassword(newPassword, confirmation);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setError('');
+      await changePassword(currentPassword, newPassword);
+      onDone('🔑 Wallet password changed');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <input
+        type="password"
+        value={currentPassword}
+        onChange={(e) => setCurrentPassword(e.target.value)}
+        placeholder="Current password"
+        className={inputClass}
+      />
+      <input
+        type="password"
+        value={newPassword}
+        onChange={(e) => setNewPassword(e.target.value)}
+        placeholder="New password"
+        className={inputClass}
+      />
+      <input
+        type="password"
+        value={confirmation}
+        onChange={(e) => setConfirmation(e.target.value)}
+        placeholder="Confirm new password"
+        className={inputClass}
+      />
+      {error && <p className="text-xs text-red-600">❌ {error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={busy || !currentPassword}
+          className="flex-1 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold disabled:opacity-50"
+        >
+          {busy ? 'Saving...' : 'Change Password'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import type { SiteConnection } from '@/lib/walletBridge';
+
+interface ConnectedSitesProps {
+  connections: SiteConnection[];
+  onRevoke: (origin: string) => void;
+}
+
+// Sites the active account is shared with, each revocable
+export default function ConnectedSites({ connections, onRevoke }: ConnectedSitesProps) {
+  if (connections.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 text-center py-6">
+        No connected sites yet. Pages that request your account will appear here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {connections.map(connection => (
+        <div key={connection.origin} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-gray-800 font-mono truncate">{connection.origin}</p>
+            <p className="text-xs text-gray-500">Connected {new Date(connection.connectedAt).toLocaleString()}</p>
+          </div>
+          <button
+            onClick={() => onRevoke(connection.origin)}
+            className="px-2 py-1 text-xs bg-red-50 hover:bg-red-100 text-red-700 rounded"
+          >
+            Revoke
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { Trash2, X } from 'lucide-react';
+import {
+  CLEAR_RANGES,
+  clearVisits,
+  groupVisitsByDay,
+  mergeVisits,
+  removeVisit,
+  searchVisits,
+  type ClearRange,
+  type PageVisit,
+} from '@/lib/browsingHistory';
+import { exportHistoryHtml, exportHistoryJson, parseHistoryFile } from '@/lib/bookmarkFiles';
+import { downloadFile } from '@/lib/download';
+
+interface HistoryManagerProps {
+  visits: PageVisit[];
+  onUpdate: (change: (visits: PageVisit[]) => PageVisit[]) => void;
+  onOpen: (url: string) => void;
+  onLog: (message: string) => void;
+  onClose: () => void;
+}
+
+// Searchable browsing history grouped by day, with clear-range controls, import and export
+export default function HistoryManager({ visits, onUpdate, onOpen, onLog, onClose }: HistoryManagerProps) {
+  const [query, setQuery] = useState('');
+  const [clearRange, setClearRange] = useState<ClearRange>('hour');
+  const [error, setError] = useState('');
+
+  const groups = groupVisitsByDay(searchVisits(visits, query));
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseHistoryFile(await file.text());
+      onUpdate(current => mergeVisits(current, imported));
+      setError('');
+      onLog(`🕘 Imported ${imported.length} history entries from ${file.name}`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const clear = () => {
+    const label = CLEAR_RANGES.find(range => range.id === clearRange)?.label.toLowerCase();
+    if (!window.confirm(`Clear browsing history from ${label}?`)) return;
+    onUpdate(current => clearVisits(current, clearRange));
+    onLog(`🧹 Cleared browsing history from ${label}`);
+  };
+
+  const buttonClass = 'px-3 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-[48rem] max-w-[95vw] h-[32rem] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h3 className="font-bold text-gray-800">🕘 History</h3>
+          <div className="flex items-center gap-2">
+            <label className={`${buttonClass} cursor-pointer`}>
+              Import
+              <input
+                type="file"
+                accept=".json,.html,.htm,application/json,text/html"
+                onChange={(e) => {
+                  importFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+            </label>
+            <button
+              onClick={() => downloadFile('burgerbrows-history.json', exportHistoryJson(visits), 'application/json')}
+              className={buttonClass}
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => downloadFile('burgerbrows-history.html', exportHistoryHtml(visits), 'text/html')}
+              className={buttonClass}
+            >
+              Export HTML
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 px-4 py-2 border-b bg-gray-50">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search history"
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <select
+            value={clearRange}
+            onChange={(e) => setClearRange(e.target.value as ClearRange)}
+            className="px-2 py-1.5 text-xs border border-gray-300 rounded-lg text-gray-700"
+          >
+            {CLEAR_RANGES.map(range => (
+              <option key={range.id} value={range.id}>{range.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={clear}
+            disabled={visits.length === 0}
+            className="px-3 py-1.5 text-xs bg-red-50 hover:bg-red-100 text-red-700 rounded-lg disabled:opacity-50"
+          >
+            Clear
+          </button>
+        </div>
+        {error && <p className="px-4 py-2 text-xs text-red-600 bg-red-50">❌ {error}</p>}
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-4">
+          {groups.length === 0 && (
+            <p className="text-xs text-gray-500 text-center py-8">
+              {query ? 'No matching pages' : 'Pages you visit will appear here'}
+            </p>
+          )}
+          {groups.map(group => (
+            <div key={group.label} className="space-y-1">
+              <h4 className="text-xs font-semibold text-gray-500 uppercase">{group.label}</h4>
+              {group.visits.map(visit => (
+                <div key={visit.id} className="group flex items-center gap-3 px-2 py-1.5 rounded hover:bg-gray-50">
+                  <span className="text-xs text-gray-400 w-14 shrink-0">
+                    {new Date(visit.visitedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  <button onClick={() => onOpen(visit.url)} className="flex-1 min-w-0 text-left">
+                    <span className="text-sm text-gray-800 truncate block">{visit.title}</span>
+                    <span className="text-xs text-gray-500 font-mono truncate block">{visit.url}</span>
+                  </button>
+                  <button
+                    onClick={() => onUpdate(current => removeVisit(current, visit.id))}
+                    className="p-1 text-gray-300 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                    title="Remove from History"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { HISTORY_CONFIRMATIONS, type HistoryEntry, type HistoryKind } from '@/lib/history';
+
+interface HistoryPanelProps {
+  // Block explorer link for a transaction, when the network has one
+  txUrl: (hash: string) => string | undefined;
+  entries: HistoryEntry[];
+  latestBlock: number | null;
+  syncing: boolean;
+  error: string;
+  onRefresh: () => void;
+}
+
+const KIND_LABELS: Record<HistoryKind, { icon: string; label: string }> = {
+  faucet: { icon: '🚰', label: 'Faucet Mint' },
+  reward: { icon: '🎁', label: 'Reward' },
+  deposit: { icon: '🏦', label: 'Vault Deposit' },
+  withdrawal: { icon: '🏧', label: 'Vault Withdrawal' },
+  transfer: { icon: '💸', label: 'Transfer' },
+};
+
+// Persistent list of on-chain activity for the active account
+export default function HistoryPanel({ txUrl, entries, latestBlock, syncing, error, onRefresh }: HistoryPanelProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-gray-800 text-sm">🧾 Transaction History</h4>
+        <button
+          onClick={onRefresh}
+          disabled={syncing}
+          className="text-xs text-purple-700 hover:underline disabled:opacity-50"
+        >
+          {syncing ? 'Syncing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">❌ {error}</p>}
+
+      <div className="space-y-1 max-h-80 overflow-y-auto">
+        {entries.length === 0 && (
+          <p className="text-xs text-gray-500 text-center py-4">
+            {syncing ? 'Scanning recent blocks...' : 'No transactions yet'}
+          </p>
+        )}
+        {entries.map(entry => {
+          const { icon, label } = KIND_LABELS[entry.kind];
+          const confirmations = latestBlock !== null ? latestBlock - entry.blockNumber + 1 : 0;
+          const confirmed = confirmations >= HISTORY_CONFIRMATIONS;
+          const link = txUrl(entry.txHash);
+          return (
+            <div key={entry.id} className="flex items-center gap-2 bg-white p-2 rounded border text-xs">
+              <span className="text-lg">{icon}</span>
+              <div className="flex-1 min-w-0">
+                <div className="font-semibold text-gray-800">
+                  {link ? (
+                    <a href={link} target="_blank" rel="noopener noreferrer" className="hover:underline">{label}</a>
+                  ) : label}
+                </div>
+                <div className="text-gray-500 truncate">
+                  {entry.timestamp ? new Date(entry.timestamp).toLocaleString() : '—'} · Block {entry.blockNumber}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className={`font-semibold ${entry.direction === 'in' ? 'text-green-700' : 'text-gray-800'}`}>
+                  {entry.direction === 'in' ? '+' : '-'}{entry.amount}
+                </div>
+                <div className={confirmed ? 'text-gray-400' : 'text-orange-600'}>
+                  {confirmed ? 'Confirmed' : `${Math.max(confirmations, 0)}/${HISTORY_CONFIRMATIONS} conf.`}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
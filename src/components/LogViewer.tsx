@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  exportLogsCsv,
+  exportLogsJson,
+  filterLogEvents,
+  LOG_CATEGORIES,
+  LOG_LEVELS,
+  type LogCategory,
+  type LogEvent,
+  type LogLevel,
+} from '@/lib/activityLog';
+import { downloadFile } from '@/lib/download';
+
+interface LogViewerProps {
+  events: LogEvent[];
+  // Block explorer link for a transaction, when the current network has one
+  txUrl: (hash: string) => string | undefined;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  info: 'bg-blue-50 text-blue-700',
+  success: 'bg-green-50 text-green-700',
+  error: 'bg-red-50 text-red-700',
+};
+
+// Toggle a value in a filter list
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+// Full activity log with level/category filters, search and JSON/CSV export of the filtered view
+export default function LogViewer({ events, txUrl, onClear, onClose }: LogViewerProps) {
+  const [levels, setLevels] = useState<LogLevel[]>(LOG_LEVELS);
+  const [categories, setCategories] = useState<LogCategory[]>(LOG_CATEGORIES);
+  const [query, setQuery] = useState('');
+
+  // Newest first
+  const visible = filterLogEvents(events, { levels, categories, query }).reverse();
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+  const clear = () => {
+    if (!window.confirm('Clear the whole activity log?')) return;
+    onClear();
+  };
+
+  const buttonClass = 'px-3 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg';
+  const chipClass = (active: boolean) =>
+    `px-2 py-1 text-xs rounded-full border capitalize ${
+      active ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-[52rem] max-w-[95vw] h-[36rem] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h3 className="font-bold text-gray-800">📊 Activity Log</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadFile(`burgerbrows-log-${stamp}.json`, exportLogsJson([...visible].reverse()), 'application/json')}
+              disabled={visible.length === 0}
+              className={`${buttonClass} disabled:opacity-50`}
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => downloadFile(`burgerbrows-log-${stamp}.csv`, exportLogsCsv([...visible].reverse()), 'text/csv')}
+              disabled={visible.length === 0}
+              className={`${buttonClass} disabled:opacity-50`}
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={clear}
+              disabled={events.length === 0}
+              className="px-3 py-1.5 text-xs bg-red-50 hover:bg-red-100 text-red-700 rounded-lg disabled:opacity-50"
+            >
+              Clear
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-4 py-2 border-b bg-gray-50 space-y-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search messages, transaction hashes and URLs"
+            className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <div className="flex flex-wrap items-center gap-1">
+            {LOG_LEVELS.map(level => (
+              <button key={level} onClick={() => setLevels(current => toggle(current, level))} className={chipClass(levels.includes(level))}>
+                {level}
+              </button>
+            ))}
+            <span className="mx-1 text-gray-300">|</span>
+            {LOG_CATEGORIES.map(category => (
+              <button
+                key={category}
+                onClick={() => setCategories(current => toggle(current, category))}
+                className={chipClass(categories.includes(category))}
+              >
+                {category}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {visible.length === 0 && (
+            <p className="text-xs text-gray-500 text-center py-8">
+              {events.length === 0 ? 'Nothing logged yet' : 'No events match these filters'}
+            </p>
+          )}
+          {visible.map(event => {
+            const link = event.txHash ? txUrl(event.txHash) : undefined;
+            return (
+              <div key={event.id} className="flex items-start gap-2 px-2 py-1.5 rounded hover:bg-gray-50 text-xs">
+                <span className="text-gray-400 w-32 shrink-0">{new Date(event.timestamp).toLocaleString()}</span>
+                <span className={`px-1.5 rounded capitalize shrink-0 ${LEVEL_STYLES[event.level]}`}>{event.level}</span>
+                <span className="px-1.5 rounded bg-gray-100 text-gray-600 capitalize shrink-0">{event.category}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-800 break-words">{event.message}</p>
+                  {event.txHash && (
+                    link ? (
+                      <a href={link} target="_blank" rel="noopener noreferrer" className="font-mono text-purple-700 hover:underline break-all">
+                        {event.txHash}
+                      </a>
+                    ) : (
+                      <p className="font-mono text-gray-500 break-all">{event.txHash}</p>
+                    )
+                  )}
+                  {event.url && <p className="text-gray-500 truncate">{event.url}</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
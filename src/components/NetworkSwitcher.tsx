@@ -0,0 +1,30 @@
+'use client';
+
+import { NETWORKS, type NetworkConfig } from '@/lib/networks';
+
+interface NetworkSwitcherProps {
+  network: NetworkConfig;
+  // Set when the RPC reports a different chain than the selected network
+  warning: string;
+  onSwitch: (id: string) => void;
+}
+
+// Navbar select for the active network, flagged when the RPC chain does not match
+export default function NetworkSwitcher({ network, warning, onSwitch }: NetworkSwitcherProps) {
+  return (
+    <select
+      value={network.id}
+      onChange={(e) => onSwitch(e.target.value)}
+      title={warning || `Chain ID ${network.chainId}`}
+      className={`px-2 py-1 rounded text-xs font-medium border focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+        warning ? 'bg-yellow-50 border-yellow-400 text-yellow-800' : 'bg-white border-gray-300 text-gray-700'
+      }`}
+    >
+      {NETWORKS.map(option => (
+        <option key={option.id} value={option.id}>
+          {warning && option.id === network.id ? '⚠️ ' : ''}{option.name}
+        </option>
+      ))}
+    </select>
+  );
+}
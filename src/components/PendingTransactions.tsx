@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { latestAttempts, type PendingTx, type TxStatus } from '@/lib/pendingTx';
+
+interface PendingTransactionsProps {
+  transactions: PendingTx[];
+  // Block explorer link for a transaction, when the network has one
+  txUrl: (hash: string) => string | undefined;
+  onSpeedUp: (id: string) => Promise<void>;
+  onCancel: (id: string) => Promise<void>;
+  onClearSettled: () => void;
+}
+
+const STATUS_LABELS: Record<TxStatus, { icon: string; label: string }> = {
+  pending: { icon: '⏳', label: 'Pending' },
+  confirmed: { icon: '✅', label: 'Confirmed' },
+  failed: { icon: '❌', label: 'Reverted' },
+  replaced: { icon: '🔁', label: 'Replaced' },
+  dropped: { icon: '⚠️', label: 'Dropped' },
+};
+
+// Queue of sent transactions with speed-up and cancel for the ones still pending
+export default function PendingTransactions({
+  transactions,
+  txUrl,
+  onSpeedUp,
+  onCancel,
+  onClearSettled,
+}: PendingTransactionsProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Replaced attempts are noise once their nonce has settled
+  const visible = latestAttempts(transactions.filter(tx => tx.status !== 'replaced'));
+  const hasSettled = transactions.some(tx => tx.status !== 'pending');
+
+  const run = async (id: string, action: (id: string) => Promise<void>) => {
+    setBusyId(id);
+    setError('');
+    try {
+      await action(id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-gray-800 text-sm">⏳ Transaction Queue</h4>
+        {hasSettled && (
+          <button onClick={onClearSettled} className="text-xs text-purple-700 hover:underline">
+            Clear finished
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-600">❌ {error}</p>}
+
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {visible.map(tx => {
+          const { icon, label } = STATUS_LABELS[tx.status];
+          const link = txUrl(tx.hash);
+          return (
+            <div key={tx.id} className="bg-white p-2 rounded border text-xs space-y-1">
+              <div className="flex items-center gap-2">
+                <span>{icon}</span>
+                <span className="flex-1 font-semibold text-gray-800 truncate">{tx.label}</span>
+                <span className="text-gray-500">#{tx.nonce}</span>
+              </div>
+              <div className="flex items-center gap-2 text-gray-500">
+                <span>{label}</span>
+                {link ? (
+                  <a href={link} target="_blank" rel="noopener noreferrer" className="font-mono hover:underline truncate">
+                    {tx.hash.slice(0, 18)}...
+                  </a>
+                ) : (
+                  <span className="font-mono truncate">{tx.hash.slice(0, 18)}...</span>
+                )}
+              </div>
+              {tx.status === 'pending' && (
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => run(tx.id, onSpeedUp)}
+                    disabled={busyId !== null}
+                    className="flex-1 py-1 bg-purple-50 hover:bg-purple-100 text-purple-700 rounded disabled:opacity-50"
+                  >
+                    ⚡ Speed up
+                  </button>
+                  {tx.kind !== 'cancel' && (
+                    <button
+                      onClick={() => run(tx.id, onCancel)}
+                      disabled={busyId !== null}
+                      className="flex-1 py-1 bg-red-50 hover:bg-red-100 text-red-700 rounded disabled:opacity-50"
+                    >
+                      🛑 Cancel
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+
+interface PrivateSessionPanelProps {
+  // Main wallet to sweep to; unset when the session was started from the unlock screen
+  returnAddress?: string;
+  walletBalance: string;
+  vaultBalance: string;
+  ethBalance: string;
+  loading: boolean;
+  onSweepAndEnd: () => Promise<void>;
+  onEnd: () => void;
+}
+
+// Private session status and the end-session prompt, offering to sweep leftover USDC to the main wallet first
+export default function PrivateSessionPanel({
+  returnAddress,
+  walletBalance,
+  vaultBalance,
+  ethBalance,
+  loading,
+  onSweepAndEnd,
+  onEnd,
+}: PrivateSessionPanelProps) {
+  const [ending, setEnding] = useState(false);
+  const total = Number(walletBalance) + Number(vaultBalance);
+
+  if (!ending) {
+    return (
+      <div className="p-3 bg-gray-900 text-gray-100 rounded-lg space-y-2">
+        <p className="text-sm font-semibold">🕶️ Private session</p>
+        <p className="text-xs text-gray-300">
+          This throwaway wallet, your tabs and history exist in memory only. Ending the session, closing or reloading
+          the page wipes them for good.
+        </p>
+        <button
+          onClick={() => (total > 0 ? setEnding(true) : onEnd())}
+          className="w-full py-2 text-sm bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
+        >
+          End private session
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-2 text-sm">
+      <p className="font-semibold text-yellow-900">
+        This wallet still holds {walletBalance} USDC{Number(vaultBalance) > 0 && ` + ${vaultBalance} USDC in the vault`}
+      </p>
+      {returnAddress ? (
+        <>
+          <p className="text-xs text-yellow-800">
+            Sweep it to your main wallet <span className="font-mono">{returnAddress.slice(0, 10)}...</span> before the key is
+            discarded?
+          </p>
+          {Number(ethBalance) === 0 && (
+            <p className="text-xs text-red-700">⚠️ The sweep is paid in ETH and this wallet has none.</p>
+          )}
+          <button
+            onClick={onSweepAndEnd}
+            disabled={loading}
+            className="w-full py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium disabled:opacity-50"
+          >
+            {loading ? 'Sweeping...' : 'Sweep and end session'}
+          </button>
+        </>
+      ) : (
+        <p className="text-xs text-yellow-800">
+          There is no main wallet to sweep to. Send it somewhere first, or it is lost with the session.
+        </p>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={() => setEnding(false)}
+          disabled={loading}
+          className="flex-1 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onEnd}
+          disabled={loading}
+          className="flex-1 py-2 bg-red-50 hover:bg-red-100 text-red-700 rounded-lg disabled:opacity-50"
+        >
+          End and discard
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import QRCode from 'qrcode';
+import { parseTokenAmount } from '@/lib/amounts';
+import { buildPaymentRequest } from '@/lib/paymentRequest';
+
+interface ReceivePanelProps {
+  address: string;
+  tokenAddress?: string;
+  chainId: number | null;
+  decimals: number;
+  onLog: (message: string) => void;
+  onClose: () => void;
+}
+
+// QR code as an SVG path of the dark modules inside a one-module quiet zone, or null when the content does not fit
+const qrCodeSvg = (content: string) => {
+  try {
+    const { modules } = QRCode.create(content);
+    let path = '';
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) path += `M${col + 1} ${row + 1}h1v1h-1z`;
+      }
+    }
+    return { path, size: modules.size + 2 };
+  } catch {
+    return null;
+  }
+};
+
+// QR code of the wallet address, plus EIP-681 payment request links with an optional amount
+export default function ReceivePanel({ address, tokenAddress, chainId, decimals, onLog, onClose }: ReceivePanelProps) {
+  const [amount, setAmount] = useState('');
+
+  let amountError = '';
+  let paymentRequest = '';
+  if (tokenAddress && chainId !== null) {
+    try {
+      const value = amount.trim() ? parseTokenAmount(amount, decimals) : undefined;
+      paymentRequest = buildPaymentRequest(tokenAddress, chainId, address, value);
+    } catch (error) {
+      amountError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  // Plain address QR until an amount is entered, then the full payment request
+  const qrCode = qrCodeSvg(amount.trim() && paymentRequest ? paymentRequest : address);
+
+  const copy = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      onLog(`📋 ${label} copied to clipboard!`);
+    } catch {
+      onLog(`❌ Failed to copy ${label.toLowerCase()}`);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-gray-800 text-sm">📥 Receive USDC</h4>
+        <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-700">Close</button>
+      </div>
+
+      <div className="flex justify-center">
+        {qrCode ? (
+          <svg
+            viewBox={`0 0 ${qrCode.size} ${qrCode.size}`}
+            role="img"
+            aria-label="Receive QR code"
+            shapeRendering="crispEdges"
+            className="w-48 h-48 border rounded-lg bg-white"
+          >
+            <path d={qrCode.path} fill="#000" />
+          </svg>
+        ) : (
+          <div className="w-48 h-48 border rounded-lg bg-gray-50" />
+        )}
+      </div>
+      <p className="font-mono text-xs text-gray-700 text-center break-all">{address}</p>
+
+      <input
+        type="text"
+        inputMode="decimal"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        placeholder="Request amount (optional)"
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+      {amountError && <p className="text-xs text-red-600">❌ {amountError}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => copy(address, 'Wallet address')}
+          className="flex-1 py-2 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg"
+        >
+          📋 Copy Address
+        </button>
+        <button
+          onClick={() => copy(paymentRequest, 'Payment request link')}
+          disabled={!paymentRequest}
+          className="flex-1 py-2 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg disabled:opacity-50"
+        >
+          🔗 Copy Payment Link
+        </button>
+      </div>
+      {paymentRequest && (
+        <p className="font-mono text-[10px] text-gray-400 break-all">{paymentRequest}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { resolveRestoreSource, validatePassword, type RestoredKey, type RestoreMethod } from '@/lib/keystore';
+
+interface RestoreWalletFormProps {
+  // Receives the validated key, the password to encrypt it with and an optional account label
+  onRestore: (restored: RestoredKey, password: string, label: string) => Promise<void>;
+  onCancel: () => void;
+  // Shown when restoring would replace an existing wallet
+  warning?: string;
+  // 'current' asks for the existing wallet password when importing an extra account
+  passwordMode?: 'new' | 'current';
+  submitLabel?: string;
+}
+
+const METHODS: { id: RestoreMethod; label: string }[] = [
+  { id: 'mnemonic', label: 'Recovery Phrase' },
+  { id: 'privateKey', label: 'Private Key' },
+  { id: 'keystore', label: 'Keystore File' },
+];
+
+// Restore or import a wallet from a recovery phrase, raw private key or keystore JSON
+export default function RestoreWalletForm({
+  onRestore,
+  onCancel,
+  warning,
+  passwordMode = 'new',
+  submitLabel = 'Restore Wallet',
+}: RestoreWalletFormProps) {
+  const [method, setMethod] = useState<RestoreMethod>('mnemonic');
+  const [label, setLabel] = useState('');
+  const [secret, setSecret] = useState('');
+  const [keystorePassword, setKeystorePassword] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setSecret(await file.text());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = passwordMode === 'new' ? validatePassword(password, confirmation) : null;
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setError('');
+      const restored = await resolveRestoreSource(method, secret, keystorePassword);
+      await onRestore(restored, password, label);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 text-left">
+      <div className="flex gap-1">
+        {METHODS.map(({ id, label }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => {
+              setMethod(id);
+              setSecret('');
+              setError('');
+            }}
+            className={`flex-1 py-1 text-xs rounded-lg border transition-colors ${
+              method === id ? 'bg-purple-600 text-white border-purple-600' : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {method === 'mnemonic' && (
+        <textarea
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          placeholder="Enter your 12 or 24 word recovery phrase"
+          rows={3}
+          className={`${inputClass} font-mono`}
+        />
+      )}
+      {method === 'privateKey' && (
+        <input
+          type="password"
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          placeholder="0x..."
+          className={`${inputClass} font-mono`}
+        />
+      )}
+      {method === 'keystore' && (
+        <>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="w-full text-xs text-gray-600"
+          />
+          <input
+            type="password"
+            value={keystorePassword}
+            onChange={(e) => setKeystorePassword(e.target.value)}
+            placeholder="Keystore file password"
+            className={inputClass}
+          />
+        </>
+      )}
+
+      {passwordMode === 'current' ? (
+        <>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Account name (optional)"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Wallet password"
+            className={inputClass}
+          />
+        </>
+      ) : (
+        <>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="New wallet password"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirm wallet password"
+            className={inputClass}
+          />
+        </>
+      )}
+
+      {warning && <p className="text-xs text-orange-600">⚠️ {warning}</p>}
+      {error && <p className="text-xs text-red-600">❌ {error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={busy || !secret}
+          className="flex-1 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold disabled:opacity-50"
+        >
+          {busy ? 'Working...' : submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { formatDuration } from '@/lib/limits';
+import { getPoolFundingLevel, type PoolFundingLevel, type PoolStatus, type RewardClaim } from '@/lib/rewardPool';
+
+interface RewardPoolPanelProps {
+  status: PoolStatus | null;
+  claims: RewardClaim[];
+  // Off-chain rewards accrued from browsing, claimable with a voucher
+  accrued: string;
+  decimals: number;
+  loading: boolean;
+  error: string;
+  // A claim transaction is already pending for this account
+  claiming: boolean;
+  // Time left on the server's claim cooldown, 0 when a voucher can be requested
+  cooldownMs: number;
+  txUrl: (hash: string) => string | undefined;
+  onClaim: () => Promise<void>;
+  // Set when this account can't claim at all, e.g. in a private session
+  unavailableReason?: string;
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+const FUNDING_STYLES: Record<PoolFundingLevel, { label: string; className: string }> = {
+  funded: { label: 'Funded', className: 'bg-green-100 text-green-700' },
+  low: { label: 'Running low', className: 'bg-yellow-100 text-yellow-700' },
+  empty: { label: 'Empty', className: 'bg-red-100 text-red-700' },
+};
+
+// RewardPool funding, claimable rewards and claim history for the active account
+export default function RewardPoolPanel({
+  status,
+  claims,
+  accrued,
+  decimals,
+  loading,
+  error,
+  claiming,
+  cooldownMs,
+  txUrl,
+  onClaim,
+  unavailableReason,
+  onRefresh,
+  onClose,
+}: RewardPoolPanelProps) {
+  const level = status ? getPoolFundingLevel(status.poolBalance, decimals) : null;
+  const funding = level ? FUNDING_STYLES[level] : null;
+  const onChain = Number(status?.claimable ?? 0);
+  const nothingToClaim = Number(accrued) === 0 && onChain === 0;
+  // On-chain rewards need no voucher, so only a voucher-only claim waits out the cooldown
+  const coolingDown = cooldownMs > 0 && onChain === 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-gray-800 text-sm">🎁 Reward Pool</h4>
+        <div className="flex items-center gap-3">
+          <button onClick={onRefresh} disabled={loading} className="text-xs text-purple-700 hover:underline disabled:opacity-50">
+            {loading ? 'Loading...' : 'Refresh'}
+          </button>
+          <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-700">Close</button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600">❌ {error}</p>}
+
+      <div className="flex items-center justify-between bg-gray-50 rounded-lg p-2 border text-xs">
+        <span className="text-gray-500">Pool balance</span>
+        <span className="flex items-center gap-2">
+          <span className="font-semibold text-gray-800">{status ? `${status.poolBalance} USDC` : '—'}</span>
+          {funding && <span className={`px-1.5 py-0.5 rounded ${funding.className}`}>{funding.label}</span>}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-orange-50 rounded-lg p-2 border border-orange-200">
+          <div className="text-xs text-orange-600">Accrued</div>
+          <div className="font-semibold text-orange-800 text-sm">{accrued}</div>
+        </div>
+        <div className="bg-orange-50 rounded-lg p-2 border border-orange-200">
+          <div className="text-xs text-orange-600">On-chain</div>
+          <div className="font-semibold text-orange-800 text-sm">{status?.claimable ?? '—'}</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-2 border">
+          <div className="text-xs text-gray-500">Claimed</div>
+          <div className="font-semibold text-gray-800 text-sm">{status?.totalClaimed ?? '—'}</div>
+        </div>
+      </div>
+
+      <button
+        onClick={onClaim}
+        disabled={claiming || nothingToClaim || coolingDown || level === 'empty' || Boolean(unavailableReason)}
+        className="w-full py-2 text-sm bg-orange-500 hover:bg-orange-600 text-white rounded-lg font-semibold disabled:opacity-50"
+      >
+        {unavailableReason
+          ?? (claiming ? 'Claim pending...' : coolingDown ? `Next claim available in ${formatDuration(cooldownMs)}` : 'Claim Rewards')}
+      </button>
+
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {claims.length === 0 && (
+          <p className="text-xs text-gray-500 text-center py-2">{loading ? 'Loading claims...' : 'No claims yet'}</p>
+        )}
+        {claims.map(claim => {
+          const link = txUrl(claim.txHash);
+          return (
+            <div key={claim.id} className="flex items-center justify-between bg-white p-2 rounded border text-xs">
+              <span className="text-gray-500">
+                {claim.timestamp ? new Date(claim.timestamp).toLocaleString() : `Block ${claim.blockNumber}`}
+              </span>
+              {link ? (
+                <a href={link} target="_blank" rel="noopener noreferrer" className="font-semibold text-green-700 hover:underline">
+                  +{claim.amount} USDC
+                </a>
+              ) : (
+                <span className="font-semibold text-green-700">+{claim.amount} USDC</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import type { RpcHealth, RpcHealthStatus } from '@/lib/balanceWatcher';
+
+interface RpcHealthIndicatorProps {
+  health: RpcHealth;
+}
+
+const STATUS_STYLES: Record<RpcHealthStatus, { label: string; dot: string }> = {
+  connecting: { label: 'Connecting', dot: 'bg-gray-400 animate-pulse' },
+  live: { label: 'Live', dot: 'bg-green-500' },
+  degraded: { label: 'Degraded', dot: 'bg-yellow-500' },
+  offline: { label: 'Offline', dot: 'bg-red-500' },
+};
+
+// Navbar dot for the RPC connection: live updates over WebSocket, polling fallback, or trouble
+export default function RpcHealthIndicator({ health }: RpcHealthIndicatorProps) {
+  const style = STATUS_STYLES[health.status];
+  const details = [
+    `${style.label} · ${health.transport === 'websocket' ? 'WebSocket' : 'HTTP polling'}`,
+    health.blockNumber !== null ? `Block ${health.blockNumber}` : null,
+    health.updatedAt ? `Updated ${new Date(health.updatedAt).toLocaleTimeString()}` : null,
+    health.error ?? null,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span
+      title={details}
+      className="flex items-center gap-1 px-2 py-1 rounded bg-white border border-gray-300 text-xs text-gray-600"
+    >
+      <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+      {health.transport === 'websocket' ? 'WS' : 'Poll'}
+    </span>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { SEARCH_PROVIDERS, validateSearchTemplate, type SearchSettings } from '@/lib/search';
+
+interface SearchEngineSelectProps {
+  settings: SearchSettings;
+  onChange: (settings: SearchSettings) => void;
+}
+
+// Navbar picker for the search provider, with a custom URL template option
+export default function SearchEngineSelect({ settings, onChange }: SearchEngineSelectProps) {
+  const [editing, setEditing] = useState(false);
+  const [template, setTemplate] = useState(settings.customTemplate);
+  const [error, setError] = useState('');
+
+  const saveTemplate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const templateError = validateSearchTemplate(template.trim());
+    if (templateError) {
+      setError(templateError);
+      return;
+    }
+    onChange({ providerId: 'custom', customTemplate: template.trim() });
+    setError('');
+    setEditing(false);
+  };
+
+  return (
+    <div className="relative">
+      <select
+        value={settings.providerId}
+        onChange={(e) => {
+          if (e.target.value === 'custom') {
+            setEditing(true);
+          } else {
+            onChange({ ...settings, providerId: e.target.value });
+          }
+        }}
+        title="Search engine"
+        className="px-2 py-1 rounded text-xs font-medium border bg-white border-gray-300 text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+      >
+        {SEARCH_PROVIDERS.map(provider => (
+          <option key={provider.id} value={provider.id}>🔍 {provider.name}</option>
+        ))}
+        <option value="custom">🔍 Custom...</option>
+      </select>
+
+      {editing && (
+        <form
+          onSubmit={saveTemplate}
+          className="absolute right-0 top-full mt-1 z-40 w-80 bg-white border border-gray-200 rounded-lg shadow-lg p-3 space-y-2"
+        >
+          <p className="text-xs text-gray-600">Search URL with %s where the query goes</p>
+          <input
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            placeholder="https://search.example.com/?q=%s"
+            autoFocus
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          {error && <p className="text-xs text-red-600">❌ {error}</p>}
+          <div className="flex gap-2">
+            <button type="submit" className="flex-1 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold">
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setEditing(false);
+                setError('');
+              }}
+              className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { THREAT_LABELS, type BlockedDomain } from '@/lib/siteSecurity';
+
+interface SecurityInterstitialProps {
+  url: string;
+  threat: BlockedDomain;
+  onBack: () => void;
+  // Load the page this once
+  onProceed: () => void;
+  // Load the page and stop warning about its domain
+  onTrust: () => void;
+}
+
+// Full-page warning shown instead of a flagged site until the user decides
+export default function SecurityInterstitial({ url, threat, onBack, onProceed, onTrust }: SecurityInterstitialProps) {
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-red-50">
+      <div className="max-w-lg p-8 text-center">
+        <div className="text-6xl mb-4">⛔</div>
+        <h2 className="text-xl font-bold text-red-800 mb-2">Deceptive site ahead</h2>
+        <p className="text-sm font-mono text-red-700 break-all mb-4">{url}</p>
+        <p className="text-gray-700 mb-2">
+          <strong>{threat.domain}</strong> is on the BurgerBrows blocklist as: <strong>{THREAT_LABELS[threat.category]}</strong>
+        </p>
+        {threat.description && <p className="text-gray-600 mb-4">{threat.description}</p>}
+        <p className="text-sm text-gray-600 mb-6">
+          Sites like this try to steal recovery phrases or trick you into signing approvals that empty your wallet.
+        </p>
+        <button
+          onClick={onBack}
+          className="w-full px-4 py-3 mb-4 bg-red-600 hover:bg-red-700 text-white rounded-lg font-semibold"
+        >
+          Back to safety
+        </button>
+        <details className="text-sm text-gray-600">
+          <summary className="cursor-pointer">I understand the risk</summary>
+          <div className="flex gap-2 mt-3">
+            <button onClick={onProceed} className="flex-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg">
+              Continue once
+            </button>
+            <button onClick={onTrust} className="flex-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg">
+              Always allow {threat.domain}
+            </button>
+          </div>
+        </details>
+      </div>
+    </div>
+  );
+}
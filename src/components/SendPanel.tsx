@@ -0,0 +1,237 @@
+'use client';
+
+import { useState } from 'react';
+import { ethers } from 'ethers';
+import { parseTokenAmount, validateTokenAmount } from '@/lib/amounts';
+import { describeTxError } from '@/lib/errors';
+import { isPaymentRequestUri, parsePaymentRequest, toSendPrefill, type SendPrefill } from '@/lib/paymentRequest';
+import { estimateTransfer, resolveRecipient, type ResolvedRecipient, type TransferEstimate } from '@/lib/transfers';
+
+interface SendPanelProps {
+  provider: ethers.Provider;
+  tokenAddress?: string;
+  fromAddress: string;
+  balance: string;
+  decimals: number;
+  chainId: number | null;
+  // Recipient and amount taken from an EIP-681 payment request
+  prefill?: SendPrefill;
+  // Submits the transfer, reports the hash once broadcast and resolves with the mined block
+  onSend: (to: string, amount: bigint, onSubmitted: (hash: string) => void) => Promise<number>;
+  onClose: () => void;
+}
+
+type SendStep = 'form' | 'confirm' | 'pending' | 'done';
+
+// Send MockUSDC: recipient and amount entry, gas estimate, confirmation and receipt tracking
+export default function SendPanel({
+  provider,
+  tokenAddress,
+  fromAddress,
+  balance,
+  decimals,
+  chainId,
+  prefill,
+  onSend,
+  onClose,
+}: SendPanelProps) {
+  const [step, setStep] = useState<SendStep>('form');
+  const [recipientInput, setRecipientInput] = useState(prefill?.recipient ?? '');
+  const [amountInput, setAmountInput] = useState(prefill?.amount ?? '');
+  const [requestWarning, setRequestWarning] = useState(prefill?.warning ?? '');
+  const [recipient, setRecipient] = useState<ResolvedRecipient | null>(null);
+  const [estimate, setEstimate] = useState<TransferEstimate | null>(null);
+  const [txHash, setTxHash] = useState('');
+  const [blockNumber, setBlockNumber] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const available = ethers.parseUnits(balance, decimals);
+  const insufficientGas = estimate !== null && estimate.ethBalance < estimate.gasCost;
+
+  // Accept a pasted EIP-681 payment request in the recipient field
+  const handleRecipientChange = (value: string) => {
+    if (!isPaymentRequestUri(value)) {
+      setRecipientInput(value);
+      return;
+    }
+    try {
+      const request = toSendPrefill(parsePaymentRequest(value), tokenAddress, chainId, decimals);
+      setRecipientInput(request.recipient);
+      if (request.amount) setAmountInput(request.amount);
+      setRequestWarning(request.warning ?? '');
+      setError('');
+    } catch (error) {
+      setRecipientInput(value);
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const review = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amountError = validateTokenAmount(amountInput, decimals, available);
+    if (amountError) {
+      setError(amountError);
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setError('');
+      const resolved = await resolveRecipient(provider, recipientInput);
+      const amount = parseTokenAmount(amountInput, decimals);
+      setEstimate(await estimateTransfer(provider, tokenAddress, fromAddress, resolved.address, amount));
+      setRecipient(resolved);
+      setStep('confirm');
+    } catch (error) {
+      setError(describeTxError(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const send = async () => {
+    if (!recipient) return;
+    try {
+      setBusy(true);
+      setError('');
+      const block = await onSend(recipient.address, parseTokenAmount(amountInput, decimals), hash => {
+        setTxHash(hash);
+        setStep('pending');
+      });
+      setBlockNumber(block);
+      setStep('done');
+    } catch (error) {
+      setError(describeTxError(error));
+      setStep('confirm');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reset = () => {
+    setStep('form');
+    setRecipientInput('');
+    setAmountInput('');
+    setRequestWarning('');
+    setRecipient(null);
+    setEstimate(null);
+    setTxHash('');
+    setBlockNumber(null);
+    setError('');
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-gray-800 text-sm">💸 Send USDC</h4>
+        <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-700">Close</button>
+      </div>
+
+      {step === 'form' && (
+        <form onSubmit={review} className="space-y-2">
+          <input
+            type="text"
+            value={recipientInput}
+            onChange={(e) => handleRecipientChange(e.target.value)}
+            placeholder="Recipient 0x address, ENS name or ethereum: link"
+            autoComplete="off"
+            className={`${inputClass} font-mono`}
+          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amountInput}
+              onChange={(e) => setAmountInput(e.target.value)}
+              placeholder="0.00"
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={() => setAmountInput(ethers.formatUnits(available, decimals))}
+              className="px-3 py-2 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-semibold"
+            >
+              Max
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">Available: ${balance}</p>
+          {requestWarning && <p className="text-xs text-orange-600">⚠️ {requestWarning}</p>}
+          {error && <p className="text-xs text-red-600">❌ {error}</p>}
+          <button
+            type="submit"
+            disabled={busy || !recipientInput || !amountInput}
+            className="w-full py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold disabled:opacity-50"
+          >
+            {busy ? 'Checking...' : 'Review'}
+          </button>
+        </form>
+      )}
+
+      {step === 'confirm' && recipient && estimate && (
+        <div className="space-y-2">
+          <div className="bg-gray-50 rounded-lg border p-3 text-xs space-y-1">
+            <div className="flex justify-between">
+              <span className="text-gray-500">To</span>
+              <span className="font-mono text-right break-all ml-2">
+                {recipient.ensName && <span className="block font-sans font-semibold">{recipient.ensName}</span>}
+                {recipient.address}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Amount</span>
+              <span className="font-semibold">{amountInput} USDC</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Est. network fee</span>
+              <span>{ethers.formatEther(estimate.gasCost)} ETH</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Your ETH</span>
+              <span>{ethers.formatEther(estimate.ethBalance)} ETH</span>
+            </div>
+          </div>
+          {insufficientGas && (
+            <p className="text-xs text-red-600">❌ Insufficient ETH for gas. Add ETH to this account first.</p>
+          )}
+          {error && <p className="text-xs text-red-600">❌ {error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={send}
+              disabled={busy || insufficientGas}
+              className="flex-1 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold disabled:opacity-50"
+            >
+              {busy ? 'Sending...' : 'Confirm & Send'}
+            </button>
+            <button
+              onClick={() => setStep('form')}
+              disabled={busy}
+              className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'pending' && (
+        <div className="text-center text-xs space-y-1 py-2">
+          <div className="text-2xl animate-pulse">⏳</div>
+          <p className="font-semibold text-gray-800">Waiting for confirmation...</p>
+          <p className="font-mono text-gray-500 break-all">{txHash}</p>
+        </div>
+      )}
+
+      {step === 'done' && (
+        <div className="text-center text-xs space-y-2 py-2">
+          <div className="text-2xl">✅</div>
+          <p className="font-semibold text-gray-800">Sent {amountInput} USDC</p>
+          <p className="text-gray-500">Confirmed in block {blockNumber}</p>
+          <button onClick={reset} className="text-purple-700 hover:underline">Send another</button>
+        </div>
+      )}
+    </div>
+  );
+}
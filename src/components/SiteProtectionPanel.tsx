@@ -0,0 +1,78 @@
+'use client';
+
+import { useState } from 'react';
+import { hostnameOf, normalizeDomain, type DomainList } from '@/lib/siteSecurity';
+
+interface SiteProtectionPanelProps {
+  list: DomainList;
+  onBlock: (domain: string) => void;
+  onForget: (domain: string) => void;
+  onRefresh: () => void;
+}
+
+// Blocklist status plus the domains the user allowed or blocked themselves
+export default function SiteProtectionPanel({ list, onBlock, onForget, onRefresh }: SiteProtectionPanelProps) {
+  const [draft, setDraft] = useState('');
+  const domain = normalizeDomain(hostnameOf(draft.trim()) ?? draft);
+  const valid = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain);
+
+  const entries = [
+    ...list.userBlocked.map(entry => ({ domain: entry.domain, blocked: true })),
+    ...list.allowed.map(allowed => ({ domain: allowed, blocked: false })),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold text-gray-800">🛡️ Phishing protection</p>
+          <p className="text-xs text-gray-500">
+            {list.blocked.length} flagged domains ·{' '}
+            {list.updatedAt ? `updated ${new Date(list.updatedAt).toLocaleString()}` : 'never updated'}
+          </p>
+        </div>
+        <button onClick={onRefresh} className="px-2 py-1 text-xs bg-purple-50 hover:bg-purple-100 text-purple-700 rounded">
+          Update now
+        </button>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!valid) return;
+          onBlock(domain);
+          setDraft('');
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Block a domain, e.g. scam.example"
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <button
+          type="submit"
+          disabled={!valid}
+          className="px-3 py-1 text-xs bg-red-50 hover:bg-red-100 text-red-700 rounded disabled:opacity-50"
+        >
+          Block
+        </button>
+      </form>
+
+      {entries.map(entry => (
+        <div key={entry.domain} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
+          <span>{entry.blocked ? '⛔' : '✅'}</span>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-gray-800 font-mono truncate">{entry.domain}</p>
+            <p className="text-xs text-gray-500">{entry.blocked ? 'Blocked by you' : 'Allowed despite the blocklist'}</p>
+          </div>
+          <button onClick={() => onForget(entry.domain)} className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded">
+            Remove
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { tabUrl, type BrowserTab } from '@/lib/tabs';
+
+interface TabStripProps {
+  tabs: BrowserTab[];
+  activeTabId: string | undefined;
+  // Rewards earned while each tab was open, keyed by tab id
+  earnings: Record<string, number>;
+  onActivate: (id: string) => void;
+  onClose: (id: string) => void;
+  onOpen: () => void;
+  onReorder: (from: number, to: number) => void;
+}
+
+// Row of open tabs; drag a tab to reorder it
+export default function TabStrip({
+  tabs,
+  activeTabId,
+  earnings,
+  onActivate,
+  onClose,
+  onOpen,
+  onReorder,
+}: TabStripProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  return (
+    <div className="flex items-end gap-1 px-2 pt-2 bg-gray-200 overflow-x-auto">
+      {tabs.map((tab, index) => {
+        const active = tab.id === activeTabId;
+        const earned = earnings[tab.id];
+        return (
+          <div
+            key={tab.id}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => {
+              if (dragIndex !== null) onReorder(dragIndex, index);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            onClick={() => onActivate(tab.id)}
+            onAuxClick={(e) => e.button === 1 && onClose(tab.id)}
+            title={tabUrl(tab)}
+            className={`group flex items-center gap-2 min-w-0 w-48 px-3 py-1.5 rounded-t-lg text-xs cursor-pointer select-none ${
+              active ? 'bg-white text-gray-800 shadow-sm' : 'bg-gray-100 text-gray-600 hover:bg-gray-50'
+            } ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            {tab.loading ? (
+              <span className="w-3 h-3 rounded-full border-2 border-purple-500 border-t-transparent animate-spin shrink-0" />
+            ) : tab.error ? (
+              <span className="shrink-0">🚫</span>
+            ) : null}
+            <span className="flex-1 truncate">{tab.title}</span>
+            {earned > 0 && (
+              <span className="shrink-0 text-[10px] text-orange-700" title="Rewards earned in this tab">
+                +{earned.toFixed(2)}
+              </span>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onClose(tab.id);
+              }}
+              className="shrink-0 p-0.5 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-200"
+              title="Close Tab"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={onOpen}
+        className="mb-1 p-1.5 rounded text-gray-600 hover:bg-gray-300"
+        title="New Tab"
+      >
+        <Plus size={14} />
+      </button>
+    </div>
+  );
+}
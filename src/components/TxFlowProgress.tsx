@@ -0,0 +1,61 @@
+'use client';
+
+import type { FlowStepStatus, TxFlow } from '@/lib/pendingTx';
+
+interface TxFlowProgressProps {
+  flow: TxFlow;
+  // The flow is executing in this session; otherwise it was interrupted and can be resumed
+  running: boolean;
+  onResume: () => void;
+  onDismiss: () => void;
+}
+
+const STEP_ICONS: Record<FlowStepStatus, string> = {
+  todo: '⚪',
+  pending: '⏳',
+  done: '✅',
+  skipped: '⏭️',
+  failed: '❌',
+};
+
+// Step-by-step progress of a multi-transaction flow such as approve-then-deposit
+export default function TxFlowProgress({ flow, running, onResume, onDismiss }: TxFlowProgressProps) {
+  return (
+    <div className="bg-purple-50 border border-purple-200 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-purple-800 text-sm">{flow.label}</h4>
+        {running && <span className="text-xs text-purple-600 animate-pulse">In progress...</span>}
+      </div>
+
+      <ol className="space-y-1">
+        {flow.steps.map((step, index) => (
+          <li key={step.id} className="text-xs">
+            <div className="flex items-center gap-2 text-gray-700">
+              <span>{STEP_ICONS[step.status]}</span>
+              <span>{index + 1}. {step.label}</span>
+              {step.status === 'skipped' && <span className="text-gray-500">(not needed)</span>}
+            </div>
+            {step.error && <p className="ml-6 text-red-600">{step.error}</p>}
+          </li>
+        ))}
+      </ol>
+
+      {!running && (
+        <div className="flex gap-2">
+          <button
+            onClick={onResume}
+            className="flex-1 py-1.5 text-xs bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold"
+          >
+            Resume
+          </button>
+          <button
+            onClick={onDismiss}
+            className="flex-1 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
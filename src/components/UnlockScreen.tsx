@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { validatePassword, type KeystoreState, type RestoredKey } from '@/lib/keystore';
+import RestoreWalletForm from '@/components/RestoreWalletForm';
+
+interface UnlockScreenProps {
+  keystoreState: KeystoreState;
+  // Called with the password to create, migrate or unlock the wallet
+  onSubmit: (password: string) => Promise<void>;
+  onRestore: (restored: RestoredKey, password: string) => Promise<void>;
+  // Skip the stored wallet and browse with a throwaway one
+  onBrowsePrivately: () => void;
+}
+
+const COPY: Record<KeystoreState, { title: string; description: string; action: string }> = {
+  none: {
+    title: 'Create your wallet',
+    description: 'Choose a password to encrypt your new BurgerBrows wallet on this device.',
+    action: 'Create Wallet',
+  },
+  legacy: {
+    title: 'Secure your wallet',
+    description: 'Your existing wallet is stored unencrypted. Set a password to encrypt it now.',
+    action: 'Encrypt Wallet',
+  },
+  encrypted: {
+    title: 'Welcome back',
+    description: 'Enter your password to unlock your BurgerBrows wallet.',
+    action: 'Unlock',
+  },
+};
+
+// Full-screen password prompt shown while the wallet is locked
+export default function UnlockScreen({ keystoreState, onSubmit, onRestore, onBrowsePrivately }: UnlockScreenProps) {
+  const [restoring, setRestoring] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const copy = COPY[keystoreState];
+  const settingPassword = keystoreState !== 'encrypted';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (settingPassword) {
+      const validationError = validatePassword(password, confirmation);
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
+    }
+
+    try {
+      setBusy(true);
+      setError('');
+      await onSubmit(password);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (restoring) {
+    return (
+      <div className="fixed inset-0 z-[60] flex items-center justify-center bg-gradient-to-br from-purple-600 via-purple-700 to-indigo-600">
+        <div className="bg-white rounded-2xl shadow-2xl w-96 p-6 space-y-4">
+          <h2 className="text-xl font-bold text-gray-800 text-center">🍔 Restore your wallet</h2>
+          <RestoreWalletForm
+            onRestore={onRestore}
+            onCancel={() => setRestoring(false)}
+            warning={keystoreState === 'none' ? undefined : 'Restoring replaces the wallet currently stored on this device.'}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-gradient-to-br from-purple-600 via-purple-700 to-indigo-600">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-2xl shadow-2xl w-96 p-6 space-y-4"
+      >
+        <div className="flex flex-col items-center text-center">
+          <div className="w-14 h-14 bg-purple-100 rounded-full flex items-center justify-center mb-3">
+            <Lock size={24} className="text-purple-700" />
+          </div>
+          <h2 className="text-xl font-bold text-gray-800">🍔 {copy.title}</h2>
+          <p className="text-sm text-gray-600 mt-1">{copy.description}</p>
+        </div>
+
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoFocus
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        {settingPassword && (
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirm password"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        )}
+
+        {error && <p className="text-sm text-red-600">❌ {error}</p>}
+
+        <button
+          type="submit"
+          disabled={busy || !password}
+          className="w-full py-2 bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 text-white rounded-lg font-semibold disabled:opacity-50 transition-all"
+        >
+          {busy ? 'Working...' : copy.action}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => setRestoring(true)}
+          className="w-full text-sm text-purple-700 hover:underline"
+        >
+          {keystoreState === 'encrypted' ? 'Forgot password? Restore from backup' : 'Restore or import an existing wallet'}
+        </button>
+
+        <button
+          type="button"
+          onClick={onBrowsePrivately}
+          className="w-full text-sm text-gray-500 hover:underline"
+        >
+          🕶️ Browse privately with a throwaway wallet
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { ethers } from 'ethers';
+import { parseTokenAmount, validateTokenAmount } from '@/lib/amounts';
+import type { DepositPath } from '@/lib/gasless';
+
+interface VaultPanelProps {
+  walletBalance: string;
+  vaultBalance: string;
+  // Native ETH for gas; decides whether deposits are relayed
+  ethBalance: string;
+  depositPath: DepositPath;
+  decimals: number;
+  loading: boolean;
+  onDeposit: (amount: bigint) => Promise<void>;
+  onWithdraw: (amount: bigint) => Promise<void>;
+  onClose: () => void;
+}
+
+type VaultAction = 'deposit' | 'withdraw';
+
+// Deposit to and withdraw from the BrowserVault with user-chosen amounts
+export default function VaultPanel({
+  walletBalance,
+  vaultBalance,
+  ethBalance,
+  depositPath,
+  decimals,
+  loading,
+  onDeposit,
+  onWithdraw,
+  onClose,
+}: VaultPanelProps) {
+  const [action, setAction] = useState<VaultAction>('deposit');
+  const [amount, setAmount] = useState('');
+  const [touched, setTouched] = useState(false);
+
+  const available = ethers.parseUnits(action === 'deposit' ? walletBalance : vaultBalance, decimals);
+  const error = touched ? validateTokenAmount(amount, decimals, available) : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setTouched(true);
+    if (validateTokenAmount(amount, decimals, available)) return;
+
+    const value = parseTokenAmount(amount, decimals);
+    await (action === 'deposit' ? onDeposit(value) : onWithdraw(value));
+    setAmount('');
+    setTouched(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-gray-800 text-sm">🏦 BrowserVault</h4>
+        <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-700">Close</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-center">
+        <div className="bg-gray-50 rounded-lg p-2 border">
+          <div className="text-xs text-gray-500">Wallet</div>
+          <div className="font-semibold text-gray-800">${walletBalance}</div>
+        </div>
+        <div className="bg-purple-50 rounded-lg p-2 border border-purple-200">
+          <div className="text-xs text-purple-600">In Vault</div>
+          <div className="font-semibold text-purple-800">${vaultBalance}</div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between bg-gray-50 rounded-lg p-2 border text-xs">
+        <span className="text-gray-500">
+          Gas: <span className="font-semibold text-gray-800">{Number(ethBalance).toFixed(4)} ETH</span>
+        </span>
+        {action === 'deposit' && (
+          <span
+            className={`px-1.5 py-0.5 rounded ${
+              depositPath === 'gasless' ? 'bg-green-100 text-green-700' : 'bg-gray-200 text-gray-700'
+            }`}
+            title={depositPath === 'gasless'
+              ? 'You sign a permit and deposit intent; the relayer pays the gas'
+              : 'Approve and deposit are sent from your wallet, which pays the gas'}
+          >
+            {depositPath === 'gasless' ? '⛽ Gasless deposit' : 'Self-paid gas'}
+          </span>
+        )}
+      </div>
+
+      <div className="flex gap-1">
+        {(['deposit', 'withdraw'] as const).map(item => (
+          <button
+            key={item}
+            type="button"
+            onClick={() => {
+              setAction(item);
+              setAmount('');
+              setTouched(false);
+            }}
+            className={`flex-1 py-1 text-xs rounded-lg border capitalize transition-colors ${
+              action === item ? 'bg-purple-600 text-white border-purple-600' : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {item}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => {
+              setAmount(e.target.value);
+              setTouched(true);
+            }}
+            placeholder="0.00"
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <button
+            type="button"
+            onClick={() => {
+              setAmount(ethers.formatUnits(available, decimals));
+              setTouched(true);
+            }}
+            className="px-3 py-2 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-semibold"
+          >
+            Max
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-600">❌ {error}</p>}
+        <button
+          type="submit"
+          disabled={loading || !amount || Boolean(error)}
+          className="w-full py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold disabled:opacity-50 capitalize"
+        >
+          {loading ? 'Working...' : `${action} USDC`}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  exportKeystores,
+  isBackedUp,
+  markBackedUp,
+  verifyPassword,
+  type ExportedKeystore,
+  type RestoredKey,
+} from '@/lib/keystore';
+import { downloadFile } from '@/lib/download';
+import RestoreWalletForm from '@/components/RestoreWalletForm';
+
+interface WalletBackupPanelProps {
+  // Recovery phrase of the unlocked wallet, if it was created from a seed
+  mnemonic?: string;
+  onRestore: (restored: RestoredKey, password: string) => Promise<void>;
+  onLog: (message: string) => void;
+  onClose: () => void;
+}
+
+type BackupView = 'menu' | 'reveal' | 'confirm' | 'restore';
+
+// Number of words the user must re-enter to confirm their backup
+const CONFIRM_WORD_COUNT = 3;
+
+// Pick distinct random word positions for the backup quiz
+const pickWordIndices = (wordCount: number) => {
+  const indices = new Set<number>();
+  while (indices.size < Math.min(CONFIRM_WORD_COUNT, wordCount)) {
+    indices.add(Math.floor(Math.random() * wordCount));
+  }
+  return [...indices].sort((a, b) => a - b);
+};
+
+// Recovery phrase backup, keystore export and wallet restore/import
+export default function WalletBackupPanel({ mnemonic, onRestore, onLog, onClose }: WalletBackupPanelProps) {
+  const [view, setView] = useState<BackupView>('menu');
+  const [backedUp, setBackedUp] = useState(() => isBackedUp());
+  const [password, setPassword] = useState('');
+  const [revealed, setRevealed] = useState(false);
+  const [quizIndices, setQuizIndices] = useState<number[]>([]);
+  const [quizAnswers, setQuizAnswers] = useState<Record<number, string>>({});
+  const [error, setError] = useState('');
+  // The primary and each imported account export separately; derived ones come back with the recovery phrase
+  const [keystores] = useState(exportKeystores);
+  const words = mnemonic?.split(' ') ?? [];
+
+  const resetTo = (next: BackupView) => {
+    setView(next);
+    setPassword('');
+    setRevealed(false);
+    setQuizAnswers({});
+    setError('');
+  };
+
+  // Require the password again before the phrase is shown on screen
+  const revealPhrase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await verifyPassword(password);
+      setRevealed(true);
+      setError('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const startQuiz = () => {
+    setQuizIndices(pickWordIndices(words.length));
+    resetTo('confirm');
+  };
+
+  const confirmBackup = (e: React.FormEvent) => {
+    e.preventDefault();
+    const correct = quizIndices.every(index => quizAnswers[index]?.trim().toLowerCase() === words[index]);
+    if (!correct) {
+      setError('Those words do not match your recovery phrase. Check your backup and try again.');
+      return;
+    }
+    markBackedUp();
+    setBackedUp(true);
+    onLog(`🛡️ Recovery phrase backup confirmed`);
+    resetTo('menu');
+  };
+
+  const downloadKeystore = ({ address, label, keystore }: ExportedKeystore) => {
+    downloadFile(`burgerbrows-keystore-${address.slice(2, 10).toLowerCase()}.json`, keystore, 'application/json');
+    onLog(`💾 Encrypted keystore for ${label} exported`);
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500';
+  const buttonClass = 'w-full py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors disabled:opacity-50';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-gray-800 text-sm">🛡️ Backup & Restore</h4>
+        <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-700">Close</button>
+      </div>
+
+      {view === 'menu' && (
+        <>
+          {mnemonic && !backedUp && (
+            <p className="text-xs text-orange-600">⚠️ Your recovery phrase is not backed up yet.</p>
+          )}
+          <button onClick={() => resetTo('reveal')} disabled={!mnemonic} className={buttonClass}>
+            📝 {mnemonic ? 'Show Recovery Phrase' : 'No recovery phrase (imported key)'}
+          </button>
+          {keystores.map(entry => (
+            <button key={entry.address} onClick={() => downloadKeystore(entry)} className={buttonClass}>
+              💾 {keystores.length > 1 ? `Export ${entry.label} Keystore` : 'Export Keystore File'}
+            </button>
+          ))}
+          <button onClick={() => resetTo('restore')} className={buttonClass}>
+            ♻️ Restore or Import Wallet
+          </button>
+        </>
+      )}
+
+      {view === 'reveal' && !revealed && (
+        <form onSubmit={revealPhrase} className="space-y-2">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Wallet password"
+            className={inputClass}
+          />
+          {error && <p className="text-xs text-red-600">❌ {error}</p>}
+          <div className="flex gap-2">
+            <button type="submit" disabled={!password} className="flex-1 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold disabled:opacity-50">
+              Reveal
+            </button>
+            <button type="button" onClick={() => resetTo('menu')} className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {view === 'reveal' && revealed && (
+        <>
+          <p className="text-xs text-gray-600">Write these words down in order and keep them offline. Anyone with them controls your funds.</p>
+          <div className="grid grid-cols-3 gap-1">
+            {words.map((word, index) => (
+              <div key={index} className="text-xs font-mono bg-gray-50 border rounded px-2 py-1">
+                <span className="text-gray-400">{index + 1}.</span> {word}
+              </div>
+            ))}
+          </div>
+          <button onClick={startQuiz} className="w-full py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold">
+            I&apos;ve Written It Down
+          </button>
+        </>
+      )}
+
+      {view === 'confirm' && (
+        <form onSubmit={confirmBackup} className="space-y-2">
+          <p className="text-xs text-gray-600">Enter the following words from your recovery phrase.</p>
+          {quizIndices.map(index => (
+            <input
+              key={index}
+              type="text"
+              value={quizAnswers[index] ?? ''}
+              onChange={(e) => setQuizAnswers(prev => ({ ...prev, [index]: e.target.value }))}
+              placeholder={`Word #${index + 1}`}
+              autoComplete="off"
+              className={`${inputClass} font-mono`}
+            />
+          ))}
+          {error && <p className="text-xs text-red-600">❌ {error}</p>}
+          <div className="flex gap-2">
+            <button type="submit" className="flex-1 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold">
+              Confirm Backup
+            </button>
+            <button type="button" onClick={() => resetTo('menu')} className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {view === 'restore' && (
+        <RestoreWalletForm
+          onRestore={onRestore}
+          onCancel={() => resetTo('menu')}
+          warning="Restoring replaces the current wallet on this device. Make sure it is backed up first."
+        />
+      )}
+    </div>
+  );
+}
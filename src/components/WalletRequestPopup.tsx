@@ -0,0 +1,70 @@
+'use client';
+
+import type { PendingRequest } from '@/hooks/useWalletBridge';
+import { THREAT_LABELS } from '@/lib/siteSecurity';
+
+interface WalletRequestPopupProps {
+  request: PendingRequest;
+  // Requests waiting behind this one
+  queuedCount: number;
+}
+
+// Approval dialog for a framed page asking to connect, sign or send a transaction
+export default function WalletRequestPopup({ request, queuedCount }: WalletRequestPopupProps) {
+  const approveLabel = request.method === 'eth_requestAccounts'
+    ? 'Connect'
+    : request.method === 'eth_sendTransaction' ? 'Send' : 'Sign';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30">
+      <div className="bg-white rounded-2xl shadow-2xl w-[26rem] max-w-[95vw] max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-4 py-3">
+          <h3 className="font-bold">🍔 {request.details.title}</h3>
+          <p className="text-xs text-purple-100 font-mono truncate">{request.origin}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {request.threat && (
+            <div className="p-3 bg-red-50 border border-red-300 rounded-lg text-sm text-red-800">
+              <p className="font-bold">⛔ {THREAT_LABELS[request.threat.category]}</p>
+              <p>
+                {request.threat.domain} is on the BurgerBrows blocklist
+                {request.threat.description ? `: ${request.threat.description}` : ''}. Approving may cost you your funds.
+              </p>
+            </div>
+          )}
+          {request.details.rows.map(row => (
+            <div key={row.label}>
+              <p className="text-xs font-semibold text-gray-500 uppercase">{row.label}</p>
+              <p className="text-sm text-gray-800 break-all whitespace-pre-wrap">{row.value}</p>
+            </div>
+          ))}
+          {request.details.raw && (
+            <pre className="text-xs bg-gray-50 border border-gray-200 rounded-lg p-2 overflow-x-auto max-h-48">
+              {request.details.raw}
+            </pre>
+          )}
+          <p className="text-xs text-gray-500">
+            Only approve requests from sites you trust.
+            {queuedCount > 1 && ` ${queuedCount - 1} more request${queuedCount > 2 ? 's' : ''} waiting.`}
+          </p>
+        </div>
+
+        <div className="flex gap-2 p-4 border-t">
+          <button
+            onClick={request.reject}
+            className="flex-1 px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium"
+          >
+            Reject
+          </button>
+          <button
+            onClick={request.approve}
+            className={`flex-1 px-4 py-2 text-white rounded-lg font-medium ${request.threat ? 'bg-red-600 hover:bg-red-700' : 'bg-purple-600 hover:bg-purple-700'}`}
+          >
+            {request.threat ? `${approveLabel} anyway` : approveLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
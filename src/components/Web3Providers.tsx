@@ -0,0 +1,30 @@
+'use client';
+
+import '@rainbow-me/rainbowkit/styles.css';
+import { useState } from 'react';
+import { lightTheme, RainbowKitProvider } from '@rainbow-me/rainbowkit';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { WagmiProvider } from 'wagmi';
+import { createPrivateWagmiConfig, wagmiConfig } from '@/lib/wagmi';
+
+interface Web3ProvidersProps {
+  // Off for private sessions: wagmi state is neither restored from nor written to storage
+  persist?: boolean;
+  children: React.ReactNode;
+}
+
+// wagmi, react-query and RainbowKit context for connecting external wallets
+export default function Web3Providers({ persist = true, children }: Web3ProvidersProps) {
+  const [queryClient] = useState(() => new QueryClient());
+  const [config] = useState(() => (persist ? wagmiConfig : createPrivateWagmiConfig()));
+
+  return (
+    <WagmiProvider config={config} reconnectOnMount={persist}>
+      <QueryClientProvider client={queryClient}>
+        <RainbowKitProvider theme={lightTheme({ accentColor: '#7c3aed' })} modalSize="compact">
+          {children}
+        </RainbowKitProvider>
+      </QueryClientProvider>
+    </WagmiProvider>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  appendLogEvent,
+  clearLogEvents,
+  createLogEvent,
+  loadLogEvents,
+  MAX_LOG_EVENTS,
+  type LogCategory,
+  type LogDetails,
+  type LogEvent,
+} from '@/lib/activityLog';
+
+// Activity log kept in memory for rendering and mirrored to IndexedDB across sessions.
+// With `persist` off (private sessions) IndexedDB is never opened.
+export function useActivityLog(persist = true) {
+  const [events, setEvents] = useState<LogEvent[]>([]);
+
+  // Stored events go before anything logged while they were loading
+  useEffect(() => {
+    if (!persist) return;
+    loadLogEvents()
+      .then(stored => {
+        const storedIds = new Set(stored.map(event => event.id));
+        setEvents(current => [...stored, ...current.filter(event => !storedIds.has(event.id))].slice(-MAX_LOG_EVENTS));
+      })
+      .catch(error => console.warn('Activity log unavailable:', error));
+  }, [persist]);
+
+  const log = useCallback((message: string, category: LogCategory, details?: LogDetails) => {
+    const event = createLogEvent(message, category, details);
+    setEvents(current => [...current.slice(-(MAX_LOG_EVENTS - 1)), event]);
+    if (!persist) return;
+    appendLogEvent(event).catch(() => {
+      // Persistence is best effort; the in-memory log still has the event
+    });
+  }, [persist]);
+
+  const clear = useCallback(() => {
+    setEvents([]);
+    if (persist) clearLogEvents().catch(() => {});
+  }, [persist]);
+
+  return { events, log, clear };
+}
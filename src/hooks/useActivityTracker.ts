@@ -0,0 +1,243 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  ACTIVITY_DOMAIN,
+  ACTIVITY_KEY_GRANT_TYPES,
+  ACTIVITY_KEY_TTL_SECONDS,
+  getActivityDomain,
+  signActivityReport,
+  type ActivityKeyGrant,
+  type RewardSummary,
+  type SignedActivityReport,
+} from '@/lib/activity';
+import type { ActiveSigner } from '@/lib/signers';
+
+// How often an open page reports its visible time
+const HEARTBEAT_MS = 30_000;
+
+// In-memory key that signs heartbeats on the account's behalf
+interface ActivityKey {
+  wallet: ethers.BaseWallet;
+  grant: ActivityKeyGrant;
+  grantSignature: string;
+}
+
+interface ActiveVisit {
+  tabId: string;
+  address: string;
+  chainId: number;
+  key: ActivityKey;
+  sessionId: string;
+  url: string;
+  visibleMs: number;
+  visibleSince: number | null;
+}
+
+// Visible time accumulated since the last report, resetting the counter
+const takeVisibleMs = (visit: ActiveVisit) => {
+  const now = Date.now();
+  let visibleMs = visit.visibleMs;
+  if (visit.visibleSince !== null) {
+    visibleMs += now - visit.visibleSince;
+    visit.visibleSince = now;
+  }
+  visit.visibleMs = 0;
+  return visibleMs;
+};
+
+const pauseVisit = (visit: ActiveVisit) => {
+  if (visit.visibleSince === null) return;
+  visit.visibleMs += Date.now() - visit.visibleSince;
+  visit.visibleSince = null;
+};
+
+const resumeVisit = (visit: ActiveVisit) => {
+  if (document.visibilityState === 'visible') visit.visibleSince ??= Date.now();
+};
+
+const buildReport = (visit: ActiveVisit, ended = false): SignedActivityReport => {
+  const report = {
+    address: visit.address,
+    chainId: visit.chainId,
+    sessionId: visit.sessionId,
+    url: visit.url,
+    visibleMs: takeVisibleMs(visit),
+    ended,
+    sentAt: Date.now(),
+  };
+  return {
+    ...report,
+    grant: visit.key.grant,
+    grantSignature: visit.key.grantSignature,
+    signature: signActivityReport(visit.key.wallet, report),
+  };
+};
+
+// Track a visit session per open tab and accrue rewards on `chainId` only while that tab is the one on screen.
+// Heartbeats are signed by a throwaway key the account authorizes once per page load.
+export function useActivityTracker(
+  signer: ActiveSigner | null,
+  provider: ethers.JsonRpcProvider | null,
+  chainId: number,
+  onCredited?: (amount: string, domain: string, tabId: string) => void
+) {
+  const address = signer?.address;
+  const [summary, setSummary] = useState<RewardSummary | null>(null);
+  const visitsRef = useRef(new Map<string, ActiveVisit>());
+  const focusedTabRef = useRef<string | null>(null);
+  const onCreditedRef = useRef(onCredited);
+  const signerRef = useRef({ signer, provider });
+  const keyRef = useRef<ActivityKey | null>(null);
+  const authorizingRef = useRef<{ address: string; key: Promise<ActivityKey | null> } | null>(null);
+  // Account that refused to authorize a key; it isn't asked again until the account changes
+  const declinedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    onCreditedRef.current = onCredited;
+    signerRef.current = { signer, provider };
+  });
+
+  // The account's activity key, asking the signer to authorize a new one when there is none yet
+  const authorize = useCallback(async (account: string): Promise<ActivityKey | null> => {
+    const key = keyRef.current;
+    if (key?.grant.account === account && key.grant.expiresAt * 1000 > Date.now() + HEARTBEAT_MS) return key;
+    if (authorizingRef.current?.address === account) return authorizingRef.current.key;
+    const { signer: current, provider: currentProvider } = signerRef.current;
+    if (declinedRef.current === account || current?.address !== account || !currentProvider) return null;
+
+    const authorizing = (async () => {
+      const wallet = ethers.Wallet.createRandom();
+      const grant: ActivityKeyGrant = {
+        account,
+        activityKey: wallet.address,
+        expiresAt: Math.floor(Date.now() / 1000) + ACTIVITY_KEY_TTL_SECONDS,
+      };
+      let authorized: ActivityKey | null = null;
+      try {
+        const accountSigner = await current.getSigner(currentProvider);
+        const grantSignature = await accountSigner.signTypedData(ACTIVITY_DOMAIN, ACTIVITY_KEY_GRANT_TYPES, grant);
+        authorized = { wallet, grant, grantSignature };
+        keyRef.current = authorized;
+      } catch {
+        declinedRef.current = account;
+      }
+      authorizingRef.current = null;
+      return authorized;
+    })();
+    authorizingRef.current = { address: account, key: authorizing };
+    return authorizing;
+  }, []);
+
+  const sendReport = useCallback(async (report: SignedActivityReport, tabId: string) => {
+    try {
+      const response = await fetch('/api/activity', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(report),
+      });
+      if (!response.ok) return;
+      const result: RewardSummary = await response.json();
+      setSummary(result);
+      if (result.credited && Number(result.credited) > 0) {
+        onCreditedRef.current?.(result.credited, getActivityDomain(report.url), tabId);
+      }
+    } catch {
+      // Activity reporting is best-effort; the next heartbeat will retry
+    }
+  }, []);
+
+  const refreshSummary = useCallback(async () => {
+    if (!address) return;
+    return fetch(`/api/activity?${new URLSearchParams({ address, chainId: String(chainId) })}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then((result: RewardSummary | null) => {
+        if (result) setSummary(result);
+      })
+      .catch(() => {
+        // Keep the previous summary on network errors
+      });
+  }, [address, chainId]);
+
+  // Close a tab's visit session and credit its remaining visible time
+  const endVisit = useCallback((tabId: string) => {
+    const visit = visitsRef.current.get(tabId);
+    if (!visit) return;
+    visitsRef.current.delete(tabId);
+    sendReport(buildReport(visit, true), tabId);
+  }, [sendReport]);
+
+  // Close every open session, e.g. when the account changes or the wallet locks
+  const endAllVisits = useCallback(() => {
+    [...visitsRef.current.keys()].forEach(endVisit);
+  }, [endVisit]);
+
+  // Start a new visit session when a page finishes loading in a tab's iframe
+  const startVisit = useCallback(async (tabId: string, url: string) => {
+    endVisit(tabId);
+    if (!address) return;
+    const key = await authorize(address);
+    if (!key) return;
+    // Another page may have loaded in this tab while the key was being authorized
+    endVisit(tabId);
+    const visit: ActiveVisit = {
+      tabId,
+      address,
+      chainId,
+      key,
+      sessionId: crypto.randomUUID(),
+      url,
+      visibleMs: 0,
+      visibleSince: null,
+    };
+    if (focusedTabRef.current === tabId) resumeVisit(visit);
+    visitsRef.current.set(tabId, visit);
+    sendReport(buildReport(visit), tabId);
+  }, [address, chainId, authorize, endVisit, sendReport]);
+
+  // Only the tab on screen accumulates visible time
+  const focusTab = useCallback((tabId: string | null) => {
+    focusedTabRef.current = tabId;
+    visitsRef.current.forEach(visit => {
+      if (visit.tabId === tabId) resumeVisit(visit);
+      else pauseVisit(visit);
+    });
+  }, []);
+
+  useEffect(() => {
+    refreshSummary();
+  }, [refreshSummary]);
+
+  // Pause the visible-time clock while the BurgerBrows tab is hidden
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      const visit = focusedTabRef.current ? visitsRef.current.get(focusedTabRef.current) : undefined;
+      if (!visit) return;
+      if (document.visibilityState === 'visible') resumeVisit(visit);
+      else pauseVisit(visit);
+    };
+
+    // Flush open sessions with beacons so closing BurgerBrows still credits them
+    const handlePageHide = () => {
+      visitsRef.current.forEach(visit => {
+        navigator.sendBeacon('/api/activity', JSON.stringify(buildReport(visit, true)));
+      });
+      visitsRef.current.clear();
+    };
+
+    const heartbeat = setInterval(() => {
+      visitsRef.current.forEach(visit => sendReport(buildReport(visit), visit.tabId));
+    }, HEARTBEAT_MS);
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      clearInterval(heartbeat);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [sendReport]);
+
+  return { summary, startVisit, endVisit, endAllVisits, focusTab, refreshSummary };
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+// Call onLock after `timeoutMs` without user interaction while `enabled`
+export function useAutoLock(enabled: boolean, onLock: () => void, timeoutMs: number) {
+  const onLockRef = useRef(onLock);
+
+  useEffect(() => {
+    onLockRef.current = onLock;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer = setTimeout(() => onLockRef.current(), timeoutMs);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onLockRef.current(), timeoutMs);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [enabled, timeoutMs]);
+}
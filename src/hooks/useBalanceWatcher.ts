@@ -0,0 +1,25 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { INITIAL_RPC_HEALTH, watchBalances, type RpcHealth } from '@/lib/balanceWatcher';
+import type { ChainSession } from '@/lib/chainSession';
+
+// Call onBalanceChange whenever the address's balances move on-chain, and report RPC connection health
+export function useBalanceWatcher(session: ChainSession | null, address: string | undefined, onBalanceChange: () => void) {
+  const [health, setHealth] = useState<RpcHealth>(INITIAL_RPC_HEALTH);
+  const onChangeRef = useRef(onBalanceChange);
+
+  useEffect(() => {
+    onChangeRef.current = onBalanceChange;
+  });
+
+  useEffect(() => {
+    if (!session || !address) return;
+    return watchBalances(session, address, {
+      onBalanceChange: () => onChangeRef.current(),
+      onHealth: setHealth,
+    });
+  }, [session, address]);
+
+  return session ? health : INITIAL_RPC_HEALTH;
+}
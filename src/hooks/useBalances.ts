@@ -0,0 +1,80 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import type { ChainSession } from '@/lib/chainSession';
+import { USDC_DECIMALS } from '@/lib/contracts';
+import { describeTxError } from '@/lib/errors';
+import type { LogCategory } from '@/lib/activityLog';
+import type { NetworkConfig } from '@/lib/networks';
+
+// Formatted balances per network id, then per address
+type BalanceCache = Record<string, Record<string, string>>;
+
+// MockUSDC wallet, BrowserVault and native ETH balances, cached per network and address so switching back is instant
+export function useBalances(
+  network: NetworkConfig,
+  session: ChainSession | null,
+  onLog: (message: string, category: LogCategory) => void
+) {
+  const [balances, setBalances] = useState<BalanceCache>({});
+  const [vaultBalances, setVaultBalances] = useState<BalanceCache>({});
+  const [ethBalances, setEthBalances] = useState<BalanceCache>({});
+  const [decimals, setDecimals] = useState(USDC_DECIMALS);
+  const [loading, setLoading] = useState(false);
+  const onLogRef = useRef(onLog);
+
+  useEffect(() => {
+    onLogRef.current = onLog;
+  });
+
+  // Check MockUSDC wallet balance and BrowserVault balance
+  const refresh = useCallback(async (address: string) => {
+    if (!session) return;
+    const log = onLogRef.current;
+    const networkId = session.network.id;
+    try {
+      setLoading(true);
+      log(`🏦 Checking MockUSDC balance...`, 'wallet');
+      const [balance, tokenDecimals, vaultBalance, ethBalance] = await Promise.all([
+        session.usdc.balanceOf(address),
+        session.usdc.decimals(),
+        session.vault.balanceOf(address),
+        session.provider.getBalance(address),
+      ]);
+      const formattedBalance = ethers.formatUnits(balance, tokenDecimals);
+      const formattedVault = ethers.formatUnits(vaultBalance, tokenDecimals);
+      const formattedEth = ethers.formatEther(ethBalance);
+
+      setDecimals(tokenDecimals);
+      setBalances(prev => ({ ...prev, [networkId]: { ...prev[networkId], [address]: formattedBalance } }));
+      setVaultBalances(prev => ({ ...prev, [networkId]: { ...prev[networkId], [address]: formattedVault } }));
+      setEthBalances(prev => ({ ...prev, [networkId]: { ...prev[networkId], [address]: formattedEth } }));
+      log(`💰 MockUSDC Balance: ${formattedBalance}`, 'wallet');
+      log(`🏦 Vault Balance: ${formattedVault}`, 'vault');
+      log(`⛽ ETH Balance: ${formattedEth}`, 'wallet');
+    } catch (error) {
+      log(`❌ Error checking balance: ${describeTxError(error)}`, 'wallet');
+    } finally {
+      setLoading(false);
+    }
+  }, [session]);
+
+  // Forget every cached balance, e.g. after the wallet is replaced
+  const clear = useCallback(() => {
+    setBalances({});
+    setVaultBalances({});
+    setEthBalances({});
+  }, []);
+
+  return {
+    // Balances on the selected network, keyed by address; cached values show while it reconnects
+    balances: balances[network.id] ?? {},
+    vaultBalances: vaultBalances[network.id] ?? {},
+    ethBalances: ethBalances[network.id] ?? {},
+    decimals,
+    loading,
+    refresh,
+    clear,
+  };
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { loadBookmarks, saveBookmarks, type BookmarkStore } from '@/lib/bookmarks';
+
+// Bookmarks and folders persisted to localStorage; `update` applies one of the pure helpers in lib/bookmarks.
+// With `persist` off the saved bookmarks are still shown, but changes stay in memory. Browser-only: they load on first render.
+export function useBookmarks(persist = true) {
+  const [store, setStore] = useState<BookmarkStore>(loadBookmarks);
+
+  useEffect(() => {
+    if (persist) saveBookmarks(store);
+  }, [store, persist]);
+
+  const update = useCallback((change: (store: BookmarkStore) => BookmarkStore) => {
+    setStore(change);
+  }, []);
+
+  return { store, update };
+}
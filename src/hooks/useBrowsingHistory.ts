@@ -0,0 +1,20 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { loadBrowsingHistory, saveBrowsingHistory, type PageVisit } from '@/lib/browsingHistory';
+
+// Page visits persisted to localStorage, or kept in memory only with `persist` off;
+// `update` applies one of the pure helpers in lib/browsingHistory. Browser-only: saved visits load on first render.
+export function useBrowsingHistory(persist = true) {
+  const [visits, setVisits] = useState<PageVisit[]>(() => (persist ? loadBrowsingHistory() : []));
+
+  useEffect(() => {
+    if (persist) saveBrowsingHistory(visits);
+  }, [visits, persist]);
+
+  const update = useCallback((change: (visits: PageVisit[]) => PageVisit[]) => {
+    setVisits(change);
+  }, []);
+
+  return { visits, update };
+}
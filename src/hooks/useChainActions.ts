@@ -0,0 +1,256 @@
+'use client';
+
+import { ethers } from 'ethers';
+import { postJson, type TxResponse } from '@/lib/api';
+import type { LogCategory, LogDetails } from '@/lib/activityLog';
+import type { ChainSession } from '@/lib/chainSession';
+import { describeTxError } from '@/lib/errors';
+import { signGaslessDeposit, type DepositPath } from '@/lib/gasless';
+import { createDepositFlow, type TxFlow } from '@/lib/pendingTx';
+import { recoverVoucherSigner, type SignedRewardVoucher } from '@/lib/rewardPool';
+import type { ActiveSigner } from '@/lib/signers';
+import type { FlowStepExecutor, TxManager } from '@/hooks/useTxManager';
+
+export interface ChainActionsOptions {
+  session: ChainSession | null;
+  signer: ActiveSigner | null;
+  // Device the built-in or private wallet belongs to, for the server's per-device limits
+  deviceId: string | undefined;
+  decimals: number;
+  depositPath: DepositPath;
+  txManager: TxManager;
+  onLog: (message: string, category: LogCategory, details?: LogDetails) => void;
+  // Called once USDC has moved, so the transaction history can pick it up
+  onTransfer: () => void;
+}
+
+// Vault deposits and withdrawals, USDC sends, reward claims and the private-session sweep for the active account.
+// Failures are logged; only `send` rethrows, for the Send panel to show.
+export function useChainActions({
+  session,
+  signer,
+  deviceId,
+  decimals,
+  depositPath,
+  txManager,
+  onLog,
+  onTransfer,
+}: ChainActionsOptions) {
+  const address = signer?.address;
+
+  // Contract calls for each step of an approve-then-deposit flow; re-run from the failed step on resume
+  const depositExecutors = (flow: TxFlow): Record<string, FlowStepExecutor> => {
+    if (!session) throw new Error('Not connected to a network');
+    const { usdc, vault } = session;
+    const amount = BigInt(flow.amount);
+    return {
+      // Approve BrowserVault to spend USDC unless the allowance already covers it
+      approve: async () => {
+        const allowance = await usdc.allowance(flow.from, vault.address);
+        if (allowance >= amount) {
+          onLog(`✅ Existing allowance covers this deposit, skipping approval`, 'vault');
+          return 'skipped';
+        }
+        onLog(`🔐 Approving BrowserVault to spend MockUSDC...`, 'vault');
+        return txManager.send(usdc.approve(vault.address, amount), {
+          kind: 'approve',
+          label: 'Approve BrowserVault',
+          flowId: flow.id,
+        });
+      },
+      deposit: async () => {
+        onLog(`🏦 Depositing ${ethers.formatUnits(amount, decimals)} MockUSDC to BrowserVault...`, 'vault');
+        return txManager.send(vault.deposit(amount), { kind: 'deposit', label: flow.label, flowId: flow.id });
+      },
+    };
+  };
+
+  // Run a deposit flow to completion; progress is persisted so a reload can resume it
+  const runDepositFlow = async (flow: TxFlow) => {
+    const displayAmount = ethers.formatUnits(BigInt(flow.amount), decimals);
+    try {
+      await txManager.runFlow(flow, depositExecutors(flow));
+      onLog(`✅ Successfully deposited ${displayAmount} MockUSDC to vault!`, 'vault');
+      onTransfer();
+    } catch (error) {
+      onLog(`❌ Deposit error: ${describeTxError(error)}`, 'vault');
+    }
+  };
+
+  // Sign an EIP-2612 permit and deposit intent; the relayer submits both and pays the gas
+  const depositGasless = async (depositAmount: bigint) => {
+    if (!session || !signer || !deviceId) return;
+
+    const displayAmount = ethers.formatUnits(depositAmount, decimals);
+    try {
+      onLog(`✍️ Signing USDC permit and deposit intent for a gasless deposit...`, 'vault');
+      const request = await signGaslessDeposit(await signer.getSigner(session.provider), session, depositAmount, deviceId);
+      onLog(`⛽ Relaying ${displayAmount} MockUSDC deposit (gas paid by BurgerBrows)...`, 'vault');
+      const result = await postJson<TxResponse>('/api/relay/deposit', request);
+      onLog(`✅ Successfully deposited ${displayAmount} MockUSDC to vault!`, 'vault', { txHash: result.hash });
+      onLog(`🔗 Block: ${result.blockNumber}`, 'vault');
+      onTransfer();
+    } catch (error) {
+      onLog(`❌ Gasless deposit error: ${describeTxError(error)}`, 'vault');
+    }
+  };
+
+  // Deposit USDC into BrowserVault through the relayer, or approving only when the current allowance is too low
+  const deposit = async (depositAmount: bigint) => {
+    if (!session || !address) return;
+
+    const displayAmount = ethers.formatUnits(depositAmount, decimals);
+    onLog(`🏦 Preparing ${displayAmount} MockUSDC deposit to BrowserVault...`, 'vault');
+    try {
+      // Check current balance first
+      const balance = await session.usdc.balanceOf(address);
+      if (balance < depositAmount) {
+        onLog(`❌ Insufficient balance. Need ${displayAmount} MockUSDC, have ${ethers.formatUnits(balance, decimals)}`, 'vault');
+        return;
+      }
+    } catch (error) {
+      onLog(`❌ Deposit error: ${describeTxError(error)}`, 'vault');
+      return;
+    }
+
+    if (depositPath === 'gasless') {
+      await depositGasless(depositAmount);
+    } else {
+      await runDepositFlow(createDepositFlow(session.network.id, address, depositAmount, `Deposit ${displayAmount} USDC`));
+    }
+  };
+
+  // Withdraw USDC from BrowserVault back to the wallet
+  const withdraw = async (withdrawAmount: bigint) => {
+    if (!session || !address) return;
+
+    const displayAmount = ethers.formatUnits(withdrawAmount, decimals);
+    try {
+      onLog(`🏧 Withdrawing ${displayAmount} MockUSDC from BrowserVault...`, 'vault');
+      const tx = await txManager.send(session.vault.withdraw(withdrawAmount), {
+        kind: 'withdraw',
+        label: `Withdraw ${displayAmount} USDC`,
+      });
+      const mined = await txManager.wait(tx);
+      onLog(`✅ Successfully withdrew ${displayAmount} MockUSDC from vault!`, 'vault');
+      onLog(`🔗 Block: ${mined.blockNumber}`, 'vault');
+    } catch (error) {
+      onLog(`❌ Withdraw error: ${describeTxError(error)}`, 'vault');
+    }
+  };
+
+  // Send MockUSDC to another address; errors propagate to the Send panel
+  const send = async (to: string, amount: bigint, onSubmitted: (hash: string) => void) => {
+    if (!session || !address) {
+      throw new Error('Wallet or MockUSDC contract not ready');
+    }
+
+    const displayAmount = ethers.formatUnits(amount, decimals);
+    onLog(`💸 Sending ${displayAmount} USDC to ${to.slice(0, 10)}...`, 'wallet');
+    try {
+      const tx = await txManager.send(session.usdc.transfer(to, amount), {
+        kind: 'transfer',
+        label: `Send ${displayAmount} USDC`,
+      });
+      onSubmitted(tx.hash);
+
+      const mined = await txManager.wait(tx);
+      onLog(`✅ Sent ${displayAmount} USDC`, 'wallet');
+      onLog(`🔗 Block: ${mined.blockNumber}`, 'wallet');
+      onTransfer();
+      return mined.blockNumber as number;
+    } catch (error) {
+      onLog(`❌ Send error: ${describeTxError(error)}`, 'wallet');
+      throw error;
+    }
+  };
+
+  // Claim browsing rewards from the RewardPool: `accrued` rewards through a server-signed voucher,
+  // then anything credited on-chain directly
+  const claimRewards = async (accrued: string) => {
+    if (!session || !address || !deviceId) return;
+
+    const { rewardPool: pool, network } = session;
+    let claimed = false;
+    try {
+      if (Number(accrued) > 0) {
+        onLog(`🎁 Claiming ${accrued} USDC in browsing rewards...`, 'rewards');
+        const signed = await postJson<SignedRewardVoucher>('/api/rewards/claim', {
+          address,
+          chainId: network.chainId,
+          deviceId,
+        });
+
+        // Don't spend gas on a voucher the pool would reject
+        const [rewardSigner, used] = await Promise.all([
+          pool.rewardSigner(),
+          pool.isVoucherUsed(signed.voucher.nonce),
+        ]);
+        if (used) {
+          onLog(`⚠️ This reward voucher has already been claimed`, 'rewards');
+        } else if (recoverVoucherSigner(network.chainId, pool.address, signed).toLowerCase() !== rewardSigner.toLowerCase()) {
+          throw new Error('Reward voucher was not signed by the pool signer');
+        } else {
+          const tx = await txManager.send(pool.claimWithVoucher(signed.voucher, signed.signature), {
+            kind: 'claim',
+            label: `Claim ${signed.amount} USDC rewards`,
+          });
+          const mined = await txManager.wait(tx);
+          onLog(`🎉 +${signed.amount} USDC for active browsing`, 'rewards', { txHash: mined.hash });
+          claimed = true;
+        }
+      }
+
+      const claimable = await pool.claimable(address);
+      if (claimable > BigInt(0)) {
+        const amount = ethers.formatUnits(claimable, decimals);
+        const tx = await txManager.send(pool.claim(), { kind: 'claim', label: `Claim ${amount} USDC from the pool` });
+        const mined = await txManager.wait(tx);
+        onLog(`🎉 +${amount} USDC claimed from the reward pool`, 'rewards', { txHash: mined.hash });
+        claimed = true;
+      }
+
+      if (claimed) {
+        onLog(`✅ Rewards claimed successfully!`, 'rewards');
+        onTransfer();
+      } else {
+        onLog(`❌ No rewards to claim yet. Keep browsing to earn USDC!`, 'rewards');
+      }
+    } catch (error) {
+      onLog(`❌ Claim error: ${describeTxError(error)}`, 'rewards');
+    }
+  };
+
+  // Move all USDC, including anything in the vault, to `returnAddress`; resolves true once nothing is left behind
+  const sweep = async (returnAddress: string) => {
+    if (!session || !address) return false;
+
+    try {
+      const vaultAmount = await session.vault.balanceOf(address);
+      if (vaultAmount > BigInt(0)) {
+        const displayAmount = ethers.formatUnits(vaultAmount, decimals);
+        onLog(`🏧 Withdrawing ${displayAmount} MockUSDC from BrowserVault before the sweep...`, 'wallet');
+        await txManager.wait(await txManager.send(session.vault.withdraw(vaultAmount), {
+          kind: 'withdraw',
+          label: `Withdraw ${displayAmount} USDC`,
+        }));
+      }
+      const amount = await session.usdc.balanceOf(address);
+      if (amount > BigInt(0)) {
+        const displayAmount = ethers.formatUnits(amount, decimals);
+        onLog(`🧹 Sweeping ${displayAmount} USDC to ${returnAddress.slice(0, 10)}...`, 'wallet');
+        const mined = await txManager.wait(await txManager.send(session.usdc.transfer(returnAddress, amount), {
+          kind: 'transfer',
+          label: `Sweep ${displayAmount} USDC`,
+        }));
+        onLog(`✅ Swept ${displayAmount} USDC to your main wallet`, 'wallet', { txHash: mined.hash });
+      }
+      return true;
+    } catch (error) {
+      onLog(`❌ Sweep error: ${describeTxError(error)}`, 'wallet');
+      return false;
+    }
+  };
+
+  return { deposit, resumeDeposit: runDepositFlow, withdraw, send, claimRewards, sweep };
+}
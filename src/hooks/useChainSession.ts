@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { createChainSession, getSessionContracts, type ChainSession } from '@/lib/chainSession';
+import { describeTxError } from '@/lib/errors';
+import { connectNetwork, type NetworkConfig } from '@/lib/networks';
+
+// Connect to the selected network and expose its typed contract clients; rebuilt on every network change
+export function useChainSession(network: NetworkConfig, onLog: (message: string) => void) {
+  // The last connection made, with any chain ID mismatch; ignored once the network changes
+  const [connection, setConnection] = useState<{ session: ChainSession; chainWarning: string } | null>(null);
+  const onLogRef = useRef(onLog);
+
+  useEffect(() => {
+    onLogRef.current = onLog;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    let connected: ChainSession | null = null;
+    const log = (message: string) => onLogRef.current(message);
+
+    const contracts = getSessionContracts(network);
+    if (!contracts) {
+      log(`❌ Contract addresses not configured for ${network.name}`);
+      return;
+    }
+
+    log(`🔗 Connecting to ${network.name}...`);
+    connectNetwork(network)
+      .then(({ provider, rpcUrl, reportedChainId }) => {
+        if (cancelled) {
+          provider.destroy();
+          return;
+        }
+        connected = createChainSession(network, provider, reportedChainId);
+        log(`🔗 Connected to RPC: ${rpcUrl.slice(0, 50)}...`);
+        log(`📋 Using MockUSDC contract: ${contracts.MOCK_USDC.slice(0, 20)}...`);
+        let chainWarning = '';
+        if (reportedChainId !== network.chainId) {
+          chainWarning = `RPC reports chain ID ${reportedChainId}, but ${network.name} is ${network.chainId}`;
+          log(`⚠️ ${chainWarning}`);
+        }
+        setConnection({ session: connected, chainWarning });
+      })
+      .catch(error => {
+        if (!cancelled) log(`❌ Failed to connect to ${network.name}: ${describeTxError(error)}`);
+      });
+
+    return () => {
+      cancelled = true;
+      connected?.provider.destroy();
+    };
+  }, [network]);
+
+  if (connection?.session.network !== network) return { session: null, chainWarning: '' };
+  return connection;
+}
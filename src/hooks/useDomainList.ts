@@ -0,0 +1,50 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DOMAIN_LIST_MAX_AGE_MS,
+  fetchBlocklist,
+  loadDomainList,
+  saveDomainList,
+  withBlocklist,
+  type DomainList,
+} from '@/lib/siteSecurity';
+
+// Phishing/drainer blocklist plus the user's own allow and block entries, persisted to localStorage.
+// The published blocklist is re-downloaded once it is a day old; with `persist` off changes stay in memory.
+// The stored list loads on first render, so the hook runs in the browser only.
+export function useDomainList(onLog: (message: string) => void, persist = true) {
+  const [list, setList] = useState<DomainList>(loadDomainList);
+  const onLogRef = useRef(onLog);
+
+  useEffect(() => {
+    onLogRef.current = onLog;
+  });
+
+  const refresh = useCallback(() =>
+    fetchBlocklist()
+      .then(blocked => {
+        setList(prev => withBlocklist(prev, blocked));
+        onLogRef.current(`🛡️ Site blocklist updated (${blocked.length} domains)`);
+      })
+      .catch(error => {
+        onLogRef.current(`⚠️ Site blocklist update failed: ${error instanceof Error ? error.message : error}`);
+      }), []);
+
+  // Whether the list restored on mount is old enough to re-download
+  const [stale] = useState(() => Date.now() - list.updatedAt > DOMAIN_LIST_MAX_AGE_MS);
+
+  useEffect(() => {
+    if (stale) refresh();
+  }, [stale, refresh]);
+
+  useEffect(() => {
+    if (persist) saveDomainList(list);
+  }, [list, persist]);
+
+  const update = useCallback((change: (list: DomainList) => DomainList) => {
+    setList(change);
+  }, []);
+
+  return { list, update, refresh };
+}
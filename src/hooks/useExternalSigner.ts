@@ -0,0 +1,30 @@
+'use client';
+
+import { useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useAccount, useSwitchChain } from 'wagmi';
+import type { NetworkConfig } from '@/lib/networks';
+import type { ActiveSigner } from '@/lib/signers';
+
+// The wallet connected through RainbowKit as an ActiveSigner, or null while none is connected
+export function useExternalSigner(network: NetworkConfig): ActiveSigner | null {
+  const { address, connector, isConnected } = useAccount();
+  const { switchChainAsync } = useSwitchChain();
+
+  return useMemo(() => {
+    if (!isConnected || !address || !connector) return null;
+    return {
+      source: 'external',
+      address,
+      name: connector.name,
+      getSigner: async () => {
+        // Transactions must land on the network BurgerBrows is showing, not the wallet's current one
+        if ((await connector.getChainId()) !== network.chainId) {
+          await switchChainAsync({ chainId: network.chainId });
+        }
+        const eip1193 = (await connector.getProvider()) as ethers.Eip1193Provider;
+        return new ethers.BrowserProvider(eip1193, network.chainId).getSigner(address);
+      },
+    };
+  }, [isConnected, address, connector, network.chainId, switchChainAsync]);
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { fetchRateLimits, type LimitedAction, type RateLimitStatuses } from '@/lib/limits';
+
+const TICK_MS = 1000;
+
+// Faucet and claim cooldowns for the active wallet and device, with a ticking clock for countdowns
+export function useRateLimits(address: string | undefined, deviceId: string | undefined) {
+  // Statuses are tagged with the wallet and device they were fetched for, so switching accounts never shows stale ones
+  const [fetched, setFetched] = useState<{ subject: string; statuses: RateLimitStatuses } | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const subject = address && deviceId ? `${address}:${deviceId}` : null;
+  const limits = fetched && fetched.subject === subject ? fetched.statuses : null;
+
+  const refresh = useCallback(async () => {
+    if (!address || !deviceId) return;
+    return fetchRateLimits(address, deviceId)
+      .then(statuses => {
+        setFetched({ subject: `${address}:${deviceId}`, statuses });
+        setNow(Date.now());
+      })
+      .catch(error => console.error('Failed to load rate limits:', error));
+  }, [address, deviceId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Tick while a cooldown is running and re-check with the server once it ends
+  useEffect(() => {
+    const ends = Object.values(limits ?? {})
+      .map(status => status.nextAvailableAt)
+      .filter((at): at is number => at !== null);
+    if (ends.length === 0) return;
+    const firstEnd = Math.min(...ends);
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= firstEnd) {
+        clearInterval(timer);
+        refresh();
+      }
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [limits, refresh]);
+
+  // Milliseconds until the action is available again, 0 when it is available now
+  const remaining = (action: LimitedAction) => {
+    const at = limits?.[action].nextAvailableAt;
+    return at && at > now ? at - now : 0;
+  };
+
+  return { limits, remaining, refresh };
+}
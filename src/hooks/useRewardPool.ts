@@ -0,0 +1,41 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { ChainSession } from '@/lib/chainSession';
+import { fetchClaimHistory, fetchPoolStatus, type PoolStatus, type RewardClaim } from '@/lib/rewardPool';
+
+// RewardPool funding, the account's on-chain claim state and its recent claims
+export function useRewardPool(session: ChainSession | null, address: string | undefined, decimals: number) {
+  const [status, setStatus] = useState<PoolStatus | null>(null);
+  const [claims, setClaims] = useState<RewardClaim[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const refresh = useCallback(async () => {
+    if (!session || !address) {
+      setStatus(null);
+      setClaims([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const [nextStatus, nextClaims] = await Promise.all([
+        fetchPoolStatus(session.rewardPool, address, decimals),
+        fetchClaimHistory(session.provider, session.rewardPool.address, address, decimals),
+      ]);
+      setStatus(nextStatus);
+      setClaims(nextClaims);
+      setError('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [session, address, decimals]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { status, claims, loading, error, refresh };
+}
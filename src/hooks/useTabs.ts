@@ -0,0 +1,106 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createTab,
+  createTabSession,
+  HOME_URL,
+  loadTabSession,
+  moveTab,
+  navigateTab,
+  recordFrameNavigation,
+  reloadTab,
+  saveTabSession,
+  stepTab,
+  type BrowserTab,
+  type TabSession,
+} from '@/lib/tabs';
+
+// Open tabs with their own history, restored from and persisted to localStorage unless `persist` is off.
+// The saved session is read during the first render, so use it only in browser-rendered components.
+export function useTabs(persist = true) {
+  const [session, setSession] = useState<TabSession>(() => (persist ? loadTabSession() : createTabSession()));
+
+  useEffect(() => {
+    if (persist) saveTabSession(session);
+  }, [session, persist]);
+
+  const updateTab = useCallback((id: string, update: (tab: BrowserTab) => BrowserTab) => {
+    setSession(prev => ({
+      ...prev,
+      tabs: prev.tabs.map(tab => (tab.id === id ? update(tab) : tab)),
+    }));
+  }, []);
+
+  const openTab = useCallback((url = HOME_URL) => {
+    const tab = createTab(url);
+    setSession(prev => ({ tabs: [...prev.tabs, tab], activeTabId: tab.id }));
+    return tab;
+  }, []);
+
+  // Close a tab, activating its neighbour; closing the last tab opens a fresh one
+  const closeTab = useCallback((id: string) => {
+    setSession(prev => {
+      const index = prev.tabs.findIndex(tab => tab.id === id);
+      if (index === -1) return prev;
+      const tabs = prev.tabs.filter(tab => tab.id !== id);
+      if (tabs.length === 0) {
+        const tab = createTab();
+        return { tabs: [tab], activeTabId: tab.id };
+      }
+      const activeTabId = prev.activeTabId === id ? tabs[Math.min(index, tabs.length - 1)].id : prev.activeTabId;
+      return { tabs, activeTabId };
+    });
+  }, []);
+
+  const activateTab = useCallback((id: string) => {
+    setSession(prev => ({ ...prev, activeTabId: id }));
+  }, []);
+
+  const reorderTab = useCallback((from: number, to: number) => {
+    setSession(prev => ({ ...prev, tabs: moveTab(prev.tabs, from, to) }));
+  }, []);
+
+  const navigate = useCallback((id: string, url: string) => updateTab(id, tab => navigateTab(tab, url)), [updateTab]);
+
+  const goBack = useCallback((id: string) => updateTab(id, tab => stepTab(tab, -1)), [updateTab]);
+
+  const goForward = useCallback((id: string) => updateTab(id, tab => stepTab(tab, 1)), [updateTab]);
+
+  const reload = useCallback((id: string) => updateTab(id, reloadTab), [updateTab]);
+
+  const markLoading = useCallback((id: string) => {
+    updateTab(id, tab => ({ ...tab, loading: true, error: '' }));
+  }, [updateTab]);
+
+  // Mark a tab loaded, picking up the title and any in-frame navigation when the page is same-origin
+  const markLoaded = useCallback((id: string, frameUrl?: string, title?: string) => {
+    updateTab(id, tab => {
+      const next = frameUrl ? recordFrameNavigation(tab, frameUrl) : tab;
+      return { ...next, title: title || next.title, loading: false, error: '' };
+    });
+  }, [updateTab]);
+
+  const markFailed = useCallback((id: string, error: string) => {
+    updateTab(id, tab => ({ ...tab, loading: false, error }));
+  }, [updateTab]);
+
+  const tabs = session.tabs;
+  const activeTab = tabs.find(tab => tab.id === session.activeTabId) ?? null;
+
+  return {
+    tabs,
+    activeTab,
+    openTab,
+    closeTab,
+    activateTab,
+    reorderTab,
+    navigate,
+    goBack,
+    goForward,
+    reload,
+    markLoading,
+    markLoaded,
+    markFailed,
+  };
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  fetchHistory,
+  HISTORY_LOOKBACK_BLOCKS,
+  loadHistoryCache,
+  mergeHistory,
+  saveHistoryCache,
+  type HistoryCache,
+  type HistoryEntry,
+} from '@/lib/history';
+import type { NetworkConfig } from '@/lib/networks';
+
+// Cached on-chain history for an address, extended as new blocks arrive; with `persist` off nothing is cached
+export function useTransactionHistory(
+  provider: ethers.JsonRpcProvider | null,
+  network: NetworkConfig,
+  address: string | undefined,
+  decimals: number,
+  persist = true
+) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [latestBlock, setLatestBlock] = useState<number | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState('');
+  const syncRef = useRef<((blockNumber: number) => Promise<void>) | null>(null);
+
+  useEffect(() => {
+    if (!provider || !address) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    let inFlight = false;
+    const cache: HistoryCache = persist ? loadHistoryCache(network.id, address) : { lastBlock: null, entries: [] };
+    setEntries(cache.entries);
+
+    // Scan from the last synced block up to `blockNumber` and persist the result
+    const sync = async (blockNumber: number) => {
+      setLatestBlock(blockNumber);
+      if (inFlight || (cache.lastBlock !== null && blockNumber <= cache.lastBlock)) return;
+      inFlight = true;
+      setSyncing(true);
+      try {
+        const fromBlock = cache.lastBlock !== null
+          ? cache.lastBlock + 1
+          : Math.max(0, blockNumber - HISTORY_LOOKBACK_BLOCKS);
+        const incoming = await fetchHistory(provider, network.contracts, address, fromBlock, blockNumber, decimals);
+        if (cancelled) return;
+        cache.entries = mergeHistory(cache.entries, incoming);
+        cache.lastBlock = blockNumber;
+        if (persist) saveHistoryCache(network.id, address, cache);
+        setEntries(cache.entries);
+        setError('');
+      } catch (error) {
+        if (!cancelled) setError(error instanceof Error ? error.message : String(error));
+      } finally {
+        inFlight = false;
+        if (!cancelled) setSyncing(false);
+      }
+    };
+    syncRef.current = sync;
+
+    const onBlock = (blockNumber: number) => {
+      sync(blockNumber);
+    };
+
+    provider.getBlockNumber().then(sync).catch(error => {
+      if (!cancelled) setError(error instanceof Error ? error.message : String(error));
+    });
+    provider.on('block', onBlock);
+    return () => {
+      cancelled = true;
+      syncRef.current = null;
+      provider.off('block', onBlock);
+    };
+  }, [provider, network, address, decimals, persist]);
+
+  // Force a sync up to the current head, e.g. right after sending a transaction
+  const refresh = useCallback(async () => {
+    if (!provider || !syncRef.current) return;
+    await syncRef.current(await provider.getBlockNumber());
+  }, [provider]);
+
+  return { entries, latestBlock, syncing, error, refresh };
+}
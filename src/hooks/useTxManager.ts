@@ -0,0 +1,331 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import type { NetworkConfig } from '@/lib/networks';
+import {
+  addTransaction,
+  bumpedFees,
+  clearSettled,
+  EMPTY_QUEUE,
+  isSameAccount,
+  loadTxQueue,
+  nextNonce,
+  nonceOutcome,
+  pendingFor,
+  pruneSettled,
+  RECEIPT_POLL_MS,
+  removeFlow,
+  saveTxQueue,
+  settleNonce,
+  updateFlowStep,
+  type PendingTx,
+  type TxFlow,
+  type TxKind,
+  type TxQueue,
+} from '@/lib/pendingTx';
+import type { ActiveSigner } from '@/lib/signers';
+
+export interface TxRequest {
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+export interface TxMeta {
+  kind: TxKind;
+  label: string;
+  flowId?: string;
+}
+
+// Runs one flow step: sends its transaction, or reports that nothing needs sending
+export type FlowStepExecutor = () => Promise<PendingTx | 'skipped'>;
+
+interface Waiter {
+  resolve: (tx: PendingTx) => void;
+  reject: (error: Error) => void;
+}
+
+const nonceKey = (networkId: string, from: string, nonce: number) => `${networkId}:${from.toLowerCase()}:${nonce}`;
+
+// Resolve with the mined attempt, or explain why the nonce did not do what was asked
+const settleWaiter = (waiter: Waiter, tx: PendingTx) => {
+  if (tx.status === 'confirmed' && tx.kind !== 'cancel') waiter.resolve(tx);
+  else if (tx.status === 'confirmed') waiter.reject(new Error('Transaction was cancelled'));
+  else if (tx.status === 'failed') waiter.reject(new Error('Transaction reverted'));
+  else waiter.reject(new Error('Transaction was replaced outside BurgerBrows'));
+};
+
+// Persistent queue of the active account's transactions: nonce assignment, receipt polling,
+// speed-up/cancel by replacement, and multi-step flows that resume after a reload.
+// With `persist` off the queue lives in memory only and is gone after a reload.
+export function useTxManager(
+  provider: ethers.JsonRpcProvider | null,
+  network: NetworkConfig,
+  account: ActiveSigner | null,
+  onLog: (message: string, tx: PendingTx) => void,
+  persist = true
+) {
+  const [queue, setQueue] = useState<TxQueue | null>(null);
+  const [runningFlows, setRunningFlows] = useState<string[]>([]);
+  // Mirrors `queue` synchronously so back-to-back sends see each other's nonces
+  const queueRef = useRef<TxQueue>(EMPTY_QUEUE);
+  const waitersRef = useRef(new Map<string, Waiter[]>());
+  const sendLockRef = useRef<Promise<unknown>>(Promise.resolve());
+  const onLogRef = useRef(onLog);
+
+  useEffect(() => {
+    onLogRef.current = onLog;
+  });
+
+  useEffect(() => {
+    const stored = persist ? loadTxQueue() : EMPTY_QUEUE;
+    queueRef.current = stored;
+    setQueue(stored);
+  }, [persist]);
+
+  useEffect(() => {
+    if (queue && persist) saveTxQueue(queue);
+  }, [queue, persist]);
+
+  const apply = useCallback((change: (queue: TxQueue) => TxQueue) => {
+    const next = change(queueRef.current);
+    queueRef.current = next;
+    setQueue(next);
+  }, []);
+
+  const address = account?.address;
+  const networkId = network.id;
+  const hasPending = Boolean(queue && address && pendingFor(queue, networkId, address).length > 0);
+
+  // Poll receipts for every pending nonce of the active account
+  useEffect(() => {
+    if (!provider || !address || !hasPending) return;
+
+    let cancelled = false;
+    let inFlight = false;
+    const poll = async () => {
+      if (inFlight) return;
+      inFlight = true;
+      try {
+        const pending = pendingFor(queueRef.current, networkId, address);
+        const latestNonce = await provider.getTransactionCount(address, 'latest');
+        for (const nonce of new Set(pending.map(tx => tx.nonce))) {
+          const attempts = pending.filter(tx => tx.nonce === nonce);
+          const receipts = await Promise.all(attempts.map(tx => provider.getTransactionReceipt(tx.hash)));
+          if (cancelled) return;
+
+          const minedIndex = receipts.findIndex(receipt => receipt !== null);
+          const receipt = receipts[minedIndex];
+          if (receipt) {
+            apply(current => settleNonce(current, networkId, address, nonce, {
+              hash: receipt.hash,
+              status: receipt.status === 1 ? 'confirmed' : 'failed',
+              blockNumber: receipt.blockNumber,
+            }));
+            onLogRef.current(receipt.status === 1
+              ? `✅ ${attempts[minedIndex].label} confirmed in block ${receipt.blockNumber}`
+              : `❌ ${attempts[minedIndex].label} reverted`, attempts[minedIndex]);
+          } else if (nonce < latestNonce) {
+            apply(current => settleNonce(current, networkId, address, nonce, { status: 'dropped' }));
+            onLogRef.current(`⚠️ ${attempts[0].label} was replaced by another transaction`, attempts[0]);
+          } else {
+            continue;
+          }
+
+          const key = nonceKey(networkId, address, nonce);
+          const outcome = nonceOutcome(queueRef.current, networkId, address, nonce);
+          if (outcome) waitersRef.current.get(key)?.forEach(waiter => settleWaiter(waiter, outcome));
+          waitersRef.current.delete(key);
+        }
+        apply(pruneSettled);
+      } catch {
+        // The node is unreachable; try again on the next tick
+      } finally {
+        inFlight = false;
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, RECEIPT_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [provider, networkId, address, hasPending, apply]);
+
+  // Sign and broadcast with explicit nonce and fees; sends are serialized so nonces never collide
+  const broadcast = (
+    request: TxRequest & { nonce?: number; gasLimit?: bigint; maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint },
+    meta: TxMeta,
+    replaces?: PendingTx
+  ) => {
+    const task = async () => {
+      if (!provider || !account) throw new Error('Wallet is not connected');
+      const signer = await account.getSigner(provider);
+      const value = request.value ?? BigInt(0);
+
+      const [chainNonce, feeData, gasLimit] = await Promise.all([
+        request.nonce ?? provider.getTransactionCount(account.address, 'pending'),
+        request.maxFeePerGas ? null : provider.getFeeData(),
+        request.gasLimit ?? signer.estimateGas({ to: request.to, data: request.data, value }),
+      ]);
+      const nonce = request.nonce ?? nextNonce(queueRef.current, networkId, account.address, chainNonce);
+      const maxFeePerGas = request.maxFeePerGas ?? feeData?.maxFeePerGas ?? feeData?.gasPrice ?? BigInt(0);
+      const maxPriorityFeePerGas = request.maxPriorityFeePerGas ?? feeData?.maxPriorityFeePerGas ?? maxFeePerGas;
+
+      const sent = await signer.sendTransaction({
+        to: request.to,
+        data: request.data,
+        value,
+        nonce,
+        gasLimit,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+        type: 2,
+      });
+      const record: PendingTx = {
+        id: crypto.randomUUID(),
+        hash: sent.hash,
+        networkId,
+        from: account.address,
+        // External wallets may pick their own nonce and fees; record what was actually sent
+        nonce: sent.nonce,
+        to: request.to,
+        data: request.data,
+        value: value.toString(),
+        gasLimit: (sent.gasLimit ?? gasLimit).toString(),
+        maxFeePerGas: (sent.maxFeePerGas ?? maxFeePerGas).toString(),
+        maxPriorityFeePerGas: (sent.maxPriorityFeePerGas ?? maxPriorityFeePerGas).toString(),
+        kind: meta.kind,
+        label: meta.label,
+        status: 'pending',
+        submittedAt: Date.now(),
+        replaces: replaces?.id,
+        flowId: meta.flowId,
+      };
+      apply(current => addTransaction(current, record));
+      onLogRef.current(`📤 ${meta.label} (nonce ${sent.nonce}): ${sent.hash.slice(0, 20)}...`, record);
+      return record;
+    };
+    const run = sendLockRef.current.then(task, task);
+    sendLockRef.current = run.catch(() => undefined);
+    return run;
+  };
+
+  // Queue a new transaction at the account's next free nonce
+  const send = (request: TxRequest, meta: TxMeta) => broadcast(request, meta);
+
+  // Resolves once any attempt at the nonce is mined; rejects if it reverted, was cancelled or dropped
+  const waitForNonce = useCallback((txNetworkId: string, from: string, nonce: number) =>
+    new Promise<PendingTx>((resolve, reject) => {
+      const outcome = nonceOutcome(queueRef.current, txNetworkId, from, nonce);
+      if (!outcome) {
+        reject(new Error(`No transaction recorded for nonce ${nonce}`));
+        return;
+      }
+      if (outcome.status !== 'pending') {
+        settleWaiter({ resolve, reject }, outcome);
+        return;
+      }
+      const key = nonceKey(txNetworkId, from, nonce);
+      waitersRef.current.set(key, [...(waitersRef.current.get(key) ?? []), { resolve, reject }]);
+    }), []);
+
+  const wait = (tx: PendingTx) => waitForNonce(tx.networkId, tx.from, tx.nonce);
+
+  const findPending = (id: string) => {
+    const tx = queueRef.current.transactions.find(item => item.id === id);
+    if (!tx || tx.status !== 'pending') throw new Error('Transaction is no longer pending');
+    return tx;
+  };
+
+  // Re-send the same transaction at the same nonce with higher fees
+  const speedUp = async (id: string) => {
+    if (!provider) return;
+    const tx = findPending(id);
+    const fees = bumpedFees(tx, await provider.getFeeData());
+    const replacement = await broadcast(
+      { to: tx.to, data: tx.data, value: BigInt(tx.value), nonce: tx.nonce, gasLimit: BigInt(tx.gasLimit), ...fees },
+      { kind: tx.kind, label: tx.label, flowId: tx.flowId },
+      tx
+    );
+    onLogRef.current(`⚡ Sped up ${tx.label}`, replacement);
+  };
+
+  // Replace the transaction with an empty self-transfer at the same nonce
+  const cancel = async (id: string) => {
+    if (!provider) return;
+    const tx = findPending(id);
+    const fees = bumpedFees(tx, await provider.getFeeData());
+    const replacement = await broadcast(
+      { to: tx.from, data: '0x', value: BigInt(0), nonce: tx.nonce, gasLimit: BigInt(21000), ...fees },
+      { kind: 'cancel', label: `Cancel ${tx.label}`, flowId: tx.flowId },
+      tx
+    );
+    onLogRef.current(`🛑 Cancelling ${tx.label}`, replacement);
+  };
+
+  // Run (or resume) a flow from its first unfinished step; a failed step is retried from scratch
+  const runFlow = async (flow: TxFlow, executors: Record<string, FlowStepExecutor>) => {
+    if (runningFlows.includes(flow.id)) return;
+    if (!queueRef.current.flows.some(item => item.id === flow.id)) {
+      apply(current => ({ ...current, flows: [...current.flows, flow] }));
+    }
+    setRunningFlows(current => [...current, flow.id]);
+
+    let stepId = '';
+    try {
+      for (const step of flow.steps) {
+        stepId = step.id;
+        const current = queueRef.current.flows.find(item => item.id === flow.id)?.steps.find(item => item.id === step.id);
+        if (!current || current.status === 'done' || current.status === 'skipped') continue;
+
+        let nonce = current.status === 'pending' ? current.nonce : undefined;
+        if (nonce === undefined) {
+          const result = await executors[step.id]();
+          if (result === 'skipped') {
+            apply(queue => updateFlowStep(queue, flow.id, step.id, { status: 'skipped', error: undefined }));
+            continue;
+          }
+          nonce = result.nonce;
+          apply(queue => updateFlowStep(queue, flow.id, step.id, { status: 'pending', nonce, error: undefined }));
+        }
+        await waitForNonce(flow.networkId, flow.from, nonce);
+        apply(queue => updateFlowStep(queue, flow.id, step.id, { status: 'done' }));
+      }
+      apply(queue => removeFlow(queue, flow.id));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      apply(queue => updateFlowStep(queue, flow.id, stepId, { status: 'failed', error: message }));
+      throw error;
+    } finally {
+      setRunningFlows(current => current.filter(id => id !== flow.id));
+    }
+  };
+
+  const dismissFlow = (flowId: string) => apply(queue => removeFlow(queue, flowId));
+
+  const current = queue ?? EMPTY_QUEUE;
+  const accountTransactions = address
+    ? current.transactions.filter(tx => isSameAccount(tx, networkId, address))
+    : [];
+  const accountFlows = address
+    ? current.flows.filter(flow => isSameAccount(flow, networkId, address))
+    : [];
+
+  return {
+    transactions: accountTransactions,
+    flows: accountFlows,
+    runningFlows,
+    send,
+    wait,
+    speedUp,
+    cancel,
+    runFlow,
+    dismissFlow,
+    clearSettled: () => apply(clearSettled),
+  };
+}
+
+export type TxManager = ReturnType<typeof useTxManager>;
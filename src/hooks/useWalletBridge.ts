@@ -0,0 +1,292 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { isProxiedPage, verifyProxiedPage } from '@/lib/proxy';
+import type { ActiveSigner } from '@/lib/signers';
+import type { BlockedDomain } from '@/lib/siteSecurity';
+import {
+  APPROVAL_METHODS,
+  BRIDGE_EVENT,
+  BRIDGE_RESPONSE,
+  describeRequest,
+  isBridgeRequest,
+  loadConnections,
+  parseTypedData,
+  PASSTHROUGH_METHODS,
+  ProviderRpcError,
+  RPC_ERRORS,
+  saveConnections,
+  type RequestDetails,
+  type SiteConnection,
+  type TransactionRequest,
+} from '@/lib/walletBridge';
+
+// A framed page that may talk to the wallet
+export interface BridgeFrame {
+  frame: HTMLIFrameElement;
+  // Origin of the page the tab shows, or null for proxied pages: their own origin is opaque and the tab's URL goes
+  // stale once a link inside them is followed, so they name their site with a proof from the proxy instead
+  origin: string | null;
+}
+
+// Request waiting in the approval popup
+export interface PendingRequest {
+  key: number;
+  origin: string;
+  method: string;
+  details: RequestDetails;
+  // Blocklist entry for the requesting site, shown as a warning in the popup
+  threat: BlockedDomain | null;
+  approve: () => void;
+  reject: () => void;
+}
+
+interface WalletBridgeOptions {
+  // Whatever signs for the active account: the built-in wallet, a private session's or a connected external one
+  signer: ActiveSigner | null;
+  provider: ethers.JsonRpcProvider | null;
+  chainId: number;
+  getFrames: () => BridgeFrame[];
+  // Blocklist entry for an origin, or null when the site isn't flagged
+  getThreat: (origin: string) => BlockedDomain | null;
+  // Remember connected sites in localStorage; off for private sessions
+  persist: boolean;
+  onLog: (message: string) => void;
+}
+
+const sameAddress = (a: unknown, b: string) => typeof a === 'string' && a.toLowerCase() === b.toLowerCase();
+
+// Serve EIP-1193 requests posted by framed pages, asking the user before sharing accounts or signing
+export function useWalletBridge(options: WalletBridgeOptions) {
+  // Saved connections load on first render, so the bridge runs in the browser only
+  const [connections, setConnections] = useState<SiteConnection[]>(() => (options.persist ? loadConnections() : []));
+  const [queue, setQueue] = useState<PendingRequest[]>([]);
+  const optionsRef = useRef(options);
+  const connectionsRef = useRef(connections);
+  const nextKeyRef = useRef(0);
+  // Page proofs already checked with the server, keyed by URL and proof
+  const verifiedPagesRef = useRef(new Map<string, Promise<boolean>>());
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    connectionsRef.current = connections;
+    if (options.persist) saveConnections(connections);
+  }, [connections, options.persist]);
+
+  // Queue a request for the popup; resolves on approve and rejects with 4001 on reject
+  const requestApproval = useCallback((origin: string, method: string, details: RequestDetails) =>
+    new Promise<void>((resolve, reject) => {
+      const key = nextKeyRef.current++;
+      const threat = optionsRef.current.getThreat(origin);
+      if (threat) {
+        optionsRef.current.onLog(`⛔ Flagged site ${origin} (${threat.domain}) is asking to use the wallet`);
+      }
+      const settle = (approved: boolean) => {
+        setQueue(current => current.filter(request => request.key !== key));
+        if (approved) resolve();
+        else reject(new ProviderRpcError(RPC_ERRORS.userRejected, 'User rejected the request'));
+      };
+      setQueue(current => [...current, {
+        key,
+        origin,
+        method,
+        details,
+        threat,
+        approve: () => settle(true),
+        reject: () => settle(false),
+      }]);
+    }), []);
+
+  // Run a request once it is allowed; reads the latest signer so an account switch is respected
+  const execute = useCallback(async (origin: string, method: string, params: unknown[]) => {
+    const { signer: activeSigner, provider, onLog } = optionsRef.current;
+    if (!activeSigner) {
+      throw new ProviderRpcError(RPC_ERRORS.unauthorized, 'BurgerBrows wallet is locked');
+    }
+    if (method === 'eth_requestAccounts') {
+      setConnections(current => [
+        ...current.filter(connection => connection.origin !== origin),
+        { origin, connectedAt: Date.now() },
+      ]);
+      onLog(`🔌 Connected ${origin}`);
+      return [activeSigner.address];
+    }
+    if (!provider) {
+      throw new ProviderRpcError(RPC_ERRORS.disconnected, 'Not connected to a network');
+    }
+    const signer = await activeSigner.getSigner(provider);
+
+    switch (method) {
+      case 'personal_sign': {
+        const [message, address] = params;
+        if (!sameAddress(address, activeSigner.address)) {
+          throw new ProviderRpcError(RPC_ERRORS.unauthorized, 'Requested account is not the active account');
+        }
+        const payload = String(message);
+        onLog(`✍️ Signed a message for ${origin}`);
+        return signer.signMessage(ethers.isHexString(payload) ? ethers.getBytes(payload) : payload);
+      }
+
+      case 'eth_signTypedData_v4': {
+        const [address, data] = params;
+        if (!sameAddress(address, activeSigner.address)) {
+          throw new ProviderRpcError(RPC_ERRORS.unauthorized, 'Requested account is not the active account');
+        }
+        const typedData = parseTypedData(data);
+        onLog(`✍️ Signed typed data for ${origin}`);
+        return signer.signTypedData(typedData.domain, typedData.types, typedData.message);
+      }
+
+      case 'eth_sendTransaction': {
+        const tx = (params[0] ?? {}) as TransactionRequest;
+        if (tx.from && !sameAddress(tx.from, activeSigner.address)) {
+          throw new ProviderRpcError(RPC_ERRORS.unauthorized, 'Requested account is not the active account');
+        }
+        const sent = await signer.sendTransaction({
+          to: tx.to,
+          value: tx.value ? BigInt(tx.value) : undefined,
+          data: tx.data,
+          gasLimit: tx.gas ? BigInt(tx.gas) : undefined,
+        });
+        onLog(`📤 Sent transaction for ${origin}: ${sent.hash.slice(0, 20)}...`);
+        return sent.hash;
+      }
+
+      default:
+        throw new ProviderRpcError(RPC_ERRORS.unsupportedMethod, `Unsupported method: ${method}`);
+    }
+  }, []);
+
+  const handleRequest = useCallback(async (origin: string, method: string, params: unknown[]) => {
+    const { signer, provider, chainId } = optionsRef.current;
+    const connected = Boolean(signer) && connectionsRef.current.some(connection => connection.origin === origin);
+
+    switch (method) {
+      case 'eth_chainId':
+        return ethers.toQuantity(chainId);
+      case 'net_version':
+        return String(chainId);
+      case 'eth_accounts':
+        return connected && signer ? [signer.address] : [];
+    }
+
+    if (PASSTHROUGH_METHODS.includes(method)) {
+      if (!provider) {
+        throw new ProviderRpcError(RPC_ERRORS.disconnected, 'Not connected to a network');
+      }
+      return provider.send(method, params);
+    }
+    if (!APPROVAL_METHODS.includes(method)) {
+      throw new ProviderRpcError(RPC_ERRORS.unsupportedMethod, `Unsupported method: ${method}`);
+    }
+    if (!signer) {
+      throw new ProviderRpcError(RPC_ERRORS.unauthorized, 'BurgerBrows wallet is locked');
+    }
+    // Flagged sites go through the popup, and its warning, even when already connected
+    if (method === 'eth_requestAccounts' && connected && !optionsRef.current.getThreat(origin)) {
+      return [signer.address];
+    }
+    if (method !== 'eth_requestAccounts' && !connected) {
+      throw new ProviderRpcError(RPC_ERRORS.unauthorized, 'Call eth_requestAccounts to connect first');
+    }
+
+    let details: RequestDetails;
+    try {
+      details = describeRequest(method, params);
+    } catch (error) {
+      if (error instanceof ProviderRpcError) throw error;
+      throw new ProviderRpcError(RPC_ERRORS.invalidParams, error instanceof Error ? error.message : String(error));
+    }
+    await requestApproval(origin, method, details);
+    return execute(origin, method, params);
+  }, [execute, requestApproval]);
+
+  // Origin of a proxied page from the URL the proxy served it for, once the server confirms the proof
+  const proxiedPageOrigin = useCallback(async (page: unknown) => {
+    if (!isProxiedPage(page)) {
+      throw new ProviderRpcError(RPC_ERRORS.unauthorized, 'This page could not be identified');
+    }
+    const key = `${page.url} ${page.proof}`;
+    let check = verifiedPagesRef.current.get(key);
+    if (!check) {
+      check = verifyProxiedPage(page).catch(error => {
+        verifiedPagesRef.current.delete(key);
+        throw error;
+      });
+      verifiedPagesRef.current.set(key, check);
+    }
+    if (!(await check)) {
+      throw new ProviderRpcError(RPC_ERRORS.unauthorized, 'This page could not be verified; reload it to use the wallet');
+    }
+    return new URL(page.url).origin;
+  }, []);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (!isBridgeRequest(event.data)) return;
+      // Only frames in our own tabs may use the wallet
+      const entry = optionsRef.current.getFrames().find(({ frame }) => frame.contentWindow === event.source);
+      if (!entry) return;
+
+      const { id, method, params = [], page } = event.data;
+      const source = event.source as Window;
+      const reply = (payload: object) => source.postMessage({ type: BRIDGE_RESPONSE, id, ...payload }, '*');
+      let origin = event.origin !== 'null' ? event.origin : 'proxied page';
+
+      (event.origin !== 'null' ? Promise.resolve(event.origin) : proxiedPageOrigin(page))
+        .then(pageOrigin => {
+          origin = pageOrigin;
+          return handleRequest(origin, method, Array.isArray(params) ? params : [params]);
+        })
+        .then(result => reply({ result }))
+        .catch(error => {
+          const code = error instanceof ProviderRpcError ? error.code : RPC_ERRORS.internal;
+          const message = error instanceof Error ? error.message : String(error);
+          if (code !== RPC_ERRORS.userRejected && code !== RPC_ERRORS.unauthorized) {
+            optionsRef.current.onLog(`❌ ${origin} ${method} failed: ${message}`);
+          }
+          reply({ error: { code, message } });
+        });
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [handleRequest, proxiedPageOrigin]);
+
+  // Tell every framed page about a network change
+  const chainId = options.chainId;
+  useEffect(() => {
+    optionsRef.current.getFrames().forEach(({ frame }) => {
+      frame.contentWindow?.postMessage({ type: BRIDGE_EVENT, event: 'chainChanged', data: ethers.toQuantity(chainId) }, '*');
+    });
+  }, [chainId]);
+
+  // Connected pages see the active account; everyone else sees none. The target origin keeps the address from a
+  // page the frame has since navigated to, and proxied pages are only told to ask again with their proof.
+  const address = options.signer?.address;
+  useEffect(() => {
+    optionsRef.current.getFrames().forEach(({ frame, origin }) => {
+      if (!origin) {
+        frame.contentWindow?.postMessage({ type: BRIDGE_EVENT, event: 'accountsChanged' }, '*');
+        return;
+      }
+      const connected = address && connections.some(connection => connection.origin === origin);
+      frame.contentWindow?.postMessage({ type: BRIDGE_EVENT, event: 'accountsChanged', data: connected ? [address] : [] }, origin);
+    });
+  }, [address, connections]);
+
+  const revoke = useCallback((origin: string) => {
+    setConnections(current => current.filter(connection => connection.origin !== origin));
+    optionsRef.current.onLog(`🔌 Disconnected ${origin}`);
+  }, []);
+
+  return {
+    pendingRequest: queue[0] ?? null,
+    queuedCount: queue.length,
+    connections,
+    revoke,
+  };
+}
@@ -0,0 +1,84 @@
+import { ethers } from 'ethers';
+
+// Heartbeat sent by the browser while a page is open in the iframe
+export interface ActivityReport {
+  address: string;
+  // Network whose RewardPool pays for the time
+  chainId: number;
+  sessionId: string;
+  url: string;
+  // Visible time since the previous report for this session
+  visibleMs: number;
+  ended: boolean;
+  // When the browser sent it (ms); must increase within a session
+  sentAt: number;
+}
+
+// The account's one-time approval for a throwaway browser key to sign its heartbeats,
+// so an external wallet isn't asked to sign every 30 seconds
+export interface ActivityKeyGrant {
+  account: string;
+  activityKey: string;
+  // Unix seconds
+  expiresAt: number;
+}
+
+// What /api/activity accepts: the report signed by the activity key, plus the account's grant for that key
+export interface SignedActivityReport extends ActivityReport {
+  grant: ActivityKeyGrant;
+  grantSignature: string;
+  signature: string;
+}
+
+// How long an activity key may sign heartbeats for its account
+export const ACTIVITY_KEY_TTL_SECONDS = 24 * 60 * 60;
+
+export const ACTIVITY_DOMAIN: ethers.TypedDataDomain = {
+  name: 'BurgerBrows Activity',
+  version: '1',
+};
+
+export const ACTIVITY_KEY_GRANT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ActivityKeyGrant: [
+    { name: 'account', type: 'address' },
+    { name: 'activityKey', type: 'address' },
+    { name: 'expiresAt', type: 'uint256' },
+  ],
+};
+
+export const ACTIVITY_REPORT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ActivityReport: [
+    { name: 'address', type: 'address' },
+    { name: 'chainId', type: 'uint256' },
+    { name: 'sessionId', type: 'string' },
+    { name: 'url', type: 'string' },
+    { name: 'visibleMs', type: 'uint256' },
+    { name: 'ended', type: 'bool' },
+    { name: 'sentAt', type: 'uint256' },
+  ],
+};
+
+// Sign a report synchronously, so reports can still be signed while the page is being closed
+export const signActivityReport = (key: ethers.BaseWallet, report: ActivityReport) =>
+  key.signingKey.sign(ethers.TypedDataEncoder.hash(ACTIVITY_DOMAIN, ACTIVITY_REPORT_TYPES, report)).serialized;
+
+// Accrued-reward ledger summary returned to the client
+export interface RewardSummary {
+  address: string;
+  accrued: string;
+  earnedToday: string;
+  dailyCap: string;
+  ratePerMinute: string;
+  domainCap: string;
+  credited?: string;
+}
+
+// Domain used for per-domain caps; bundled pages count as "burgerbrows"
+export const getActivityDomain = (url: string) => {
+  if (url.startsWith('/')) return 'burgerbrows';
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return 'unknown';
+  }
+};
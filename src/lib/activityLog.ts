@@ -0,0 +1,140 @@
+export type LogLevel = 'info' | 'success' | 'error';
+
+export type LogCategory = 'network' | 'wallet' | 'vault' | 'rewards' | 'navigation';
+
+export const LOG_LEVELS: LogLevel[] = ['info', 'success', 'error'];
+
+export const LOG_CATEGORIES: LogCategory[] = ['network', 'wallet', 'vault', 'rewards', 'navigation'];
+
+// One entry in the activity log
+export interface LogEvent {
+  id: string;
+  timestamp: number;
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  txHash?: string;
+  url?: string;
+}
+
+export interface LogDetails {
+  // Defaults to the level implied by the message's emoji prefix
+  level?: LogLevel;
+  txHash?: string;
+  url?: string;
+}
+
+export interface LogFilter {
+  levels: LogLevel[];
+  categories: LogCategory[];
+  query: string;
+}
+
+const DB_NAME = 'burgerbrows';
+const DB_VERSION = 1;
+const LOG_STORE = 'logs';
+
+// Oldest events are pruned beyond this many
+export const MAX_LOG_EVENTS = 1000;
+
+// Existing messages already lead with an outcome emoji; use it when no level is given
+const inferLevel = (message: string): LogLevel => {
+  if (message.startsWith('❌')) return 'error';
+  if (message.startsWith('✅') || message.startsWith('🎉')) return 'success';
+  return 'info';
+};
+
+export const createLogEvent = (message: string, category: LogCategory, details: LogDetails = {}): LogEvent => ({
+  id: crypto.randomUUID(),
+  timestamp: Date.now(),
+  level: details.level ?? inferLevel(message),
+  category,
+  message,
+  txHash: details.txHash,
+  url: details.url,
+});
+
+export const formatLogLine = (event: LogEvent) =>
+  `[${new Date(event.timestamp).toLocaleTimeString()}] ${event.message}`;
+
+// Wrap an IndexedDB request in a promise
+const done = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openLogDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(LOG_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed, e.g. in a browser with storage disabled
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Stored events, oldest first
+export const loadLogEvents = async (): Promise<LogEvent[]> => {
+  const db = await openLogDb();
+  const index = db.transaction(LOG_STORE, 'readonly').objectStore(LOG_STORE).index('timestamp');
+  return done(index.getAll() as IDBRequest<LogEvent[]>);
+};
+
+// Store an event, then prune the oldest beyond MAX_LOG_EVENTS
+export const appendLogEvent = async (event: LogEvent) => {
+  const db = await openLogDb();
+  const store = db.transaction(LOG_STORE, 'readwrite').objectStore(LOG_STORE);
+  await done(store.put(event));
+
+  let excess = (await done(store.count())) - MAX_LOG_EVENTS;
+  if (excess <= 0) return;
+  const cursorRequest = store.index('timestamp').openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor || excess <= 0) return;
+    cursor.delete();
+    excess--;
+    cursor.continue();
+  };
+};
+
+export const clearLogEvents = async () => {
+  const db = await openLogDb();
+  await done(db.transaction(LOG_STORE, 'readwrite').objectStore(LOG_STORE).clear());
+};
+
+export const filterLogEvents = (events: LogEvent[], filter: LogFilter) => {
+  const query = filter.query.trim().toLowerCase();
+  return events.filter(event =>
+    filter.levels.includes(event.level)
+    && filter.categories.includes(event.category)
+    && (!query || [event.message, event.txHash, event.url].some(value => value?.toLowerCase().includes(query)))
+  );
+};
+
+const isoTime = (event: LogEvent) => new Date(event.timestamp).toISOString();
+
+export const exportLogsJson = (events: LogEvent[]) =>
+  JSON.stringify(events.map(event => ({ ...event, time: isoTime(event) })), null, 2);
+
+// RFC 4180 quoting: wrap in quotes and double any quotes inside
+const csvField = (value: string | undefined) => `"${(value ?? '').replace(/"/g, '""')}"`;
+
+export const exportLogsCsv = (events: LogEvent[]) => [
+  'time,level,category,message,txHash,url',
+  ...events.map(event => [isoTime(event), event.level, event.category, event.message, event.txHash, event.url]
+    .map(csvField)
+    .join(',')),
+].join('\r\n');
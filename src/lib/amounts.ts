@@ -0,0 +1,33 @@
+import { ethers } from 'ethers';
+
+// Parse a user-entered token amount, rejecting anything the token can't represent
+export const parseTokenAmount = (input: string, decimals: number): bigint => {
+  let value = input.trim();
+  if (!value) throw new Error('Enter an amount');
+  if (!/^\d*\.?\d*$/.test(value) || value === '.') {
+    throw new Error('Amount must be a positive number');
+  }
+  const fraction = value.split('.')[1] ?? '';
+  if (fraction.length > decimals) {
+    throw new Error(`Amount supports at most ${decimals} decimal places`);
+  }
+  if (value.startsWith('.')) value = `0${value}`;
+  if (value.endsWith('.')) value = value.slice(0, -1);
+
+  const amount = ethers.parseUnits(value, decimals);
+  if (amount === BigInt(0)) throw new Error('Amount must be greater than zero');
+  return amount;
+};
+
+// Validate an amount string against an available balance; returns an error message or null
+export const validateTokenAmount = (input: string, decimals: number, available: bigint, symbol = 'USDC') => {
+  try {
+    const amount = parseTokenAmount(input, decimals);
+    if (amount > available) {
+      return `Amount exceeds available ${ethers.formatUnits(available, decimals)} ${symbol}`;
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
@@ -0,0 +1,20 @@
+// Result returned by API routes that submit a transaction
+export interface TxResponse {
+  hash: string;
+  blockNumber: number;
+  amount: string;
+}
+
+// POST JSON to an API route and surface its `error` field on failure
+export const postJson = async <T>(url: string, body: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+};
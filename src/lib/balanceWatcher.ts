@@ -0,0 +1,157 @@
+import { ethers } from 'ethers';
+import type { ChainSession } from '@/lib/chainSession';
+import { BROWSER_VAULT_ABI, MOCK_USDC_ABI } from '@/lib/contracts';
+import { describeTxError } from '@/lib/errors';
+import { LOG_CHUNK_BLOCKS } from '@/lib/history';
+
+export type RpcTransport = 'websocket' | 'polling';
+
+// connecting: no block seen yet. degraded: blocks stopped arriving or requests are failing.
+export type RpcHealthStatus = 'connecting' | 'live' | 'degraded' | 'offline';
+
+export interface RpcHealth {
+  status: RpcHealthStatus;
+  transport: RpcTransport;
+  blockNumber: number | null;
+  // When the latest block was seen
+  updatedAt: number | null;
+  error?: string;
+}
+
+export interface BalanceWatcherHandlers {
+  // An event touched the address's USDC or vault balance
+  onBalanceChange: () => void;
+  onHealth: (health: RpcHealth) => void;
+}
+
+export const INITIAL_RPC_HEALTH: RpcHealth = {
+  status: 'connecting',
+  transport: 'websocket',
+  blockNumber: null,
+  updatedAt: null,
+};
+
+// Polling starts at this interval and backs off up to the maximum while the RPC fails
+const POLL_MS = 4000;
+const MAX_POLL_MS = 60_000;
+// Give up on a WebSocket that hasn't opened by then
+const WS_CONNECT_TIMEOUT_MS = 5000;
+// No new block for this long marks the connection degraded
+const STALE_MS = 60_000;
+// Events in the same block trigger a single refresh
+const CHANGE_DEBOUNCE_MS = 500;
+
+// Logs that move the address's balances: MockUSDC transfers either way and its vault deposits/withdrawals
+const balanceFilters = (session: ChainSession, address: string): ethers.Filter[] => {
+  const usdcInterface = new ethers.Interface(MOCK_USDC_ABI);
+  const vaultInterface = new ethers.Interface(BROWSER_VAULT_ABI);
+  const transfer = usdcInterface.getEvent('Transfer')!.topicHash;
+  const vaultEvents = [vaultInterface.getEvent('Deposited')!.topicHash, vaultInterface.getEvent('Withdrawn')!.topicHash];
+  const topic = ethers.zeroPadValue(address, 32);
+  return [
+    { address: session.usdc.address, topics: [transfer, topic] },
+    { address: session.usdc.address, topics: [transfer, null, topic] },
+    { address: session.vault.address, topics: [vaultEvents, topic] },
+  ];
+};
+
+// Watch for balance-changing events over WebSocket, falling back to HTTP polling; returns a stop function
+export const watchBalances = (session: ChainSession, address: string, handlers: BalanceWatcherHandlers) => {
+  const filters = balanceFilters(session, address);
+  let stopped = false;
+  let health = INITIAL_RPC_HEALTH;
+  let socketProvider: ethers.WebSocketProvider | null = null;
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  let changeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const report = (change: Partial<RpcHealth>) => {
+    health = { ...health, ...change };
+    if (!stopped) handlers.onHealth(health);
+  };
+
+  const seeBlock = (blockNumber: number) => {
+    report({ status: 'live', blockNumber, updatedAt: Date.now(), error: undefined });
+  };
+
+  const balanceChanged = () => {
+    clearTimeout(changeTimer);
+    changeTimer = setTimeout(() => {
+      if (!stopped) handlers.onBalanceChange();
+    }, CHANGE_DEBOUNCE_MS);
+  };
+
+  const staleTimer = setInterval(() => {
+    if (health.status === 'live' && health.updatedAt && Date.now() - health.updatedAt > STALE_MS) {
+      report({ status: 'degraded', error: 'No new blocks received' });
+    }
+  }, STALE_MS / 4);
+
+  const startPolling = (reason?: string) => {
+    if (stopped || pollTimer) return;
+    report({ transport: 'polling', status: 'connecting', error: reason });
+    // Events may have been missed while the WebSocket was going down
+    if (reason) balanceChanged();
+    let delay = POLL_MS;
+    let lastBlock: number | null = null;
+
+    const poll = async () => {
+      try {
+        const latest = await session.provider.getBlockNumber();
+        if (lastBlock !== null && latest > lastBlock) {
+          if (latest - lastBlock > LOG_CHUNK_BLOCKS) {
+            // Too far behind to scan cheaply; just refresh
+            balanceChanged();
+          } else {
+            const range = { fromBlock: lastBlock + 1, toBlock: latest };
+            const logs = await Promise.all(filters.map(filter => session.provider.getLogs({ ...filter, ...range })));
+            if (logs.some(found => found.length > 0)) balanceChanged();
+          }
+        }
+        if (latest !== lastBlock) seeBlock(latest);
+        lastBlock = latest;
+        delay = POLL_MS;
+      } catch (error) {
+        delay = Math.min(delay * 2, MAX_POLL_MS);
+        report({ status: delay === MAX_POLL_MS ? 'offline' : 'degraded', error: describeTxError(error) });
+      }
+      if (!stopped) pollTimer = setTimeout(poll, delay);
+    };
+    pollTimer = setTimeout(poll, 0);
+  };
+
+  const startWebSocket = (url: string) => {
+    const socket = new WebSocket(url);
+    const provider = new ethers.WebSocketProvider(socket, session.network.chainId, { staticNetwork: true });
+    socketProvider = provider;
+
+    const fallBack = (reason: string) => {
+      if (socketProvider !== provider) return;
+      socketProvider = null;
+      clearTimeout(connectTimer);
+      provider.destroy();
+      startPolling(reason);
+    };
+    const connectTimer = setTimeout(() => fallBack('WebSocket connection timed out'), WS_CONNECT_TIMEOUT_MS);
+    socket.addEventListener('open', () => clearTimeout(connectTimer));
+    socket.addEventListener('close', () => fallBack('WebSocket closed'));
+
+    provider.on('block', seeBlock);
+    filters.forEach(filter => provider.on(filter, balanceChanged));
+  };
+
+  const wsUrl = session.network.wsUrls[0];
+  if (wsUrl && typeof WebSocket !== 'undefined') {
+    startWebSocket(wsUrl);
+  } else {
+    startPolling();
+  }
+
+  return () => {
+    stopped = true;
+    clearInterval(staleTimer);
+    clearTimeout(pollTimer);
+    clearTimeout(changeTimer);
+    socketProvider?.destroy();
+    socketProvider = null;
+  };
+};
@@ -0,0 +1,160 @@
+import { createBookmark, type BookmarkFolder, type BookmarkStore } from '@/lib/bookmarks';
+import type { PageVisit } from '@/lib/browsingHistory';
+
+const BOOKMARKS_FORMAT = 'burgerbrows-bookmarks';
+const HISTORY_FORMAT = 'burgerbrows-history';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toSeconds = (timestamp: number) => Math.floor(timestamp / 1000);
+
+const fromSeconds = (value: string | null) => {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : Date.now();
+};
+
+const isWebUrl = (url: string) => /^https?:\/\//i.test(url) || url.startsWith('/');
+
+// Field access on untrusted JSON entries
+const asRecord = (value: unknown) => (typeof value === 'object' && value !== null ? value as Record<string, unknown> : {});
+
+const timestampOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+// Netscape bookmark file header shared by the bookmark and history exports
+const netscapeDocument = (title: string, body: string) => `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<!-- This is an automatically generated file. It will be read and overwritten. DO NOT EDIT! -->
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>${title}</TITLE>
+<H1>${title}</H1>
+<DL><p>
+${body}
+</DL><p>
+`;
+
+// Folder path of a link in a parsed Netscape file, outermost first
+const folderPath = (link: Element) => {
+  const names: string[] = [];
+  let list = link.closest('dl');
+  while (list) {
+    const heading = list.previousElementSibling?.tagName === 'H3'
+      ? list.previousElementSibling
+      : list.parentElement?.querySelector(':scope > h3');
+    // Browsers mark their bookmarks bar; its links go to Quick Access
+    if (heading && !heading.hasAttribute('personal_toolbar_folder')) {
+      names.unshift(heading.textContent?.trim() || 'Imported');
+    }
+    list = list.parentElement?.closest('dl') ?? null;
+  }
+  return names;
+};
+
+const parseNetscapeLinks = (html: string) => {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  return [...document.querySelectorAll('a[href]')]
+    .map(link => ({
+      link,
+      url: link.getAttribute('href') ?? '',
+      title: link.textContent?.trim() ?? '',
+    }))
+    .filter(({ url }) => isWebUrl(url));
+};
+
+export const exportBookmarksJson = (store: BookmarkStore) =>
+  JSON.stringify({ format: BOOKMARKS_FORMAT, version: 1, ...store }, null, 2);
+
+export const exportBookmarksHtml = (store: BookmarkStore) => {
+  const link = (indent: string) => (bookmark: BookmarkStore['bookmarks'][number]) =>
+    `${indent}<DT><A HREF="${escapeHtml(bookmark.url)}" ADD_DATE="${toSeconds(bookmark.createdAt)}">${escapeHtml(bookmark.title)}</A>`;
+
+  const quickAccess = store.bookmarks.filter(bookmark => bookmark.folderId === null).map(link('    '));
+  const folders = store.folders.map(folder => [
+    `    <DT><H3>${escapeHtml(folder.name)}</H3>`,
+    '    <DL><p>',
+    ...store.bookmarks.filter(bookmark => bookmark.folderId === folder.id).map(link('        ')),
+    '    </DL><p>',
+  ].join('\n'));
+  return netscapeDocument('Bookmarks', [...quickAccess, ...folders].join('\n'));
+};
+
+// Read a JSON or Netscape HTML bookmark file; nested folders are flattened into "Parent / Child"
+export const parseBookmarksFile = (text: string): BookmarkStore => {
+  if (text.trim().startsWith('{')) {
+    const data = JSON.parse(text);
+    if (data.format !== BOOKMARKS_FORMAT || !Array.isArray(data.bookmarks) || !Array.isArray(data.folders)) {
+      throw new Error('Not a BurgerBrows bookmarks file');
+    }
+    // Entries are checked one by one and get fresh IDs, so a crafted file can't collide with existing ones
+    const folderIds = new Map<string, string>();
+    const folders: BookmarkFolder[] = (data.folders as unknown[]).map(asRecord).flatMap(folder => {
+      if (typeof folder.id !== 'string' || typeof folder.name !== 'string' || !folder.name.trim()) return [];
+      const id = crypto.randomUUID();
+      folderIds.set(folder.id, id);
+      return [{ id, name: folder.name.trim() }];
+    });
+    const bookmarks = (data.bookmarks as unknown[]).map(asRecord).flatMap(bookmark => {
+      if (typeof bookmark.url !== 'string' || !isWebUrl(bookmark.url)) return [];
+      const folderId = typeof bookmark.folderId === 'string' ? folderIds.get(bookmark.folderId) ?? null : null;
+      const title = typeof bookmark.title === 'string' ? bookmark.title : '';
+      return [createBookmark(title, bookmark.url, folderId, timestampOr(bookmark.createdAt, Date.now()))];
+    });
+    if (bookmarks.length === 0) {
+      throw new Error('No bookmarks found in file');
+    }
+    return { folders, bookmarks };
+  }
+
+  const links = parseNetscapeLinks(text);
+  if (links.length === 0) {
+    throw new Error('No bookmarks found in file');
+  }
+  const folders: BookmarkFolder[] = [];
+  const bookmarks = links.map(({ link, url, title }) => {
+    const path = folderPath(link).join(' / ');
+    let folder = path ? folders.find(candidate => candidate.name === path) : undefined;
+    if (path && !folder) {
+      folder = { id: crypto.randomUUID(), name: path };
+      folders.push(folder);
+    }
+    return createBookmark(title, url, folder?.id ?? null, fromSeconds(link.getAttribute('add_date')));
+  });
+  return { folders, bookmarks };
+};
+
+export const exportHistoryJson = (visits: PageVisit[]) =>
+  JSON.stringify({ format: HISTORY_FORMAT, version: 1, visits }, null, 2);
+
+export const exportHistoryHtml = (visits: PageVisit[]) =>
+  netscapeDocument('History', visits.map(visit =>
+    `    <DT><A HREF="${escapeHtml(visit.url)}" LAST_VISIT="${toSeconds(visit.visitedAt)}">${escapeHtml(visit.title)}</A>`
+  ).join('\n'));
+
+export const parseHistoryFile = (text: string): PageVisit[] => {
+  if (text.trim().startsWith('{')) {
+    const data = JSON.parse(text);
+    if (data.format !== HISTORY_FORMAT || !Array.isArray(data.visits)) {
+      throw new Error('Not a BurgerBrows history file');
+    }
+    const visits = (data.visits as unknown[]).map(asRecord).flatMap(visit => {
+      if (typeof visit.url !== 'string' || !isWebUrl(visit.url)) return [];
+      const title = typeof visit.title === 'string' && visit.title.trim() ? visit.title : visit.url;
+      return [{ id: crypto.randomUUID(), url: visit.url, title, visitedAt: timestampOr(visit.visitedAt, Date.now()) }];
+    });
+    if (visits.length === 0) {
+      throw new Error('No history entries found in file');
+    }
+    return visits;
+  }
+
+  const links = parseNetscapeLinks(text);
+  if (links.length === 0) {
+    throw new Error('No history entries found in file');
+  }
+  return links.map(({ link, url, title }) => ({
+    id: crypto.randomUUID(),
+    url,
+    title: title || url,
+    visitedAt: fromSeconds(link.getAttribute('last_visit') ?? link.getAttribute('add_date')),
+  }));
+};
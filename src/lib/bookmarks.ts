@@ -0,0 +1,129 @@
+const BOOKMARKS_STORAGE_KEY = 'burgerbrows_bookmarks';
+
+export interface Bookmark {
+  id: string;
+  title: string;
+  url: string;
+  // null keeps the bookmark on the Quick Access bar
+  folderId: string | null;
+  createdAt: number;
+}
+
+export interface BookmarkFolder {
+  id: string;
+  name: string;
+}
+
+// Bookmarks and folders in display order
+export interface BookmarkStore {
+  folders: BookmarkFolder[];
+  bookmarks: Bookmark[];
+}
+
+// Seeded on first run; these were the built-in Quick Access sites
+const DEFAULT_BOOKMARKS: [string, string][] = [
+  ['Google', '/google-home.html'],
+  ['Test Page', '/test-page.html'],
+  ['Example', 'https://example.com'],
+  ['Wikipedia', 'https://en.wikipedia.org'],
+  ['Ethereum.org', 'https://ethereum.org'],
+  ['DuckDuckGo', 'https://duckduckgo.com'],
+];
+
+export const createBookmark = (title: string, url: string, folderId: string | null = null, createdAt = Date.now()): Bookmark => ({
+  id: crypto.randomUUID(),
+  title: title.trim() || url,
+  url,
+  folderId,
+  createdAt,
+});
+
+export const loadBookmarks = (): BookmarkStore => {
+  try {
+    const stored = localStorage.getItem(BOOKMARKS_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Unreadable bookmarks fall back to the defaults below
+  }
+  return {
+    folders: [],
+    bookmarks: DEFAULT_BOOKMARKS.map(([title, url]) => createBookmark(title, url)),
+  };
+};
+
+export const saveBookmarks = (store: BookmarkStore) => {
+  localStorage.setItem(BOOKMARKS_STORAGE_KEY, JSON.stringify(store));
+};
+
+export const findBookmarkByUrl = (store: BookmarkStore, url: string) =>
+  store.bookmarks.find(bookmark => bookmark.url === url);
+
+export const addBookmark = (store: BookmarkStore, bookmark: Bookmark): BookmarkStore => ({
+  ...store,
+  bookmarks: [...store.bookmarks, bookmark],
+});
+
+export const updateBookmark = (
+  store: BookmarkStore,
+  id: string,
+  changes: Partial<Pick<Bookmark, 'title' | 'url' | 'folderId'>>
+): BookmarkStore => ({
+  ...store,
+  bookmarks: store.bookmarks.map(bookmark => (bookmark.id === id ? { ...bookmark, ...changes } : bookmark)),
+});
+
+export const removeBookmark = (store: BookmarkStore, id: string): BookmarkStore => ({
+  ...store,
+  bookmarks: store.bookmarks.filter(bookmark => bookmark.id !== id),
+});
+
+// Move a bookmark to just before `targetId`, joining the target's folder
+export const moveBookmark = (store: BookmarkStore, id: string, targetId: string): BookmarkStore => {
+  const moving = store.bookmarks.find(bookmark => bookmark.id === id);
+  const target = store.bookmarks.find(bookmark => bookmark.id === targetId);
+  if (!moving || !target || id === targetId) return store;
+  const rest = store.bookmarks.filter(bookmark => bookmark.id !== id);
+  const index = rest.indexOf(target);
+  rest.splice(index, 0, { ...moving, folderId: target.folderId });
+  return { ...store, bookmarks: rest };
+};
+
+export const addFolder = (store: BookmarkStore, name: string): BookmarkStore => ({
+  ...store,
+  folders: [...store.folders, { id: crypto.randomUUID(), name: name.trim() || 'New Folder' }],
+});
+
+export const renameFolder = (store: BookmarkStore, id: string, name: string): BookmarkStore => ({
+  ...store,
+  folders: store.folders.map(folder => (folder.id === id ? { ...folder, name: name.trim() || folder.name } : folder)),
+});
+
+// Delete a folder together with the bookmarks in it
+export const removeFolder = (store: BookmarkStore, id: string): BookmarkStore => ({
+  folders: store.folders.filter(folder => folder.id !== id),
+  bookmarks: store.bookmarks.filter(bookmark => bookmark.folderId !== id),
+});
+
+// Add imported bookmarks, reusing folders with the same name and skipping URLs already in that folder
+export const mergeBookmarks = (store: BookmarkStore, imported: BookmarkStore): BookmarkStore => {
+  const folders = [...store.folders];
+  const folderIds = new Map<string, string>();
+  imported.folders.forEach(folder => {
+    const existing = folders.find(candidate => candidate.name === folder.name);
+    if (existing) {
+      folderIds.set(folder.id, existing.id);
+    } else {
+      const created = { id: crypto.randomUUID(), name: folder.name };
+      folders.push(created);
+      folderIds.set(folder.id, created.id);
+    }
+  });
+
+  const bookmarks = [...store.bookmarks];
+  imported.bookmarks.forEach(bookmark => {
+    const folderId = bookmark.folderId ? folderIds.get(bookmark.folderId) ?? null : null;
+    if (bookmarks.some(existing => existing.url === bookmark.url && existing.folderId === folderId)) return;
+    bookmarks.push(createBookmark(bookmark.title, bookmark.url, folderId, bookmark.createdAt));
+  });
+  return { folders, bookmarks };
+};
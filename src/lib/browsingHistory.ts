@@ -0,0 +1,99 @@
+const BROWSING_HISTORY_KEY = 'burgerbrows_browsing_history';
+
+// Oldest visits are dropped past this many entries
+const MAX_VISITS = 5_000;
+
+// Reloading the same page within this window updates the visit instead of adding one
+const REVISIT_WINDOW_MS = 60 * 1000;
+
+export interface PageVisit {
+  id: string;
+  url: string;
+  title: string;
+  visitedAt: number;
+}
+
+export type ClearRange = 'hour' | 'day' | 'week' | 'all';
+
+export const CLEAR_RANGES: { id: ClearRange; label: string }[] = [
+  { id: 'hour', label: 'Last hour' },
+  { id: 'day', label: 'Last 24 hours' },
+  { id: 'week', label: 'Last 7 days' },
+  { id: 'all', label: 'All time' },
+];
+
+const RANGE_MS: Record<Exclude<ClearRange, 'all'>, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Visits, newest first
+export const loadBrowsingHistory = (): PageVisit[] => {
+  try {
+    const stored = localStorage.getItem(BROWSING_HISTORY_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveBrowsingHistory = (visits: PageVisit[]) => {
+  localStorage.setItem(BROWSING_HISTORY_KEY, JSON.stringify(visits));
+};
+
+export const recordVisit = (visits: PageVisit[], url: string, title: string, visitedAt = Date.now()): PageVisit[] => {
+  const [latest, ...rest] = visits;
+  if (latest && latest.url === url && visitedAt - latest.visitedAt < REVISIT_WINDOW_MS) {
+    return [{ ...latest, title: title || latest.title, visitedAt }, ...rest];
+  }
+  return [{ id: crypto.randomUUID(), url, title: title || url, visitedAt }, ...visits].slice(0, MAX_VISITS);
+};
+
+export const removeVisit = (visits: PageVisit[], id: string) => visits.filter(visit => visit.id !== id);
+
+// Remove visits made within the range, counting back from now
+export const clearVisits = (visits: PageVisit[], range: ClearRange, now = Date.now()) => {
+  if (range === 'all') return [];
+  const cutoff = now - RANGE_MS[range];
+  return visits.filter(visit => visit.visitedAt < cutoff);
+};
+
+export const searchVisits = (visits: PageVisit[], query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return visits;
+  return visits.filter(visit => visit.url.toLowerCase().includes(needle) || visit.title.toLowerCase().includes(needle));
+};
+
+// "Today", "Yesterday" or the date, for grouping the history list
+const dayLabel = (timestamp: number, now: Date) => {
+  const day = new Date(timestamp);
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  if (timestamp >= startOfToday) return 'Today';
+  if (timestamp >= startOfToday - RANGE_MS.day) return 'Yesterday';
+  return day.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+// Group newest-first visits by calendar day, preserving order
+export const groupVisitsByDay = (visits: PageVisit[], now = new Date()) => {
+  const groups: { label: string; visits: PageVisit[] }[] = [];
+  visits.forEach(visit => {
+    const label = dayLabel(visit.visitedAt, now);
+    const group = groups[groups.length - 1];
+    if (group?.label === label) {
+      group.visits.push(visit);
+    } else {
+      groups.push({ label, visits: [visit] });
+    }
+  });
+  return groups;
+};
+
+// Merge imported visits, skipping exact duplicates, newest first
+export const mergeVisits = (visits: PageVisit[], imported: PageVisit[]) => {
+  const seen = new Set(visits.map(visit => `${visit.url}|${visit.visitedAt}`));
+  const added = imported
+    .filter(visit => !seen.has(`${visit.url}|${visit.visitedAt}`))
+    .map(visit => ({ ...visit, id: crypto.randomUUID() }));
+  return [...visits, ...added].sort((a, b) => b.visitedAt - a.visitedAt).slice(0, MAX_VISITS);
+};
@@ -0,0 +1,49 @@
+import { ethers } from 'ethers';
+import {
+  createBrowserVaultClient,
+  createMockUsdcClient,
+  createRewardPoolClient,
+  type BrowserVaultClient,
+  type MockUsdcClient,
+  type RewardPoolClient,
+} from '@/lib/contractClients';
+import type { NetworkConfig } from '@/lib/networks';
+
+// A live connection to one network with typed clients for each app contract
+export interface ChainSession {
+  network: NetworkConfig;
+  provider: ethers.JsonRpcProvider;
+  // Chain ID the RPC reports, which may differ from the network's configured one
+  chainId: number;
+  usdc: MockUsdcClient;
+  vault: BrowserVaultClient;
+  rewardPool: RewardPoolClient;
+}
+
+// The network's app contract addresses, or null when any of them is not configured
+export const getSessionContracts = (network: NetworkConfig) => {
+  const { MOCK_USDC, BROWSER_VAULT, REWARD_POOL } = network.contracts;
+  if (!MOCK_USDC || !BROWSER_VAULT || !REWARD_POOL) {
+    return null;
+  }
+  return { MOCK_USDC, BROWSER_VAULT, REWARD_POOL };
+};
+
+export const createChainSession = (
+  network: NetworkConfig,
+  provider: ethers.JsonRpcProvider,
+  chainId: number
+): ChainSession => {
+  const contracts = getSessionContracts(network);
+  if (!contracts) {
+    throw new Error(`Contract addresses not configured for ${network.name}`);
+  }
+  return {
+    network,
+    provider,
+    chainId,
+    usdc: createMockUsdcClient(contracts.MOCK_USDC, provider),
+    vault: createBrowserVaultClient(contracts.BROWSER_VAULT, provider),
+    rewardPool: createRewardPoolClient(contracts.REWARD_POOL, provider),
+  };
+};
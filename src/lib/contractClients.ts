@@ -0,0 +1,107 @@
+import { ethers } from 'ethers';
+import { BROWSER_VAULT_ABI, MOCK_USDC_ABI, REWARD_POOL_ABI } from '@/lib/contracts';
+import { toChainError } from '@/lib/errors';
+import type { DepositIntent } from '@/lib/gasless';
+import type { RewardVoucher } from '@/lib/rewardPool';
+
+// An unsigned contract call, ready for the transaction manager to sign and send
+export interface ContractCall {
+  to: string;
+  data: string;
+}
+
+export interface MockUsdcClient {
+  address: string;
+  balanceOf: (owner: string) => Promise<bigint>;
+  decimals: () => Promise<number>;
+  name: () => Promise<string>;
+  // EIP-2612 permit nonce
+  nonces: (owner: string) => Promise<bigint>;
+  allowance: (owner: string, spender: string) => Promise<bigint>;
+  transfer: (to: string, amount: bigint) => ContractCall;
+  approve: (spender: string, amount: bigint) => ContractCall;
+}
+
+export interface BrowserVaultClient {
+  address: string;
+  balanceOf: (user: string) => Promise<bigint>;
+  depositNonces: (user: string) => Promise<bigint>;
+  deposit: (amount: bigint) => ContractCall;
+  withdraw: (amount: bigint) => ContractCall;
+  // Relayed deposit: the user's signed intent plus their EIP-2612 permit signature
+  depositWithPermit: (intent: DepositIntent, intentSignature: string, permitDeadline: number, permitSignature: string) => ContractCall;
+}
+
+export interface RewardPoolClient {
+  address: string;
+  rewardSigner: () => Promise<string>;
+  poolBalance: () => Promise<bigint>;
+  claimable: (account: string) => Promise<bigint>;
+  totalClaimed: (account: string) => Promise<bigint>;
+  isVoucherUsed: (nonce: string) => Promise<boolean>;
+  claim: () => ContractCall;
+  claimWithVoucher: (voucher: RewardVoucher, signature: string) => ContractCall;
+}
+
+// Run a contract read, rethrowing failures as typed ChainErrors with decoded revert reasons
+const read = async <T>(call: () => Promise<T>): Promise<T> => {
+  try {
+    return await call();
+  } catch (error) {
+    throw toChainError(error);
+  }
+};
+
+const encoder = (address: string, abi: string[]) => {
+  const contractInterface = new ethers.Interface(abi);
+  return (method: string, args: unknown[] = []): ContractCall => ({
+    to: address,
+    data: contractInterface.encodeFunctionData(method, args),
+  });
+};
+
+export const createMockUsdcClient = (address: string, runner: ethers.ContractRunner): MockUsdcClient => {
+  const contract = new ethers.Contract(address, MOCK_USDC_ABI, runner);
+  const encode = encoder(address, MOCK_USDC_ABI);
+  return {
+    address,
+    balanceOf: owner => read<bigint>(() => contract.balanceOf(owner)),
+    decimals: () => read<bigint>(() => contract.decimals()).then(Number),
+    name: () => read<string>(() => contract.name()),
+    nonces: owner => read<bigint>(() => contract.nonces(owner)),
+    allowance: (owner, spender) => read<bigint>(() => contract.allowance(owner, spender)),
+    transfer: (to, amount) => encode('transfer', [to, amount]),
+    approve: (spender, amount) => encode('approve', [spender, amount]),
+  };
+};
+
+export const createBrowserVaultClient = (address: string, runner: ethers.ContractRunner): BrowserVaultClient => {
+  const contract = new ethers.Contract(address, BROWSER_VAULT_ABI, runner);
+  const encode = encoder(address, BROWSER_VAULT_ABI);
+  return {
+    address,
+    balanceOf: user => read<bigint>(() => contract.getBalance(user)),
+    depositNonces: user => read<bigint>(() => contract.depositNonces(user)),
+    deposit: amount => encode('deposit', [amount]),
+    withdraw: amount => encode('withdraw', [amount]),
+    depositWithPermit: (intent, intentSignature, permitDeadline, permitSignature) => {
+      const { v, r, s } = ethers.Signature.from(permitSignature);
+      return encode('depositWithPermit', [intent, intentSignature, permitDeadline, v, r, s]);
+    },
+  };
+};
+
+export const createRewardPoolClient = (address: string, runner: ethers.ContractRunner): RewardPoolClient => {
+  const contract = new ethers.Contract(address, REWARD_POOL_ABI, runner);
+  const encode = encoder(address, REWARD_POOL_ABI);
+  return {
+    address,
+    rewardSigner: () => read<string>(() => contract.rewardSigner()),
+    poolBalance: () => read<bigint>(() => contract.poolBalance()),
+    claimable: account => read<bigint>(() => contract.claimable(account)),
+    totalClaimed: account => read<bigint>(() => contract.totalClaimed(account)),
+    isVoucherUsed: nonce => read<boolean>(() => contract.isVoucherUsed(nonce)),
+    claim: () => encode('claim'),
+    claimWithVoucher: (voucher, signature) => encode('claimWithVoucher', [voucher, signature]),
+  };
+};
@@ -0,0 +1,47 @@
+// Hackathon wallet that mints faucet USDC and pays rewards (same address on every network)
+export const HACKATHON_WALLET = process.env.NEXT_PUBLIC_HACKATHON_WALLET;
+
+// MockUSDC ABI for comprehensive operations
+export const MOCK_USDC_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function name() view returns (string)",
+  // EIP-2612: approve by signature so the owner needs no ETH
+  "function nonces(address owner) view returns (uint256)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function mint(address to, uint256 amount) returns (bool)", // MockUSDC has mint function
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+];
+
+// BrowserVault ABI for deposit functionality
+export const BROWSER_VAULT_ABI = [
+  "function deposit(uint256 amount) external",
+  "function getBalance(address user) view returns (uint256)",
+  "function withdraw(uint256 amount) external",
+  // Gasless deposit: a relayer submits the user's EIP-712 deposit intent together with their USDC permit
+  "function depositNonces(address user) view returns (uint256)",
+  "function depositWithPermit(tuple(address user, uint256 amount, uint256 nonce, uint256 deadline) intent, bytes signature, uint256 permitDeadline, uint8 v, bytes32 r, bytes32 s) external",
+  "event Deposited(address indexed user, uint256 amount)",
+  "event Withdrawn(address indexed user, uint256 amount)",
+];
+
+// RewardPool ABI: pays browsing rewards out of pooled MockUSDC, either from on-chain credits
+// or against EIP-712 vouchers signed by the pool's reward signer (the hackathon wallet)
+export const REWARD_POOL_ABI = [
+  "function token() view returns (address)",
+  "function rewardSigner() view returns (address)",
+  "function poolBalance() view returns (uint256)",
+  "function claimable(address account) view returns (uint256)",
+  "function totalClaimed(address account) view returns (uint256)",
+  "function isVoucherUsed(uint256 nonce) view returns (bool)",
+  "function claim() external",
+  "function claimWithVoucher(tuple(address account, uint256 amount, uint256 nonce, uint256 deadline) voucher, bytes signature) external",
+  "event RewardClaimed(address indexed account, uint256 amount, uint256 indexed nonce)",
+  "event PoolFunded(address indexed funder, uint256 amount)",
+];
+
+// MockUSDC uses 6 decimals like real USDC
+export const USDC_DECIMALS = 6;
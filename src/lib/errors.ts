@@ -0,0 +1,99 @@
+import { ethers } from 'ethers';
+import { BROWSER_VAULT_ABI, MOCK_USDC_ABI, REWARD_POOL_ABI } from '@/lib/contracts';
+
+export type ChainErrorCode =
+  | 'insufficient-funds'
+  | 'rejected'
+  | 'reverted'
+  | 'nonce-expired'
+  | 'replacement-underpriced'
+  | 'network'
+  | 'timeout'
+  | 'unknown';
+
+// An ethers/RPC failure mapped to a code the UI can branch on and a message a user can act on
+export class ChainError extends Error {
+  constructor(message: string, public code: ChainErrorCode, public cause?: unknown) {
+    super(message);
+    this.name = 'ChainError';
+  }
+}
+
+// A contract call or transaction reverted; `revertName` is the decoded error (`Error`, `Panic` or a custom error)
+export class ContractRevertError extends ChainError {
+  constructor(
+    message: string,
+    public reason: string | null,
+    public revertName: string | null,
+    public revertArgs: unknown[],
+    cause?: unknown
+  ) {
+    super(message, 'reverted', cause);
+    this.name = 'ContractRevertError';
+  }
+}
+
+// Every app contract's errors, so revert data from raw transactions can be decoded too
+const KNOWN_ERRORS = new ethers.Interface([...MOCK_USDC_ABI, ...BROWSER_VAULT_ABI, ...REWARD_POOL_ABI]);
+
+// Decode revert data that ethers could not match to an ABI (e.g. from estimateGas on a raw transaction)
+const decodeRevert = (error: ethers.CallExceptionError) => {
+  if (error.revert) {
+    return { name: error.revert.name, args: [...error.revert.args], reason: error.reason };
+  }
+  if (!error.data || error.data === '0x') {
+    return { name: null, args: [], reason: error.reason };
+  }
+  try {
+    const parsed = KNOWN_ERRORS.parseError(error.data);
+    if (!parsed) return { name: null, args: [], reason: error.reason };
+    const args = [...parsed.args];
+    const reason = parsed.name === 'Error' ? String(args[0]) : parsed.signature;
+    return { name: parsed.name, args, reason };
+  } catch {
+    return { name: null, args: [], reason: error.reason };
+  }
+};
+
+// Map any thrown value to a ChainError; already-typed errors pass through unchanged
+export const toChainError = (error: unknown): ChainError => {
+  if (error instanceof ChainError) {
+    return error;
+  }
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+    return new ChainError('Insufficient ETH to pay for gas. Add ETH to this account and try again.', 'insufficient-funds', error);
+  }
+  if (ethers.isError(error, 'ACTION_REJECTED')) {
+    return new ChainError('Transaction was rejected', 'rejected', error);
+  }
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    const revert = decodeRevert(error);
+    return new ContractRevertError(
+      revert.reason ? `Transaction reverted: ${revert.reason}` : 'Transaction reverted by the contract',
+      revert.reason,
+      revert.name,
+      revert.args,
+      error
+    );
+  }
+  if (ethers.isError(error, 'NONCE_EXPIRED')) {
+    return new ChainError('Nonce already used: another transaction from this account was mined first', 'nonce-expired', error);
+  }
+  if (ethers.isError(error, 'REPLACEMENT_UNDERPRICED')) {
+    return new ChainError('A pending transaction with this nonce has a higher fee', 'replacement-underpriced', error);
+  }
+  if (ethers.isError(error, 'NETWORK_ERROR') || ethers.isError(error, 'SERVER_ERROR')) {
+    return new ChainError('Could not reach the RPC node. Check your connection and try again.', 'network', error);
+  }
+  if (ethers.isError(error, 'TIMEOUT')) {
+    return new ChainError('The RPC node timed out. The transaction may still be processing.', 'timeout', error);
+  }
+  if (error instanceof Error) {
+    const message = 'shortMessage' in error && typeof error.shortMessage === 'string' ? error.shortMessage : error.message;
+    return new ChainError(message, 'unknown', error);
+  }
+  return new ChainError(String(error), 'unknown', error);
+};
+
+// Turn an ethers/RPC error into a short message a user can act on
+export const describeTxError = (error: unknown): string => toChainError(error).message;
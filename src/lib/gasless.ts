@@ -0,0 +1,101 @@
+import { ethers } from 'ethers';
+import type { ChainSession } from '@/lib/chainSession';
+
+// EIP-712 deposit the BrowserVault accepts from a relayer on the user's behalf.
+// Amounts and nonces are decimal strings so intents survive JSON.
+export interface DepositIntent {
+  user: string;
+  amount: string;
+  nonce: string;
+  // Unix seconds after which the vault rejects the intent
+  deadline: number;
+}
+
+// Body of POST /api/relay/deposit
+export interface RelayDepositRequest {
+  chainId: number;
+  intent: DepositIntent;
+  intentSignature: string;
+  // EIP-2612 permit letting the vault pull `intent.amount` from the user
+  permitDeadline: number;
+  permitSignature: string;
+  // Device asking, for the relay's per-device limit
+  deviceId: string;
+}
+
+export type DepositPath = 'gasless' | 'self-paid';
+
+export const DEPOSIT_INTENT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  DepositIntent: [
+    { name: 'user', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export const PERMIT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export const browserVaultDomain = (chainId: number, vault: string): ethers.TypedDataDomain => ({
+  name: 'BurgerBrows BrowserVault',
+  version: '1',
+  chainId,
+  verifyingContract: vault,
+});
+
+// MockUSDC uses OpenZeppelin's ERC20Permit, whose domain is the token name with version "1"
+export const permitDomain = (tokenName: string, chainId: number, token: string): ethers.TypedDataDomain => ({
+  name: tokenName,
+  version: '1',
+  chainId,
+  verifyingContract: token,
+});
+
+// How long signed intents and permits stay valid
+export const GASLESS_DEADLINE_SECONDS = 15 * 60;
+
+// Below this much ETH an account can't reliably pay for approve + deposit, so deposits go through the relayer
+export const MIN_SELF_PAID_ETH = '0.001';
+
+export const chooseDepositPath = (ethBalance: string): DepositPath =>
+  ethers.parseEther(ethBalance) < ethers.parseEther(MIN_SELF_PAID_ETH) ? 'gasless' : 'self-paid';
+
+// Sign the permit and deposit intent for a relayed deposit; nothing is sent on-chain here
+export const signGaslessDeposit = async (
+  signer: ethers.Signer,
+  session: ChainSession,
+  amount: bigint,
+  deviceId: string
+): Promise<RelayDepositRequest> => {
+  const user = await signer.getAddress();
+  const { usdc, vault, network } = session;
+  const [tokenName, permitNonce, depositNonce] = await Promise.all([
+    usdc.name(),
+    usdc.nonces(user),
+    vault.depositNonces(user),
+  ]);
+  const deadline = Math.floor(Date.now() / 1000) + GASLESS_DEADLINE_SECONDS;
+
+  const permitSignature = await signer.signTypedData(
+    permitDomain(tokenName, network.chainId, usdc.address),
+    PERMIT_TYPES,
+    { owner: user, spender: vault.address, value: amount, nonce: permitNonce, deadline }
+  );
+  const intent: DepositIntent = {
+    user,
+    amount: amount.toString(),
+    nonce: depositNonce.toString(),
+    deadline,
+  };
+  const intentSignature = await signer.signTypedData(browserVaultDomain(network.chainId, vault.address), DEPOSIT_INTENT_TYPES, intent);
+
+  return { chainId: network.chainId, intent, intentSignature, permitDeadline: deadline, permitSignature, deviceId };
+};
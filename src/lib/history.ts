@@ -0,0 +1,137 @@
+import { ethers } from 'ethers';
+import { BROWSER_VAULT_ABI, HACKATHON_WALLET, MOCK_USDC_ABI } from '@/lib/contracts';
+import type { NetworkContracts } from '@/lib/networks';
+
+export type HistoryKind = 'faucet' | 'reward' | 'deposit' | 'withdrawal' | 'transfer';
+
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryKind;
+  direction: 'in' | 'out';
+  amount: string;
+  counterparty: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface HistoryCache {
+  lastBlock: number | null;
+  entries: HistoryEntry[];
+}
+
+// How far back the first sync looks, and the block span of each eth_getLogs call
+export const HISTORY_LOOKBACK_BLOCKS = 20_000;
+export const LOG_CHUNK_BLOCKS = 2_000;
+
+// Confirmations before an entry is shown as final
+export const HISTORY_CONFIRMATIONS = 3;
+
+const HISTORY_KEY_PREFIX = 'burgerbrows_history_';
+
+// History is cached per network so switching chains never mixes entries
+const cacheKey = (networkId: string, address: string) =>
+  `${HISTORY_KEY_PREFIX}${networkId}_${address.toLowerCase()}`;
+
+export const loadHistoryCache = (networkId: string, address: string): HistoryCache => {
+  const stored = localStorage.getItem(cacheKey(networkId, address));
+  return stored ? JSON.parse(stored) : { lastBlock: null, entries: [] };
+};
+
+export const saveHistoryCache = (networkId: string, address: string, cache: HistoryCache) => {
+  localStorage.setItem(cacheKey(networkId, address), JSON.stringify(cache));
+};
+
+// Merge new entries into the cached list, newest first, without duplicates
+export const mergeHistory = (existing: HistoryEntry[], incoming: HistoryEntry[]) => {
+  const byId = new Map(existing.map(entry => [entry.id, entry]));
+  incoming.forEach(entry => byId.set(entry.id, entry));
+  return [...byId.values()].sort((a, b) => b.blockNumber - a.blockNumber || b.id.localeCompare(a.id));
+};
+
+const sameAddress = (a?: string, b?: string) => Boolean(a && b && a.toLowerCase() === b.toLowerCase());
+
+// Classify a MockUSDC Transfer relative to the account
+const classifyTransfer = (
+  from: string,
+  to: string,
+  address: string,
+  contracts: NetworkContracts
+): Pick<HistoryEntry, 'kind' | 'direction' | 'counterparty'> => {
+  const incoming = sameAddress(to, address);
+  const counterparty = incoming ? from : to;
+  if (incoming && from === ethers.ZeroAddress) return { kind: 'faucet', direction: 'in', counterparty };
+  if (incoming && (sameAddress(from, HACKATHON_WALLET) || sameAddress(from, contracts.REWARD_POOL))) {
+    return { kind: 'reward', direction: 'in', counterparty };
+  }
+  if (sameAddress(counterparty, contracts.BROWSER_VAULT)) {
+    return { kind: incoming ? 'withdrawal' : 'deposit', direction: incoming ? 'in' : 'out', counterparty };
+  }
+  return { kind: 'transfer', direction: incoming ? 'in' : 'out', counterparty };
+};
+
+// Query Transfer and vault events for the address in [fromBlock, toBlock], chunked for RPC limits
+export const fetchHistory = async (
+  provider: ethers.Provider,
+  contracts: NetworkContracts,
+  address: string,
+  fromBlock: number,
+  toBlock: number,
+  decimals: number
+): Promise<HistoryEntry[]> => {
+  if (!contracts.MOCK_USDC || fromBlock > toBlock) return [];
+  const usdc = new ethers.Contract(contracts.MOCK_USDC, MOCK_USDC_ABI, provider);
+  const vault = contracts.BROWSER_VAULT
+    ? new ethers.Contract(contracts.BROWSER_VAULT, BROWSER_VAULT_ABI, provider)
+    : null;
+
+  const transferLogs: ethers.EventLog[] = [];
+  const vaultLogs: ethers.EventLog[] = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_BLOCKS) {
+    const end = Math.min(start + LOG_CHUNK_BLOCKS - 1, toBlock);
+    const [sent, received, deposits, withdrawals] = await Promise.all([
+      usdc.queryFilter(usdc.filters.Transfer(address, null), start, end),
+      usdc.queryFilter(usdc.filters.Transfer(null, address), start, end),
+      vault ? vault.queryFilter(vault.filters.Deposited(address), start, end) : [],
+      vault ? vault.queryFilter(vault.filters.Withdrawn(address), start, end) : [],
+    ]);
+    transferLogs.push(...[...sent, ...received].filter((log): log is ethers.EventLog => log instanceof ethers.EventLog));
+    vaultLogs.push(...[...deposits, ...withdrawals].filter((log): log is ethers.EventLog => log instanceof ethers.EventLog));
+  }
+
+  // Look up each block's timestamp once
+  const blockNumbers = [...new Set([...transferLogs, ...vaultLogs].map(log => log.blockNumber))];
+  const timestamps = new Map<number, number>();
+  await Promise.all(blockNumbers.map(async blockNumber => {
+    const block = await provider.getBlock(blockNumber);
+    timestamps.set(blockNumber, (block?.timestamp ?? 0) * 1000);
+  }));
+
+  const entries: HistoryEntry[] = vaultLogs.map(log => ({
+    id: `${log.transactionHash}-${log.index}`,
+    kind: log.eventName === 'Deposited' ? 'deposit' : 'withdrawal',
+    direction: log.eventName === 'Deposited' ? 'out' : 'in',
+    amount: ethers.formatUnits(log.args.amount, decimals),
+    counterparty: contracts.BROWSER_VAULT!,
+    txHash: log.transactionHash,
+    blockNumber: log.blockNumber,
+    timestamp: timestamps.get(log.blockNumber) ?? 0,
+  }));
+
+  // The vault event already describes the token movement of its transaction
+  const vaultTxs = new Set(vaultLogs.map(log => log.transactionHash));
+  transferLogs
+    .filter(log => !vaultTxs.has(log.transactionHash))
+    .forEach(log => {
+      entries.push({
+        id: `${log.transactionHash}-${log.index}`,
+        ...classifyTransfer(log.args.from, log.args.to, address, contracts),
+        amount: ethers.formatUnits(log.args.value, decimals),
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+      });
+    });
+
+  return entries;
+};
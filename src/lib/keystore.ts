@@ -0,0 +1,393 @@
+import { ethers } from 'ethers';
+
+// Plaintext wallet written by earlier versions; migrated on first unlock
+const LEGACY_WALLET_KEY = 'burgerbrows_wallet';
+const KEYSTORE_KEY = 'burgerbrows_keystore';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// BIP-44 Ethereum path; account N uses the last index
+const HD_PATH_PREFIX = "m/44'/60'/0'/0/";
+
+// ephemeral: a private session's throwaway wallet, never written to the keystore
+export type AccountSource = 'primary' | 'derived' | 'imported' | 'ephemeral';
+
+// An unlocked account whose key is held in memory only
+export interface UserWallet {
+  address: string;
+  privateKey: string;
+  deviceHash: string;
+  label: string;
+  source: AccountSource;
+}
+
+// Every account unlocked from the keystore plus the one the app acts on
+export interface WalletKeyring {
+  deviceHash: string;
+  // BIP-39 recovery phrase, present for wallets created or restored from a seed
+  mnemonic?: string;
+  accounts: UserWallet[];
+  activeAddress: string;
+}
+
+interface StoredAccount {
+  address: string;
+  label: string;
+  source: AccountSource;
+  // HD index for derived accounts
+  index?: number;
+  // Encrypted JSON keystore for imported accounts
+  keystore?: string;
+}
+
+// What is persisted: keys only ever exist inside encrypted JSON keystores
+interface StoredKeystore {
+  address: string;
+  deviceHash: string;
+  keystore: string;
+  // Whether the user has confirmed writing down the recovery phrase
+  backedUp: boolean;
+  accounts?: StoredAccount[];
+  activeAddress?: string;
+}
+
+export type RestoreMethod = 'mnemonic' | 'privateKey' | 'keystore';
+
+// Key material recovered from a backup, ready to be encrypted under a new password
+export interface RestoredKey {
+  privateKey: string;
+  mnemonic?: string;
+}
+
+export type KeystoreState = 'none' | 'legacy' | 'encrypted';
+
+export const getKeystoreState = (): KeystoreState => {
+  if (localStorage.getItem(KEYSTORE_KEY)) return 'encrypted';
+  if (localStorage.getItem(LEGACY_WALLET_KEY)) return 'legacy';
+  return 'none';
+};
+
+const readStored = (): StoredKeystore => {
+  const stored = localStorage.getItem(KEYSTORE_KEY);
+  if (!stored) throw new Error('No wallet keystore found');
+  return JSON.parse(stored);
+};
+
+const writeStored = (stored: StoredKeystore) => {
+  localStorage.setItem(KEYSTORE_KEY, JSON.stringify(stored));
+};
+
+// Keystores written before multi-account support only hold the primary account
+const storedAccounts = (stored: StoredKeystore): StoredAccount[] =>
+  stored.accounts ?? [{ address: stored.address, label: 'Account 1', source: 'primary' }];
+
+export const validatePassword = (password: string, confirmation: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (password !== confirmation) {
+    return 'Passwords do not match';
+  }
+  return null;
+};
+
+const deriveAccount = (mnemonic: string, index: number) =>
+  ethers.HDNodeWallet.fromPhrase(mnemonic, undefined, `${HD_PATH_PREFIX}${index}`);
+
+const decryptKeystore = async (keystore: string, password: string) => {
+  try {
+    return await ethers.Wallet.fromEncryptedJson(keystore, password);
+  } catch {
+    throw new Error('Incorrect password');
+  }
+};
+
+// Encrypt the primary key and persist a single-account keystore, replacing any existing one
+const savePrimary = async (restored: RestoredKey, password: string, deviceHash: string, backedUp: boolean) => {
+  // Encrypting the HD wallet keeps the recovery phrase inside the keystore
+  const signer = restored.mnemonic
+    ? ethers.Wallet.fromPhrase(restored.mnemonic)
+    : new ethers.Wallet(restored.privateKey);
+  const keystore = await signer.encrypt(password);
+  const account: StoredAccount = { address: signer.address, label: 'Account 1', source: 'primary' };
+  writeStored({
+    address: signer.address,
+    deviceHash,
+    keystore,
+    backedUp,
+    accounts: [account],
+    activeAddress: signer.address,
+  });
+  return {
+    deviceHash,
+    mnemonic: restored.mnemonic,
+    accounts: [{ ...account, privateKey: signer.privateKey, deviceHash }],
+    activeAddress: signer.address,
+  } satisfies WalletKeyring;
+};
+
+// Create a brand new random wallet protected by the password
+export const createWallet = async (password: string, deviceHash: string) => {
+  const newWallet = ethers.Wallet.createRandom();
+  return savePrimary(
+    { privateKey: newWallet.privateKey, mnemonic: newWallet.mnemonic?.phrase },
+    password,
+    deviceHash,
+    false
+  );
+};
+
+// Encrypt the legacy plaintext wallet and remove the plaintext copy
+export const migrateLegacyWallet = async (password: string) => {
+  const legacy = localStorage.getItem(LEGACY_WALLET_KEY);
+  if (!legacy) throw new Error('No plaintext wallet to migrate');
+  const { privateKey, deviceHash } = JSON.parse(legacy);
+  const keyring = await savePrimary({ privateKey }, password, deviceHash, true);
+  localStorage.removeItem(LEGACY_WALLET_KEY);
+  return keyring;
+};
+
+// Check the password against the primary keystore without unlocking other accounts
+export const verifyPassword = async (password: string) => {
+  await decryptKeystore(readStored().keystore, password);
+};
+
+// Decrypt every stored account; ethers throws on a wrong password
+export const unlockWallet = async (password: string): Promise<WalletKeyring> => {
+  const stored = readStored();
+  const primary = await decryptKeystore(stored.keystore, password);
+  const mnemonic = 'mnemonic' in primary ? primary.mnemonic?.phrase : undefined;
+
+  const accounts: UserWallet[] = [];
+  for (const account of storedAccounts(stored)) {
+    let privateKey = primary.privateKey;
+    if (account.source === 'derived' && mnemonic && account.index !== undefined) {
+      privateKey = deriveAccount(mnemonic, account.index).privateKey;
+    } else if (account.source === 'imported' && account.keystore) {
+      privateKey = (await decryptKeystore(account.keystore, password)).privateKey;
+    }
+    accounts.push({
+      address: account.address,
+      label: account.label,
+      source: account.source,
+      privateKey,
+      deviceHash: stored.deviceHash,
+    });
+  }
+
+  const activeAddress = accounts.some(account => account.address === stored.activeAddress)
+    ? stored.activeAddress!
+    : accounts[0].address;
+  return { deviceHash: stored.deviceHash, mnemonic, accounts, activeAddress };
+};
+
+// Re-encrypt the primary and imported keystores under a new password
+export const changePassword = async (currentPassword: string, newPassword: string) => {
+  const keyring = await unlockWallet(currentPassword);
+  const stored = readStored();
+  const primary = keyring.accounts.find(account => account.source === 'primary')!;
+  const signer = keyring.mnemonic
+    ? ethers.Wallet.fromPhrase(keyring.mnemonic)
+    : new ethers.Wallet(primary.privateKey);
+
+  const accounts: StoredAccount[] = [];
+  for (const account of storedAccounts(stored)) {
+    if (account.source !== 'imported') {
+      accounts.push(account);
+      continue;
+    }
+    const unlocked = keyring.accounts.find(item => item.address === account.address)!;
+    const keystore = await new ethers.Wallet(unlocked.privateKey).encrypt(newPassword);
+    accounts.push({ ...account, keystore });
+  }
+
+  writeStored({ ...stored, keystore: await signer.encrypt(newPassword), accounts });
+};
+
+// Derive the next HD account from the recovery phrase
+export const addDerivedAccount = (keyring: WalletKeyring, label: string): WalletKeyring => {
+  if (!keyring.mnemonic) {
+    throw new Error('This wallet has no recovery phrase to derive accounts from');
+  }
+  const stored = readStored();
+  const accounts = storedAccounts(stored);
+  const nextIndex = accounts.reduce((max, account) => Math.max(max, account.index ?? 0), 0) + 1;
+  const derived = deriveAccount(keyring.mnemonic, nextIndex);
+  const account: StoredAccount = {
+    address: derived.address,
+    label: label.trim() || `Account ${accounts.length + 1}`,
+    source: 'derived',
+    index: nextIndex,
+  };
+
+  writeStored({ ...stored, accounts: [...accounts, account], activeAddress: account.address });
+  return {
+    ...keyring,
+    accounts: [...keyring.accounts, { ...account, privateKey: derived.privateKey, deviceHash: keyring.deviceHash }],
+    activeAddress: account.address,
+  };
+};
+
+// Add an independent key as another account, encrypted under the wallet password
+export const importAccount = async (
+  keyring: WalletKeyring,
+  restored: RestoredKey,
+  label: string,
+  password: string
+): Promise<WalletKeyring> => {
+  await verifyPassword(password);
+  const signer = new ethers.Wallet(restored.privateKey);
+  if (keyring.accounts.some(account => account.address === signer.address)) {
+    throw new Error('This account is already in your wallet');
+  }
+
+  const stored = readStored();
+  const accounts = storedAccounts(stored);
+  const account: StoredAccount = {
+    address: signer.address,
+    label: label.trim() || `Imported ${accounts.filter(item => item.source === 'imported').length + 1}`,
+    source: 'imported',
+    keystore: await signer.encrypt(password),
+  };
+
+  writeStored({ ...stored, accounts: [...accounts, account], activeAddress: account.address });
+  return {
+    ...keyring,
+    accounts: [
+      ...keyring.accounts,
+      { address: account.address, label: account.label, source: 'imported', privateKey: signer.privateKey, deviceHash: keyring.deviceHash },
+    ],
+    activeAddress: account.address,
+  };
+};
+
+export const renameAccount = (keyring: WalletKeyring, address: string, label: string): WalletKeyring => {
+  const trimmed = label.trim();
+  if (!trimmed) throw new Error('Account name cannot be empty');
+  const stored = readStored();
+  writeStored({
+    ...stored,
+    accounts: storedAccounts(stored).map(account => (account.address === address ? { ...account, label: trimmed } : account)),
+  });
+  return {
+    ...keyring,
+    accounts: keyring.accounts.map(account => (account.address === address ? { ...account, label: trimmed } : account)),
+  };
+};
+
+// Remove a derived or imported account; the primary account always stays
+export const removeAccount = (keyring: WalletKeyring, address: string): WalletKeyring => {
+  const target = keyring.accounts.find(account => account.address === address);
+  if (!target || target.source === 'primary') {
+    throw new Error('The primary account cannot be removed');
+  }
+  const stored = readStored();
+  const accounts = keyring.accounts.filter(account => account.address !== address);
+  const activeAddress = keyring.activeAddress === address ? accounts[0].address : keyring.activeAddress;
+  writeStored({
+    ...stored,
+    accounts: storedAccounts(stored).filter(account => account.address !== address),
+    activeAddress,
+  });
+  return { ...keyring, accounts, activeAddress };
+};
+
+// Make an account the one balance checks, deposits and claims act on
+export const setActiveAccount = (keyring: WalletKeyring, address: string): WalletKeyring => {
+  writeStored({ ...readStored(), activeAddress: address });
+  return { ...keyring, activeAddress: address };
+};
+
+export const getActiveAccount = (keyring: WalletKeyring | null) =>
+  keyring?.accounts.find(account => account.address === keyring.activeAddress) ?? null;
+
+export const isBackedUp = () => {
+  const stored = localStorage.getItem(KEYSTORE_KEY);
+  return stored ? Boolean(JSON.parse(stored).backedUp) : false;
+};
+
+// Record that the user confirmed their recovery phrase
+export const markBackedUp = () => {
+  writeStored({ ...readStored(), backedUp: true });
+};
+
+// An account's encrypted keystore JSON, still protected by the wallet password
+export interface ExportedKeystore {
+  address: string;
+  label: string;
+  keystore: string;
+}
+
+// Keystores of the primary and every imported account. Derived accounts have none of their own:
+// the primary keystore holds the recovery phrase they are derived from.
+export const exportKeystores = (): ExportedKeystore[] => {
+  const stored = readStored();
+  return storedAccounts(stored).flatMap(account => {
+    if (account.source === 'primary') return [{ address: account.address, label: account.label, keystore: stored.keystore }];
+    if (account.source === 'imported' && account.keystore) {
+      return [{ address: account.address, label: account.label, keystore: account.keystore }];
+    }
+    return [];
+  });
+};
+
+// Validate a backup and recover its key; every failure is reported as a readable Error
+export const resolveRestoreSource = async (
+  method: RestoreMethod,
+  input: string,
+  keystorePassword = ''
+): Promise<RestoredKey> => {
+  const value = input.trim();
+  if (!value) throw new Error('Nothing to restore from');
+
+  if (method === 'mnemonic') {
+    const phrase = value.toLowerCase().split(/\s+/).join(' ');
+    const wordCount = phrase.split(' ').length;
+    if (![12, 15, 18, 21, 24].includes(wordCount)) {
+      throw new Error(`Recovery phrase must have 12, 15, 18, 21 or 24 words (got ${wordCount})`);
+    }
+    if (!ethers.Mnemonic.isValidMnemonic(phrase)) {
+      throw new Error('Invalid recovery phrase: check the spelling and order of the words');
+    }
+    const restored = ethers.Wallet.fromPhrase(phrase);
+    return { privateKey: restored.privateKey, mnemonic: phrase };
+  }
+
+  if (method === 'privateKey') {
+    const privateKey = value.startsWith('0x') ? value : `0x${value}`;
+    if (!/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+      throw new Error('Private key must be 64 hexadecimal characters');
+    }
+    try {
+      return { privateKey: new ethers.Wallet(privateKey).privateKey };
+    } catch {
+      throw new Error('Private key is outside the valid range');
+    }
+  }
+
+  try {
+    JSON.parse(value);
+  } catch {
+    throw new Error('Keystore file is not valid JSON');
+  }
+  if (!ethers.isKeystoreJson(value)) {
+    throw new Error('File is not an Ethereum JSON keystore');
+  }
+  try {
+    const decrypted = await ethers.Wallet.fromEncryptedJson(value, keystorePassword);
+    return {
+      privateKey: decrypted.privateKey,
+      mnemonic: 'mnemonic' in decrypted ? decrypted.mnemonic?.phrase : undefined,
+    };
+  } catch {
+    throw new Error('Incorrect keystore password');
+  }
+};
+
+// Replace the stored wallet with a restored key encrypted under `password`
+export const restoreWallet = async (restored: RestoredKey, password: string, deviceHash: string) => {
+  // A restored wallet already has a backup: the phrase or key it came from
+  const keyring = await savePrimary(restored, password, deviceHash, true);
+  localStorage.removeItem(LEGACY_WALLET_KEY);
+  return keyring;
+};
@@ -0,0 +1,34 @@
+// Endpoints guarded by server-side rate limits
+export type LimitedAction = 'faucet' | 'claim' | 'relay';
+
+// Where an address/device stands against one action's limits
+export interface RateLimitStatus {
+  // Epoch ms when the action can next be used, or null when it is available now
+  nextAvailableAt: number | null;
+  usedToday: number;
+  dailyLimit: number;
+  cooldownMs: number;
+}
+
+export type RateLimitStatuses = Record<LimitedAction, RateLimitStatus>;
+
+// "1h 05m", "4m 12s" or "12s"
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+  return `${seconds}s`;
+};
+
+export const fetchRateLimits = async (address: string, deviceId: string): Promise<RateLimitStatuses> => {
+  const params = new URLSearchParams({ address, deviceId });
+  const response = await fetch(`/api/limits?${params}`);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data as RateLimitStatuses;
+};
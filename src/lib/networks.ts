@@ -0,0 +1,89 @@
+import { ethers } from 'ethers';
+
+export interface NetworkContracts {
+  MOCK_USDC?: string;
+  BROWSER_VAULT?: string;
+  REWARD_POOL?: string;
+}
+
+export interface NetworkConfig {
+  id: string;
+  chainId: number;
+  name: string;
+  // Tried in order until one answers
+  rpcUrls: string[];
+  // Used for live block and event subscriptions; HTTP polling is the fallback
+  wsUrls: string[];
+  explorerUrl?: string;
+  contracts: NetworkContracts;
+}
+
+const urls = (...values: (string | undefined)[]) => values.filter((value): value is string => Boolean(value));
+
+// Every network BurgerBrows can talk to. NEXT_PUBLIC_ vars must be read literally so Next can inline them.
+export const NETWORKS: NetworkConfig[] = [
+  {
+    id: 'sepolia',
+    chainId: 11155111,
+    name: 'Ethereum Sepolia',
+    rpcUrls: urls(process.env.NEXT_PUBLIC_RPC_URL, 'https://ethereum-sepolia-rpc.publicnode.com'),
+    wsUrls: urls(process.env.NEXT_PUBLIC_WS_URL, 'wss://ethereum-sepolia-rpc.publicnode.com'),
+    explorerUrl: 'https://sepolia.etherscan.io',
+    contracts: {
+      MOCK_USDC: process.env.NEXT_PUBLIC_MOCK_USDC,
+      BROWSER_VAULT: process.env.NEXT_PUBLIC_BROWSER_VAULT,
+      REWARD_POOL: process.env.NEXT_PUBLIC_REWARD_POOL,
+    },
+  },
+  {
+    id: 'local',
+    chainId: 31337,
+    name: 'Local Anvil/Hardhat',
+    rpcUrls: urls(process.env.NEXT_PUBLIC_LOCAL_RPC_URL, 'http://127.0.0.1:8545'),
+    wsUrls: urls(process.env.NEXT_PUBLIC_LOCAL_WS_URL, 'ws://127.0.0.1:8545'),
+    contracts: {
+      MOCK_USDC: process.env.NEXT_PUBLIC_LOCAL_MOCK_USDC,
+      BROWSER_VAULT: process.env.NEXT_PUBLIC_LOCAL_BROWSER_VAULT,
+      REWARD_POOL: process.env.NEXT_PUBLIC_LOCAL_REWARD_POOL,
+    },
+  },
+];
+
+export const DEFAULT_NETWORK = NETWORKS[0];
+
+export const getNetworkById = (id: string | null | undefined) =>
+  NETWORKS.find(network => network.id === id);
+
+export const getNetworkByChainId = (chainId: number) =>
+  NETWORKS.find(network => network.chainId === chainId);
+
+export const explorerTxUrl = (network: NetworkConfig, hash: string) =>
+  network.explorerUrl ? `${network.explorerUrl}/tx/${hash}` : undefined;
+
+export interface NetworkConnection {
+  provider: ethers.JsonRpcProvider;
+  rpcUrl: string;
+  // Chain ID the node reports; differs from network.chainId when the RPC URL is misconfigured
+  reportedChainId: number;
+}
+
+// Connect to the first RPC URL that answers eth_chainId
+export const connectNetwork = async (network: NetworkConfig): Promise<NetworkConnection> => {
+  if (network.rpcUrls.length === 0) {
+    throw new Error(`No RPC URL configured for ${network.name}`);
+  }
+
+  let lastError: unknown;
+  for (const rpcUrl of network.rpcUrls) {
+    // A static network stops ethers from retrying detection forever against a dead node
+    const provider = new ethers.JsonRpcProvider(rpcUrl, network.chainId, { staticNetwork: true });
+    try {
+      const reportedChainId = Number(await provider.send('eth_chainId', []));
+      return { provider, rpcUrl, reportedChainId };
+    } catch (error) {
+      lastError = error;
+      provider.destroy();
+    }
+  }
+  throw lastError;
+};
@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+
+// EIP-681 payment request, e.g. ethereum:<token>@<chainId>/transfer?address=<to>&uint256=<amount>
+export interface PaymentRequest {
+  // Address right after "ethereum:": the token contract for transfers, the payee otherwise
+  target: string;
+  chainId?: number;
+  functionName?: string;
+  recipient: string;
+  amount?: bigint;
+  isTokenTransfer: boolean;
+}
+
+// What the Send form needs from a pasted payment request
+export interface SendPrefill {
+  recipient: string;
+  amount?: string;
+  warning?: string;
+}
+
+export const isPaymentRequestUri = (value: string) => value.trim().toLowerCase().startsWith('ethereum:');
+
+// Build an ERC-20 transfer request; the amount is in the token's smallest unit
+export const buildPaymentRequest = (tokenAddress: string, chainId: number, recipient: string, amount?: bigint) => {
+  const params = new URLSearchParams({ address: ethers.getAddress(recipient) });
+  if (amount !== undefined && amount > BigInt(0)) {
+    params.set('uint256', amount.toString());
+  }
+  return `ethereum:${ethers.getAddress(tokenAddress)}@${chainId}/transfer?${params.toString()}`;
+};
+
+// EIP-681 numbers may use scientific notation, e.g. 2.5e6
+const parseUriNumber = (value: string) => {
+  const match = /^(\d+)(?:\.(\d+))?(?:e(\d+))?$/i.exec(value);
+  if (!match) throw new Error(`Invalid number in payment request: ${value}`);
+  const [, whole, fraction = '', exponent = '0'] = match;
+  const shift = Number(exponent) - fraction.length;
+  if (shift < 0) throw new Error(`Payment request amount is not a whole number: ${value}`);
+  return BigInt(whole + fraction) * BigInt(10) ** BigInt(shift);
+};
+
+// Parse an EIP-681 URI; throws with a readable message when it is malformed
+export const parsePaymentRequest = (uri: string): PaymentRequest => {
+  const match = /^ethereum:(?:pay-)?(0x[0-9a-fA-F]{40})(?:@(\d+))?(?:\/([A-Za-z_]\w*))?(?:\?(.*))?$/.exec(uri.trim());
+  if (!match) throw new Error('Not a valid EIP-681 payment request');
+  const [, rawTarget, rawChainId, functionName, query = ''] = match;
+
+  let target: string;
+  try {
+    target = ethers.getAddress(rawTarget);
+  } catch {
+    throw new Error('Payment request address has an invalid checksum');
+  }
+  const params = new URLSearchParams(query);
+  const chainId = rawChainId ? Number(rawChainId) : undefined;
+
+  if (functionName === 'transfer') {
+    const to = params.get('address');
+    if (!to || !ethers.isAddress(to)) {
+      throw new Error('Token payment request is missing a valid recipient address');
+    }
+    const rawAmount = params.get('uint256');
+    return {
+      target,
+      chainId,
+      functionName,
+      recipient: ethers.getAddress(to),
+      amount: rawAmount ? parseUriNumber(rawAmount) : undefined,
+      isTokenTransfer: true,
+    };
+  }
+
+  const rawValue = params.get('value');
+  return {
+    target,
+    chainId,
+    functionName,
+    recipient: target,
+    amount: rawValue ? parseUriNumber(rawValue) : undefined,
+    isTokenTransfer: false,
+  };
+};
+
+// Map a payment request onto the USDC Send form, warning when it asks for something else
+export const toSendPrefill = (
+  request: PaymentRequest,
+  tokenAddress: string | undefined,
+  chainId: number | null,
+  decimals: number
+): SendPrefill => {
+  const warnings: string[] = [];
+  if (!request.isTokenTransfer) {
+    warnings.push('This request asks for ETH; BurgerBrows will send USDC instead');
+  } else if (!tokenAddress || request.target.toLowerCase() !== tokenAddress.toLowerCase()) {
+    warnings.push(`This request is for token ${request.target.slice(0, 10)}..., not MockUSDC`);
+  }
+  if (request.chainId !== undefined && chainId !== null && request.chainId !== chainId) {
+    warnings.push(`This request is for chain ${request.chainId}, but you are on chain ${chainId}`);
+  }
+
+  return {
+    recipient: request.recipient,
+    amount: request.isTokenTransfer && request.amount !== undefined
+      ? ethers.formatUnits(request.amount, decimals)
+      : undefined,
+    warning: warnings.length ? warnings.join('. ') : undefined,
+  };
+};
@@ -0,0 +1,200 @@
+import { ethers } from 'ethers';
+
+export type TxKind = 'approve' | 'deposit' | 'withdraw' | 'transfer' | 'claim' | 'cancel';
+
+// pending: broadcast, not mined. replaced: another tx with the same nonce was mined.
+// dropped: the nonce was used by a transaction this app never saw.
+export type TxStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'dropped';
+
+// A transaction sent from this app, kept until it settles so it can be sped up or cancelled
+export interface PendingTx {
+  id: string;
+  hash: string;
+  networkId: string;
+  from: string;
+  nonce: number;
+  to: string;
+  data: string;
+  value: string;
+  gasLimit: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  kind: TxKind;
+  label: string;
+  status: TxStatus;
+  submittedAt: number;
+  // Earlier attempt at the same nonce this one replaces (speed-up or cancel)
+  replaces?: string;
+  blockNumber?: number;
+  flowId?: string;
+}
+
+export type FlowStepStatus = 'todo' | 'pending' | 'done' | 'skipped' | 'failed';
+
+export interface FlowStep {
+  id: string;
+  label: string;
+  status: FlowStepStatus;
+  // Nonce of the step's transaction; any attempt at this nonce settles the step
+  nonce?: number;
+  error?: string;
+}
+
+// A multi-transaction operation such as approve-then-deposit, resumable after a reload
+export interface TxFlow {
+  id: string;
+  kind: 'deposit';
+  networkId: string;
+  from: string;
+  // Token amount in base units
+  amount: string;
+  label: string;
+  steps: FlowStep[];
+  createdAt: number;
+}
+
+export interface TxQueue {
+  transactions: PendingTx[];
+  flows: TxFlow[];
+}
+
+const QUEUE_STORAGE_KEY = 'burgerbrows_tx_queue';
+
+// Settled transactions kept for the panel after they leave the queue
+const MAX_SETTLED = 20;
+
+// Replacements must beat the original fee by at least 10%; bump by 12.5% to be safe
+const FEE_BUMP_NUMERATOR = BigInt(1125);
+const FEE_BUMP_DENOMINATOR = BigInt(1000);
+
+// How often pending transactions are checked for receipts
+export const RECEIPT_POLL_MS = 4000;
+
+export const EMPTY_QUEUE: TxQueue = { transactions: [], flows: [] };
+
+export const loadTxQueue = (): TxQueue => {
+  try {
+    const stored = localStorage.getItem(QUEUE_STORAGE_KEY);
+    return stored ? { ...EMPTY_QUEUE, ...JSON.parse(stored) } : EMPTY_QUEUE;
+  } catch {
+    return EMPTY_QUEUE;
+  }
+};
+
+export const saveTxQueue = (queue: TxQueue) => {
+  localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+};
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export const isSameAccount = (tx: { networkId: string; from: string }, networkId: string, from: string) =>
+  tx.networkId === networkId && sameAddress(tx.from, from);
+
+export const pendingFor = (queue: TxQueue, networkId: string, from: string) =>
+  queue.transactions.filter(tx => tx.status === 'pending' && isSameAccount(tx, networkId, from));
+
+// Next nonce to use: the node's pending count, or one past our own highest pending nonce
+// when the node has not seen those transactions yet
+export const nextNonce = (queue: TxQueue, networkId: string, from: string, chainPendingNonce: number) =>
+  pendingFor(queue, networkId, from).reduce((next, tx) => Math.max(next, tx.nonce + 1), chainPendingNonce);
+
+const bump = (value: bigint) => (value * FEE_BUMP_NUMERATOR + FEE_BUMP_DENOMINATOR - BigInt(1)) / FEE_BUMP_DENOMINATOR;
+
+// Fees for a replacement: at least 12.5% over the original and never below current network fees
+export const bumpedFees = (tx: PendingTx, feeData: ethers.FeeData) => {
+  const maxFeePerGas = bump(BigInt(tx.maxFeePerGas));
+  const maxPriorityFeePerGas = bump(BigInt(tx.maxPriorityFeePerGas));
+  const networkMaxFee = feeData.maxFeePerGas ?? BigInt(0);
+  const networkPriorityFee = feeData.maxPriorityFeePerGas ?? BigInt(0);
+  return {
+    maxFeePerGas: maxFeePerGas > networkMaxFee ? maxFeePerGas : networkMaxFee,
+    maxPriorityFeePerGas: maxPriorityFeePerGas > networkPriorityFee ? maxPriorityFeePerGas : networkPriorityFee,
+  };
+};
+
+export const addTransaction = (queue: TxQueue, tx: PendingTx): TxQueue => ({
+  ...queue,
+  transactions: [tx, ...queue.transactions],
+});
+
+// Record the outcome of a nonce: the mined attempt settles, every other attempt is replaced
+export const settleNonce = (
+  queue: TxQueue,
+  networkId: string,
+  from: string,
+  nonce: number,
+  outcome: { hash: string; status: 'confirmed' | 'failed'; blockNumber: number } | { status: 'dropped' }
+): TxQueue => ({
+  ...queue,
+  transactions: queue.transactions.map(tx => {
+    if (tx.status !== 'pending' || tx.nonce !== nonce || !isSameAccount(tx, networkId, from)) return tx;
+    if (outcome.status === 'dropped') return { ...tx, status: 'dropped' };
+    return tx.hash === outcome.hash
+      ? { ...tx, status: outcome.status, blockNumber: outcome.blockNumber }
+      : { ...tx, status: 'replaced' };
+  }),
+});
+
+// Drop settled transactions beyond the most recent few
+export const pruneSettled = (queue: TxQueue): TxQueue => {
+  const settled = queue.transactions.filter(tx => tx.status !== 'pending').slice(0, MAX_SETTLED);
+  const keep = new Set(settled.map(tx => tx.id));
+  return {
+    ...queue,
+    transactions: queue.transactions.filter(tx => tx.status === 'pending' || keep.has(tx.id)),
+  };
+};
+
+export const clearSettled = (queue: TxQueue): TxQueue => ({
+  ...queue,
+  transactions: queue.transactions.filter(tx => tx.status === 'pending'),
+});
+
+// The attempt at a nonce that decided it, or the newest attempt while it is still pending
+export const nonceOutcome = (queue: TxQueue, networkId: string, from: string, nonce: number) => {
+  const attempts = queue.transactions.filter(tx => tx.nonce === nonce && isSameAccount(tx, networkId, from));
+  return attempts.find(tx => tx.status === 'confirmed' || tx.status === 'failed')
+    ?? attempts.find(tx => tx.status === 'pending')
+    ?? attempts[0];
+};
+
+// Only the newest attempt at each pending nonce is offered for speed-up or cancel
+export const latestAttempts = (transactions: PendingTx[]) => {
+  const seen = new Set<string>();
+  return transactions.filter(tx => {
+    const key = `${tx.networkId}:${tx.from.toLowerCase()}:${tx.nonce}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const createDepositFlow = (networkId: string, from: string, amount: bigint, label: string): TxFlow => ({
+  id: crypto.randomUUID(),
+  kind: 'deposit',
+  networkId,
+  from,
+  amount: amount.toString(),
+  label,
+  steps: [
+    { id: 'approve', label: 'Approve BrowserVault', status: 'todo' },
+    { id: 'deposit', label: 'Deposit to BrowserVault', status: 'todo' },
+  ],
+  createdAt: Date.now(),
+});
+
+export const updateFlowStep = (queue: TxQueue, flowId: string, stepId: string, change: Partial<FlowStep>): TxQueue => ({
+  ...queue,
+  flows: queue.flows.map(flow => flow.id !== flowId ? flow : {
+    ...flow,
+    steps: flow.steps.map(step => step.id === stepId ? { ...step, ...change } : step),
+  }),
+});
+
+export const removeFlow = (queue: TxQueue, flowId: string): TxQueue => ({
+  ...queue,
+  flows: queue.flows.filter(flow => flow.id !== flowId),
+});
+
+export const isFlowComplete = (flow: TxFlow) =>
+  flow.steps.every(step => step.status === 'done' || step.status === 'skipped');
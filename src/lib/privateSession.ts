@@ -0,0 +1,29 @@
+import { ethers } from 'ethers';
+import type { UserWallet } from '@/lib/keystore';
+
+// A private browsing session: a throwaway wallet that only ever lives in memory.
+// Tabs, history, logs and pending transactions of the session are kept in memory too.
+export interface PrivateSession {
+  id: string;
+  wallet: UserWallet;
+  // Main wallet the session's USDC can be swept back to when it ends
+  returnAddress?: string;
+  startedAt: number;
+}
+
+// Start a session with a fresh random wallet. The device hash is random too, so no fingerprint is taken.
+export const createPrivateSession = (returnAddress?: string): PrivateSession => {
+  const throwaway = ethers.Wallet.createRandom();
+  return {
+    id: crypto.randomUUID(),
+    wallet: {
+      address: throwaway.address,
+      privateKey: throwaway.privateKey,
+      deviceHash: ethers.hexlify(ethers.randomBytes(7)),
+      label: 'Private session',
+      source: 'ephemeral',
+    },
+    returnAddress,
+    startedAt: Date.now(),
+  };
+};
@@ -0,0 +1,63 @@
+// Route that re-serves frame-blocked pages through BurgerBrows
+export const PROXY_PATH = '/api/proxy';
+
+// Hidden form field carrying the target of a proxied GET form, whose query string the browser replaces
+export const PROXY_FORM_FIELD = '__bb_proxy_url';
+
+// Result of the server-side framing pre-check for a URL
+export interface FrameCheck {
+  url: string;
+  framable: boolean;
+  // Why the site refuses framing, e.g. "X-Frame-Options: DENY"
+  reason?: string;
+  // Whether the proxy is allowed to fetch this site
+  proxyAllowed: boolean;
+}
+
+// Also escapes quotes and parentheses so the result is safe inside HTML attributes and CSS url()
+export const toProxyUrl = (url: string) =>
+  `${PROXY_PATH}?url=${encodeURIComponent(url).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+
+export const isProxyUrl = (url: string) => url.startsWith(`${PROXY_PATH}?`);
+
+// The page a proxy URL points at, or the URL itself when it is not proxied
+export const fromProxyUrl = (url: string) => {
+  if (!isProxyUrl(url)) return url;
+  const params = new URLSearchParams(url.slice(PROXY_PATH.length + 1));
+  return params.get('url') ?? url;
+};
+
+// Page a proxied frame says it shows, with the proof the proxy stamped on it; see public/burgerbrows-provider.js
+export interface ProxiedPage {
+  url: string;
+  proof: string;
+}
+
+export const isProxiedPage = (value: unknown): value is ProxiedPage => {
+  const page = value as Partial<ProxiedPage> | null;
+  return typeof page?.url === 'string' && typeof page.proof === 'string' && /^[0-9a-f]{64}$/.test(page.proof);
+};
+
+// Ask the server whether the proxy really served this page to this browser
+export const verifyProxiedPage = async (page: ProxiedPage) => {
+  const response = await fetch(`${PROXY_PATH}/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url: page.url, proof: page.proof }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Page check failed with status ${response.status}`);
+  }
+  return data.valid === true;
+};
+
+// Ask the server whether a site can be shown in the iframe directly
+export const checkFraming = async (url: string): Promise<FrameCheck> => {
+  const response = await fetch(`/api/frame-check?url=${encodeURIComponent(url)}`);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Frame check failed with status ${response.status}`);
+  }
+  return data as FrameCheck;
+};
@@ -0,0 +1,124 @@
+import { ethers } from 'ethers';
+import { REWARD_POOL_ABI } from '@/lib/contracts';
+import type { RewardPoolClient } from '@/lib/contractClients';
+import { HISTORY_LOOKBACK_BLOCKS, LOG_CHUNK_BLOCKS } from '@/lib/history';
+
+// EIP-712 voucher the RewardPool verifies before paying `amount` to `account` once.
+// Amounts and nonces are decimal strings so vouchers survive JSON.
+export interface RewardVoucher {
+  account: string;
+  amount: string;
+  nonce: string;
+  // Unix seconds after which the pool rejects the voucher
+  deadline: number;
+}
+
+// Returned by /api/rewards/claim
+export interface SignedRewardVoucher {
+  voucher: RewardVoucher;
+  signature: string;
+  // Formatted USDC amount for display
+  amount: string;
+}
+
+export const REWARD_VOUCHER_TYPES: Record<string, ethers.TypedDataField[]> = {
+  RewardVoucher: [
+    { name: 'account', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export const rewardPoolDomain = (chainId: number, pool: string): ethers.TypedDataDomain => ({
+  name: 'BurgerBrows RewardPool',
+  version: '1',
+  chainId,
+  verifyingContract: pool,
+});
+
+// How long a voucher stays valid once issued
+export const VOUCHER_TTL_SECONDS = 30 * 60;
+
+// Pools below this many USDC are shown as running low
+export const POOL_LOW_BALANCE = '50';
+
+export interface PoolStatus {
+  poolBalance: string;
+  // Credited on-chain and claimable without a voucher
+  claimable: string;
+  totalClaimed: string;
+}
+
+export interface RewardClaim {
+  id: string;
+  amount: string;
+  nonce: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export type PoolFundingLevel = 'empty' | 'low' | 'funded';
+
+export const getPoolFundingLevel = (poolBalance: string, decimals: number): PoolFundingLevel => {
+  const balance = ethers.parseUnits(poolBalance, decimals);
+  if (balance === BigInt(0)) return 'empty';
+  return balance < ethers.parseUnits(POOL_LOW_BALANCE, decimals) ? 'low' : 'funded';
+};
+
+export const getRewardPool = (pool: string, runner: ethers.ContractRunner) =>
+  new ethers.Contract(pool, REWARD_POOL_ABI, runner);
+
+// Address that signed a voucher; must equal the pool's rewardSigner for the claim to succeed
+export const recoverVoucherSigner = (chainId: number, pool: string, signed: SignedRewardVoucher) =>
+  ethers.verifyTypedData(rewardPoolDomain(chainId, pool), REWARD_VOUCHER_TYPES, signed.voucher, signed.signature);
+
+export const fetchPoolStatus = async (pool: RewardPoolClient, account: string, decimals: number): Promise<PoolStatus> => {
+  const [poolBalance, claimable, totalClaimed] = await Promise.all([
+    pool.poolBalance(),
+    pool.claimable(account),
+    pool.totalClaimed(account),
+  ]);
+  return {
+    poolBalance: ethers.formatUnits(poolBalance, decimals),
+    claimable: ethers.formatUnits(claimable, decimals),
+    totalClaimed: ethers.formatUnits(totalClaimed, decimals),
+  };
+};
+
+// RewardClaimed events for the account over the recent history window, newest first
+export const fetchClaimHistory = async (
+  provider: ethers.Provider,
+  pool: string,
+  account: string,
+  decimals: number
+): Promise<RewardClaim[]> => {
+  const contract = getRewardPool(pool, provider);
+  const toBlock = await provider.getBlockNumber();
+  const fromBlock = Math.max(0, toBlock - HISTORY_LOOKBACK_BLOCKS);
+
+  const logs: ethers.EventLog[] = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_BLOCKS) {
+    const end = Math.min(start + LOG_CHUNK_BLOCKS - 1, toBlock);
+    const chunk = await contract.queryFilter(contract.filters.RewardClaimed(account), start, end);
+    logs.push(...chunk.filter((log): log is ethers.EventLog => log instanceof ethers.EventLog));
+  }
+
+  const timestamps = new Map<number, number>();
+  await Promise.all([...new Set(logs.map(log => log.blockNumber))].map(async blockNumber => {
+    const block = await provider.getBlock(blockNumber);
+    timestamps.set(blockNumber, (block?.timestamp ?? 0) * 1000);
+  }));
+
+  return logs
+    .map(log => ({
+      id: `${log.transactionHash}-${log.index}`,
+      amount: ethers.formatUnits(log.args.amount, decimals),
+      nonce: log.args.nonce.toString(),
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      timestamp: timestamps.get(log.blockNumber) ?? 0,
+    }))
+    .sort((a, b) => b.blockNumber - a.blockNumber);
+};
@@ -0,0 +1,93 @@
+const SEARCH_STORAGE_KEY = 'burgerbrows_search';
+
+// Placeholder replaced by the encoded query in search URL templates
+export const QUERY_PLACEHOLDER = '%s';
+
+export interface SearchProvider {
+  id: string;
+  name: string;
+  template: string;
+}
+
+export const SEARCH_PROVIDERS: SearchProvider[] = [
+  { id: 'duckduckgo', name: 'DuckDuckGo', template: 'https://duckduckgo.com/?q=%s' },
+  { id: 'wikipedia', name: 'Wikipedia', template: 'https://en.wikipedia.org/w/index.php?search=%s' },
+];
+
+export interface SearchSettings {
+  // A SEARCH_PROVIDERS id, or 'custom' to use customTemplate
+  providerId: string;
+  customTemplate: string;
+}
+
+export const DEFAULT_SEARCH_SETTINGS: SearchSettings = { providerId: 'duckduckgo', customTemplate: '' };
+
+export const loadSearchSettings = (): SearchSettings => {
+  try {
+    const stored = localStorage.getItem(SEARCH_STORAGE_KEY);
+    return stored ? { ...DEFAULT_SEARCH_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SEARCH_SETTINGS;
+  } catch {
+    return DEFAULT_SEARCH_SETTINGS;
+  }
+};
+
+export const saveSearchSettings = (settings: SearchSettings) => {
+  localStorage.setItem(SEARCH_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Returns an error message, or null when the template can be used
+export const validateSearchTemplate = (template: string) => {
+  if (!template.includes(QUERY_PLACEHOLDER)) {
+    return `Template must contain ${QUERY_PLACEHOLDER} where the query goes`;
+  }
+  try {
+    const url = new URL(template.replace(QUERY_PLACEHOLDER, 'test'));
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'Template must be an http(s) URL';
+    }
+  } catch {
+    return 'Template is not a valid URL';
+  }
+  return null;
+};
+
+// Provider in use; an invalid custom template falls back to the default provider
+export const getSearchProvider = (settings: SearchSettings): SearchProvider => {
+  if (settings.providerId === 'custom' && !validateSearchTemplate(settings.customTemplate)) {
+    return { id: 'custom', name: new URL(settings.customTemplate.replace(QUERY_PLACEHOLDER, '')).hostname, template: settings.customTemplate };
+  }
+  return SEARCH_PROVIDERS.find(provider => provider.id === settings.providerId) ?? SEARCH_PROVIDERS[0];
+};
+
+export const buildSearchUrl = (settings: SearchSettings, query: string) =>
+  getSearchProvider(settings).template.replace(QUERY_PLACEHOLDER, encodeURIComponent(query.trim()));
+
+export type AddressInput =
+  | { kind: 'url'; url: string }
+  | { kind: 'search'; url: string; query: string };
+
+const HOSTNAME_INPUT = /^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}(:\d+)?([/?#]\S*)?$/i;
+const IPV4_INPUT = /^\d{1,3}(\.\d{1,3}){3}(:\d+)?([/?#]\S*)?$/;
+const LOCALHOST_INPUT = /^localhost(:\d+)?([/?#]\S*)?$/i;
+
+// Decide whether address bar input is a URL or a search query, and build the URL to load
+export const resolveAddressInput = (input: string, settings: SearchSettings): AddressInput => {
+  const value = input.trim();
+  if (value.startsWith('/')) {
+    return { kind: 'url', url: value };
+  }
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      return { kind: 'url', url: new URL(value).toString() };
+    } catch {
+      // Not a parseable URL, so search for it instead
+    }
+  }
+  if (LOCALHOST_INPUT.test(value) || IPV4_INPUT.test(value)) {
+    return { kind: 'url', url: `http://${value}` };
+  }
+  if (HOSTNAME_INPUT.test(value)) {
+    return { kind: 'url', url: `https://${value}` };
+  }
+  return { kind: 'search', url: buildSearchUrl(settings, value), query: value };
+};
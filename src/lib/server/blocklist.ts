@@ -0,0 +1,55 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  DOMAIN_BLOCKLIST_URL,
+  DOMAIN_LIST_MAX_AGE_MS,
+  EMPTY_DOMAIN_LIST,
+  fetchBlocklist,
+  findThreat,
+  parseBlocklist,
+  type BlockedDomain,
+} from '@/lib/siteSecurity';
+
+interface BlocklistState {
+  blocked: BlockedDomain[];
+  loadedAt: number;
+  loading: Promise<BlockedDomain[]> | null;
+}
+
+// Server copy of the published blocklist, kept on globalThis like the reward ledger
+const globalBlocklist = globalThis as typeof globalThis & { __burgerbrowsBlocklist?: BlocklistState };
+const state = (globalBlocklist.__burgerbrowsBlocklist ??= { blocked: [], loadedAt: 0, loading: null });
+
+// The same list the browser downloads: a remote URL, or the bundled copy in public/
+const loadBlocklist = async () => {
+  if (/^https?:\/\//i.test(DOMAIN_BLOCKLIST_URL)) {
+    return fetchBlocklist(DOMAIN_BLOCKLIST_URL);
+  }
+  const file = path.join(process.cwd(), 'public', DOMAIN_BLOCKLIST_URL);
+  return parseBlocklist(JSON.parse(await readFile(file, 'utf8')));
+};
+
+// The blocklist, reloaded once a day; a failed reload keeps the previous copy
+const getBlocklist = () => {
+  if (Date.now() - state.loadedAt < DOMAIN_LIST_MAX_AGE_MS) {
+    return Promise.resolve(state.blocked);
+  }
+  state.loading ??= loadBlocklist()
+    .then(blocked => {
+      state.blocked = blocked;
+      state.loadedAt = Date.now();
+      return blocked;
+    })
+    .catch(error => {
+      console.error('Blocklist load failed:', error);
+      return state.blocked;
+    })
+    .finally(() => {
+      state.loading = null;
+    });
+  return state.loading;
+};
+
+// The blocklist entry covering a URL, or null
+export const findBlockedHost = async (url: URL) =>
+  findThreat({ ...EMPTY_DOMAIN_LIST, blocked: await getBlocklist() }, url.toString());
@@ -0,0 +1,84 @@
+import { ethers } from 'ethers';
+import { NextResponse } from 'next/server';
+import { MOCK_USDC_ABI } from '@/lib/contracts';
+import { DEFAULT_NETWORK, getNetworkByChainId, type NetworkConfig } from '@/lib/networks';
+
+// Server-only: the hackathon key must never be read from a NEXT_PUBLIC_ variable
+const HACKATHON_PRIVATE_KEY = process.env.HACKATHON_PRIVATE_KEY;
+
+// Error with an HTTP status that route handlers turn into a JSON response
+export class ApiError extends Error {
+  constructor(message: string, public status = 500) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Rejected by a rate limit; the client may retry at `retryAt` (epoch ms)
+export class RateLimitError extends ApiError {
+  constructor(message: string, public retryAt: number) {
+    super(message, 429);
+    this.name = 'RateLimitError';
+  }
+}
+
+// Build the funding wallet that pays for faucet mints and reward transfers
+export const getHackathonWallet = (network: NetworkConfig) => {
+  if (network.rpcUrls.length === 0) {
+    throw new ApiError(`RPC URL not configured for ${network.name}`);
+  }
+  if (!HACKATHON_PRIVATE_KEY) {
+    throw new ApiError('Hackathon wallet not configured');
+  }
+  const provider = new ethers.JsonRpcProvider(network.rpcUrls[0], network.chainId, { staticNetwork: true });
+  return new ethers.Wallet(HACKATHON_PRIVATE_KEY, provider);
+};
+
+// MockUSDC contract connected to the hackathon wallet
+export const getHackathonUsdc = (network: NetworkConfig) => {
+  if (!network.contracts.MOCK_USDC) {
+    throw new ApiError(`MockUSDC contract not configured for ${network.name}`);
+  }
+  const hackathonWallet = getHackathonWallet(network);
+  return {
+    hackathonWallet,
+    contract: new ethers.Contract(network.contracts.MOCK_USDC, MOCK_USDC_ABI, hackathonWallet),
+  };
+};
+
+// Read and validate the recipient address and target network from a JSON request body
+export const readRecipient = async (request: Request) => {
+  let body: { address?: unknown; chainId?: unknown; deviceId?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError('Request body must be JSON', 400);
+  }
+  if (typeof body.address !== 'string' || !ethers.isAddress(body.address)) {
+    throw new ApiError('A valid recipient address is required', 400);
+  }
+
+  const network = body.chainId === undefined ? DEFAULT_NETWORK : getNetworkByChainId(Number(body.chainId));
+  if (!network) {
+    throw new ApiError(`Unsupported chain ID: ${body.chainId}`, 400);
+  }
+  const deviceId = typeof body.deviceId === 'string' ? body.deviceId : undefined;
+  return { address: ethers.getAddress(body.address), network, deviceId };
+};
+
+// Convert any thrown error into a JSON error response
+export const errorResponse = (error: unknown) => {
+  if (error instanceof RateLimitError) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((error.retryAt - Date.now()) / 1000));
+    return NextResponse.json(
+      { error: error.message, retryAt: error.retryAt },
+      { status: error.status, headers: { 'Retry-After': String(retryAfterSeconds) } }
+    );
+  }
+  if (error instanceof ApiError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(error);
+  const message = error instanceof Error ? error.message : String(error);
+  return NextResponse.json({ error: message }, { status: 500 });
+};
@@ -0,0 +1,386 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { lookup as lookupCallback } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { Agent, fetch as undiciFetch, type RequestInit as UpstreamInit, type Response as UpstreamResponse } from 'undici';
+import { PROXY_FORM_FIELD, PROXY_PATH, toProxyUrl } from '@/lib/proxy';
+import { findBlockedHost } from '@/lib/server/blocklist';
+import { ApiError } from '@/lib/server/hackathonWallet';
+import { THREAT_LABELS } from '@/lib/siteSecurity';
+
+const parseHostList = (value: string | undefined) =>
+  (value ?? '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+
+// Size and time limits for upstream fetches, overridable via env
+export const PROXY_LIMITS = {
+  maxBytes: Number(process.env.PROXY_MAX_BYTES ?? 5 * 1024 * 1024),
+  timeoutMs: Number(process.env.PROXY_TIMEOUT_MS ?? 10_000),
+  maxRedirects: 5,
+};
+
+// Comma-separated hostnames; an entry also matches its subdomains. An empty allowlist allows every public host.
+const PROXY_ALLOWLIST = parseHostList(process.env.PROXY_ALLOWLIST);
+const PROXY_DENYLIST = parseHostList(process.env.PROXY_DENYLIST);
+
+const matchesHost = (hostname: string, pattern: string) =>
+  hostname === pattern || hostname.endsWith(`.${pattern}`);
+
+// Whether the allow/deny lists let the proxy fetch this host
+export const isProxyAllowed = (hostname: string) => {
+  const host = hostname.toLowerCase();
+  if (PROXY_DENYLIST.some(pattern => matchesHost(host, pattern))) return false;
+  return PROXY_ALLOWLIST.length === 0 || PROXY_ALLOWLIST.some(pattern => matchesHost(host, pattern));
+};
+
+// Every range that is not a public unicast address. BlockList also matches IPv4-mapped IPv6 forms
+// such as ::ffff:7f00:1 against the IPv4 ranges.
+const PRIVATE_RANGES = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  // Teredo and 6to4 tunnel to IPv4 addresses embedded in the IPv6 one
+  ['2001::', 32],
+  ['2001:db8::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]) => PRIVATE_RANGES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// IPv6 literals for IPv4 addresses (::ffff:0:0/96) are refused outright. Kept apart because BlockList treats
+// this subnet as covering every IPv4 address.
+const IPV4_MAPPED = new BlockList();
+IPV4_MAPPED.addSubnet('::ffff:0:0', 96, 'ipv6');
+
+const isPrivateAddress = (address: string) => {
+  const family = isIP(address);
+  // Anything that isn't a plain IP literal is refused rather than guessed at
+  if (family === 0) return true;
+  if (family === 6) return IPV4_MAPPED.check(address, 'ipv6') || PRIVATE_RANGES.check(address, 'ipv6');
+  return PRIVATE_RANGES.check(address, 'ipv4');
+};
+
+// DNS lookup for upstream connections that refuses private addresses, so the address checked is the one connected
+// to and a DNS rebind between resolvePublicUrl and the fetch cannot reach the private network
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (addresses.some(isPrivateAddress)) {
+      callback(Object.assign(new Error(`${hostname} resolves to a private network address`), { code: 'EPRIVATEADDRESS' }), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+const upstreamAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// Parse a URL the server is asked to fetch, refusing non-web schemes and private network hosts
+export const resolvePublicUrl = async (input: string | null) => {
+  if (!input) {
+    throw new ApiError('A url parameter is required', 400);
+  }
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new ApiError('Invalid URL', 400);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ApiError('Only http and https URLs can be fetched', 400);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses = [hostname];
+  if (!isIP(hostname)) {
+    try {
+      addresses = (await lookup(hostname, { all: true })).map(result => result.address);
+    } catch {
+      throw new ApiError(`Could not resolve ${hostname}`, 502);
+    }
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new ApiError('Private network addresses cannot be fetched', 403);
+  }
+  return url;
+};
+
+// Resolve a URL for the proxy, which also applies the allow/deny lists and the phishing blocklist
+export const resolveProxyTarget = async (input: string | null) => {
+  const url = await resolvePublicUrl(input);
+  if (!isProxyAllowed(url.hostname)) {
+    throw new ApiError(`${url.hostname} is not allowed through the proxy`, 403);
+  }
+  // Also checked on every redirect hop and on links followed inside proxied pages
+  const threat = await findBlockedHost(url);
+  if (threat) {
+    throw new ApiError(`${url.hostname} is on the BurgerBrows blocklist (${THREAT_LABELS[threat.category]})`, 403);
+  }
+  return url;
+};
+
+// Target of a proxy request; GET forms carry it in a hidden field alongside their own fields
+export const readProxyTarget = (params: URLSearchParams) => {
+  const formTarget = params.get(PROXY_FORM_FIELD);
+  if (!formTarget) return params.get('url');
+  const query = new URLSearchParams(params);
+  query.delete(PROXY_FORM_FIELD);
+  try {
+    const url = new URL(formTarget);
+    url.search = query.toString();
+    return url.toString();
+  } catch {
+    return formTarget;
+  }
+};
+
+// Read a response body, failing once it grows past the size limit
+const readLimitedBody = async (response: UpstreamResponse) => {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > PROXY_LIMITS.maxBytes) {
+    throw new ApiError('Upstream response is too large', 413);
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > PROXY_LIMITS.maxBytes) {
+      await reader.cancel();
+      throw new ApiError('Upstream response is too large', 413);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return body;
+};
+
+export interface UpstreamResult {
+  response: UpstreamResponse;
+  // Final URL after redirects
+  url: URL;
+  body: Uint8Array | null;
+}
+
+// Fetch a page within the time limit, re-checking every redirect hop with `resolveHop`
+export const fetchUpstream = async (
+  target: URL,
+  init: UpstreamInit,
+  resolveHop: (input: string) => Promise<URL>,
+  { readBody = true } = {}
+): Promise<UpstreamResult> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROXY_LIMITS.timeoutMs);
+  try {
+    let url = target;
+    let requestInit = init;
+    for (let hop = 0; ; hop++) {
+      const response = await undiciFetch(url, {
+        ...requestInit,
+        redirect: 'manual',
+        signal: controller.signal,
+        dispatcher: upstreamAgent,
+      });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        if (!readBody) {
+          await response.body?.cancel();
+          return { response, url, body: null };
+        }
+        return { response, url, body: await readLimitedBody(response) };
+      }
+
+      await response.body?.cancel();
+      if (hop >= PROXY_LIMITS.maxRedirects) {
+        throw new ApiError('Too many redirects', 502);
+      }
+      url = await resolveHop(new URL(location, url).toString());
+      // Browsers turn a redirected POST into a GET for 301/302/303
+      if (requestInit.method === 'POST' && response.status <= 303) {
+        requestInit = { headers: requestInit.headers, method: 'GET' };
+      }
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new ApiError('Upstream site did not respond in time', 504);
+    }
+    if (error instanceof ApiError) throw error;
+    // undici reports connect failures, including refused private addresses, as the cause of a generic TypeError
+    const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+    throw new ApiError(`Failed to fetch upstream site: ${cause instanceof Error ? cause.message : cause}`, 502);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Describe why response headers forbid framing by another origin, if they do
+export const getFrameBlockReason = (headers: Pick<Headers, 'get'>) => {
+  const frameOptions = headers.get('x-frame-options')?.trim().toUpperCase();
+  // Any value other than the non-standard ALLOWALL blocks a cross-origin parent
+  if (frameOptions && frameOptions !== 'ALLOWALL') {
+    return `X-Frame-Options: ${frameOptions}`;
+  }
+  const frameAncestors = headers.get('content-security-policy')
+    ?.split(';')
+    .map(directive => directive.trim())
+    .find(directive => directive.toLowerCase().startsWith('frame-ancestors'));
+  if (frameAncestors) {
+    const sources = frameAncestors.split(/\s+/).slice(1);
+    if (!sources.some(source => source === '*' || source === 'https:' || source === 'http:')) {
+      return `Content-Security-Policy: ${frameAncestors}`;
+    }
+  }
+  return undefined;
+};
+
+const SKIPPED_URL = /^(#|javascript:|data:|mailto:|tel:|blob:|about:)/i;
+
+const decodeAttribute = (value: string) =>
+  value.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#0?39;|&#x27;/gi, "'").replace(/&#x2f;|&#47;/gi, '/');
+
+// Absolute URL for an attribute value, or null when it should be left alone
+const resolveLink = (value: string, base: URL) => {
+  const trimmed = decodeAttribute(value.trim());
+  if (!trimmed || SKIPPED_URL.test(trimmed)) return null;
+  try {
+    const url = new URL(trimmed, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+const proxify = (value: string, base: URL) => {
+  const url = resolveLink(value, base);
+  return url ? toProxyUrl(url.toString()) : value;
+};
+
+// Route url() references and @import strings in a stylesheet back through the proxy
+export const rewriteCss = (css: string, base: URL) =>
+  css
+    .replace(/url\(\s*(["']?)([^"')]+)\1\s*\)/gi, (match, _quote: string, value: string) => {
+      const url = resolveLink(value, base);
+      return url ? `url(${toProxyUrl(url.toString())})` : match;
+    })
+    .replace(/@import\s+(["'])([^"']+)\1/gi, (match, quote: string, value: string) => {
+      const url = resolveLink(value, base);
+      return url ? `@import ${quote}${toProxyUrl(url.toString())}${quote}` : match;
+    });
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+// Point forms at the proxy; GET forms keep their target in a hidden field because the browser replaces the query
+const rewriteForm = (tag: string, base: URL) => {
+  const method = /\smethod\s*=\s*["']?(\w+)/i.exec(tag)?.[1].toLowerCase() ?? 'get';
+  const actionMatch = /\saction\s*=\s*(["'])(.*?)\1/i.exec(tag);
+  const target = resolveLink(actionMatch?.[2] || base.toString(), base);
+  if (!target) return tag;
+
+  const withoutAction = actionMatch ? tag.replace(actionMatch[0], '') : tag;
+  const openTag = withoutAction.replace(/^<form\b/i, '');
+  if (method === 'get') {
+    return `<form action="${PROXY_PATH}"${openTag}<input type="hidden" name="${PROXY_FORM_FIELD}" value="${escapeAttribute(target.toString())}">`;
+  }
+  return `<form action="${toProxyUrl(target.toString())}"${openTag}`;
+};
+
+// Cookie holding this browser's key for page proofs. HttpOnly, so proxied pages, which share no origin with it, and
+// other servers fetching the proxy never learn it.
+export const PAGE_KEY_COOKIE = 'burgerbrows_page_key';
+
+const PAGE_KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+export const createPageKey = () => randomBytes(32).toString('hex');
+
+// A well-formed page key, or null
+export const parsePageKey = (value: string | undefined) => (value && PAGE_KEY_PATTERN.test(value) ? value : null);
+
+// Proof that the proxy served `url` to the browser holding `key`. Proxied pages run in an opaque origin, so the wallet
+// bridge trusts the URL they report only with a proof it can check.
+export const pageProof = (url: string, key: string) => createHmac('sha256', key).update(url).digest('hex');
+
+export const verifyPageProof = (url: string, proof: string, key: string) => {
+  const expected = Buffer.from(pageProof(url, key), 'hex');
+  const given = Buffer.from(proof, 'hex');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// Injected after rewriting so its own src stays on our origin
+const providerScript = (pageUrl: URL, proof: string) =>
+  `<script src="/burgerbrows-provider.js" data-page-url="${escapeAttribute(pageUrl.toString())}" data-page-proof="${proof}"></script>`;
+
+// Rewrite a page so links, forms and subresources load through the proxy; `proof` is the page's pageProof
+export const rewriteHtml = (html: string, pageUrl: URL, proof: string) => {
+  let base = pageUrl;
+  const baseHref = /<base\b[^>]*\shref\s*=\s*(["'])(.*?)\1[^>]*>/i.exec(html)?.[2];
+  if (baseHref) {
+    base = resolveLink(baseHref, pageUrl) ?? pageUrl;
+  }
+
+  const rewritten = html
+    .replace(/<base\b[^>]*>/gi, '')
+    // Framing and subresource policies would block the rewritten page
+    .replace(/<meta\b[^>]*http-equiv\s*=\s*["']?content-security-policy["']?[^>]*>/gi, '')
+    .replace(/\sintegrity\s*=\s*(["']).*?\1/gi, '')
+    .replace(/<form\b[^>]*>/gi, tag => rewriteForm(tag, base))
+    .replace(
+      /(\s(?:href|src|poster|background|data)\s*=\s*)(["'])(.*?)\2/gi,
+      (_match, prefix: string, quote: string, value: string) => `${prefix}${quote}${proxify(value, base)}${quote}`
+    )
+    .replace(/(\s(?:srcset|imagesrcset)\s*=\s*)(["'])(.*?)\2/gi, (_match, prefix: string, quote: string, value: string) => {
+      const candidates = value.split(',').map(candidate => {
+        const [url, ...descriptor] = candidate.trim().split(/\s+/);
+        return [proxify(url, base), ...descriptor].join(' ');
+      });
+      return `${prefix}${quote}${candidates.join(', ')}${quote}`;
+    })
+    .replace(
+      /(<meta\b[^>]*http-equiv\s*=\s*["']?refresh["']?[^>]*content\s*=\s*["']\s*\d+\s*;\s*url=)([^"']+)/gi,
+      (_match, prefix: string, value: string) => `${prefix}${proxify(value, base)}`
+    )
+    .replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (_match, open: string, css: string, close: string) =>
+      `${open}${rewriteCss(css, base)}${close}`
+    )
+    .replace(/(\sstyle\s*=\s*)(["'])(.*?)\2/gi, (_match, prefix: string, quote: string, css: string) =>
+      `${prefix}${quote}${rewriteCss(css, base)}${quote}`
+    );
+
+  // Give the page the BurgerBrows wallet before any of its own scripts run
+  const script = providerScript(pageUrl, proof);
+  const head = /<head\b[^>]*>/i.exec(rewritten);
+  if (!head) return script + rewritten;
+  const end = head.index + head[0].length;
+  return rewritten.slice(0, end) + script + rewritten.slice(end);
+};
@@ -0,0 +1,220 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { isIP } from 'node:net';
+import { formatDuration, type LimitedAction, type RateLimitStatus, type RateLimitStatuses } from '@/lib/limits';
+import { ApiError, RateLimitError } from '@/lib/server/hackathonWallet';
+
+// Last use and today's count of one action for one subject (an address, a device or a client IP)
+export interface UsageRecord {
+  lastAt: number;
+  day: string;
+  count: number;
+}
+
+// Where usage records live; swap implementations with RATE_LIMIT_STORE
+export interface RateLimitStore {
+  get: (key: string) => Promise<UsageRecord | undefined>;
+  // `undefined` deletes the record
+  set: (key: string, record: UsageRecord | undefined) => Promise<void>;
+}
+
+interface LimitPolicy {
+  label: string;
+  cooldownMs: number;
+  dailyLimit: number;
+  // Daily cap per client IP, which throwaway wallets and device IDs can't reset
+  ipDailyLimit: number;
+}
+
+const minutes = (value: string | undefined, fallback: string) => Number(value || fallback) * 60_000;
+
+// Limits per action, configurable through server env vars
+export const RATE_LIMITS: Record<LimitedAction, LimitPolicy> = {
+  faucet: {
+    label: 'faucet',
+    cooldownMs: minutes(process.env.FAUCET_COOLDOWN_MINUTES, '60'),
+    dailyLimit: Number(process.env.FAUCET_DAILY_LIMIT || 3),
+    ipDailyLimit: Number(process.env.FAUCET_IP_DAILY_LIMIT || 10),
+  },
+  claim: {
+    label: 'reward claim',
+    cooldownMs: minutes(process.env.CLAIM_COOLDOWN_MINUTES, '10'),
+    dailyLimit: Number(process.env.CLAIM_DAILY_LIMIT || 5),
+    ipDailyLimit: Number(process.env.CLAIM_IP_DAILY_LIMIT || 20),
+  },
+  relay: {
+    label: 'gasless deposit',
+    cooldownMs: minutes(process.env.RELAYER_COOLDOWN_MINUTES, '0'),
+    dailyLimit: Number(process.env.RELAYER_DAILY_LIMIT || 3),
+    ipDailyLimit: Number(process.env.RELAYER_IP_DAILY_LIMIT || 10),
+  },
+};
+
+// Process-local store, kept on globalThis so dev-server reloads don't wipe it
+export const createMemoryStore = (): RateLimitStore => {
+  const globalStore = globalThis as typeof globalThis & { __burgerbrowsRateLimits?: Map<string, UsageRecord> };
+  const records = (globalStore.__burgerbrowsRateLimits ??= new Map<string, UsageRecord>());
+  return {
+    get: async key => records.get(key),
+    set: async (key, record) => {
+      if (record) records.set(key, record);
+      else records.delete(key);
+    },
+  };
+};
+
+// JSON file store that survives server restarts; fine for a single local instance
+export const createFileStore = (path: string): RateLimitStore => {
+  let records: Promise<Record<string, UsageRecord>> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    records ??= readFile(path, 'utf8')
+      .then(text => JSON.parse(text) as Record<string, UsageRecord>)
+      .catch(() => ({}));
+    return records;
+  };
+
+  return {
+    get: async key => (await load())[key],
+    set: async (key, record) => {
+      const current = await load();
+      if (record) current[key] = record;
+      else delete current[key];
+      writing = writing.then(() => writeFile(path, JSON.stringify(current)));
+      await writing;
+    },
+  };
+};
+
+const createStore = (): RateLimitStore => {
+  const kind = process.env.RATE_LIMIT_STORE || 'memory';
+  if (kind === 'file') return createFileStore(process.env.RATE_LIMIT_FILE || '.burgerbrows-rate-limits.json');
+  if (kind === 'memory') return createMemoryStore();
+  throw new Error(`Unknown RATE_LIMIT_STORE: ${kind}`);
+};
+
+let store: RateLimitStore | null = null;
+const getStore = () => (store ??= createStore());
+
+const dayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Midnight UTC after `time`, when daily limits reset
+export const startOfNextDay = (time: number) => {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+};
+
+// Proxies in front of the server that append the address they saw to X-Forwarded-For: 1 on Vercel or behind a
+// single load balancer. With none configured the header comes straight from the client and is ignored.
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS || 0);
+
+// The caller's IP: the X-Forwarded-For entry the outermost trusted proxy added. Entries left of it are whatever the
+// client sent, so they are never used. Null when no proxy is trusted (local dev) or the header is missing.
+export const clientIp = (request: Request, trustedHops = TRUSTED_PROXY_HOPS) => {
+  if (trustedHops < 1) return null;
+  const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+  const ip = hops.length >= trustedHops ? hops[hops.length - trustedHops] : '';
+  return isIP(ip) ? ip : null;
+};
+
+// Subjects an action is limited by: the wallet address, the device that asked and, when known, its IP.
+// Addresses and device IDs are chosen by the client, so only the IP stops a loop of fresh throwaway wallets.
+export const limitSubjects = (address: string, deviceId: string | undefined, ip: string | null) => {
+  if (!deviceId || !/^[0-9a-z]{8,64}$/i.test(deviceId)) {
+    throw new ApiError('A valid device ID is required', 400);
+  }
+  const subjects = [`address:${address.toLowerCase()}`, `device:${deviceId.toLowerCase()}`];
+  return ip ? [...subjects, `ip:${ip.toLowerCase()}`] : subjects;
+};
+
+// Everyone behind one NAT shares an IP, so IPs get no cooldown and a looser daily cap
+const policyFor = (action: LimitedAction, subject: string): LimitPolicy => {
+  const policy = RATE_LIMITS[action];
+  return subject.startsWith('ip:') ? { ...policy, cooldownMs: 0, dailyLimit: policy.ipDailyLimit } : policy;
+};
+
+const statusOf = (record: UsageRecord | undefined, policy: LimitPolicy, now: number): RateLimitStatus => {
+  const usedToday = record?.day === dayKey(now) ? record.count : 0;
+  const cooldownEnd = record ? record.lastAt + policy.cooldownMs : 0;
+  const dailyEnd = usedToday >= policy.dailyLimit ? startOfNextDay(now) : 0;
+  const next = Math.max(cooldownEnd, dailyEnd);
+  return {
+    nextAvailableAt: next > now ? next : null,
+    usedToday,
+    dailyLimit: policy.dailyLimit,
+    cooldownMs: policy.cooldownMs,
+  };
+};
+
+// The strictest status across all subjects: the one blocked longest, otherwise the one with the fewest uses left
+const combinedStatus = async (action: LimitedAction, subjects: string[], now: number) => {
+  const records = await Promise.all(subjects.map(subject => getStore().get(`${action}:${subject}`)));
+  return records
+    .map((record, index) => statusOf(record, policyFor(action, subjects[index]), now))
+    .reduce((strictest, status) => {
+      const blockedUntil = status.nextAvailableAt ?? 0;
+      const strictestBlockedUntil = strictest.nextAvailableAt ?? 0;
+      if (blockedUntil !== strictestBlockedUntil) {
+        return blockedUntil > strictestBlockedUntil ? status : strictest;
+      }
+      return status.dailyLimit - status.usedToday < strictest.dailyLimit - strictest.usedToday ? status : strictest;
+    });
+};
+
+export const getRateLimitStatuses = async (subjects: string[]): Promise<RateLimitStatuses> => {
+  const now = Date.now();
+  const [faucet, claim, relay] = await Promise.all([
+    combinedStatus('faucet', subjects, now),
+    combinedStatus('claim', subjects, now),
+    combinedStatus('relay', subjects, now),
+  ]);
+  return { faucet, claim, relay };
+};
+
+// Reservations and releases run one at a time so concurrent requests can't both slip under a limit
+// or overwrite each other's counts
+let reserving: Promise<unknown> = Promise.resolve();
+
+const serialized = <T>(task: () => Promise<T>) => {
+  const run = reserving.then(task, task);
+  reserving = run.catch(() => undefined);
+  return run;
+};
+
+// Undo one use counted at `at`, leaving uses other requests counted since then in place
+const releaseUse = async (key: string, at: number, lastAtBefore: number | undefined) => {
+  const record = await getStore().get(key);
+  if (!record || record.day !== dayKey(at) || record.count < 1) return;
+  const count = record.count - 1;
+  // Only roll back the cooldown when no later use has moved it on
+  const lastAt = record.lastAt === at ? lastAtBefore : record.lastAt;
+  await getStore().set(key, count > 0 || lastAt ? { lastAt: lastAt ?? 0, day: record.day, count } : undefined);
+};
+
+// Count a use of the action now, or throw RateLimitError; call release() if the action then fails
+export const reserveRateLimit = (action: LimitedAction, subjects: string[]) => serialized(async () => {
+  const policy = RATE_LIMITS[action];
+  const now = Date.now();
+  const status = await combinedStatus(action, subjects, now);
+  if (status.nextAvailableAt) {
+    const wait = formatDuration(status.nextAvailableAt - now);
+    throw new RateLimitError(
+      status.usedToday >= status.dailyLimit
+        ? `Daily ${policy.label} limit of ${status.dailyLimit} reached. Try again in ${wait}.`
+        : `The ${policy.label} is cooling down. Try again in ${wait}.`,
+      status.nextAvailableAt
+    );
+  }
+
+  const keys = subjects.map(subject => `${action}:${subject}`);
+  const previous = await Promise.all(keys.map(key => getStore().get(key)));
+  await Promise.all(keys.map((key, index) => {
+    const usedToday = previous[index]?.day === dayKey(now) ? previous[index].count : 0;
+    return getStore().set(key, { lastAt: now, day: dayKey(now), count: usedToday + 1 });
+  }));
+  return {
+    release: () => serialized(() =>
+      Promise.all(keys.map((key, index) => releaseUse(key, now, previous[index]?.lastAt))).then(() => undefined)
+    ),
+  };
+});
@@ -0,0 +1,222 @@
+import { ethers } from 'ethers';
+import { createBrowserVaultClient, createMockUsdcClient } from '@/lib/contractClients';
+import { USDC_DECIMALS } from '@/lib/contracts';
+import {
+  browserVaultDomain,
+  DEPOSIT_INTENT_TYPES,
+  PERMIT_TYPES,
+  permitDomain,
+  type DepositIntent,
+  type RelayDepositRequest,
+} from '@/lib/gasless';
+import { getNetworkByChainId, type NetworkConfig } from '@/lib/networks';
+import { ApiError, getHackathonWallet, RateLimitError } from '@/lib/server/hackathonWallet';
+import { reserveRateLimit, startOfNextDay } from '@/lib/server/rateLimit';
+
+// Gas the relayer will spend per user and in total per day, configurable through server env vars.
+// How many relays an address, device or IP gets a day is the 'relay' rate limit.
+export const RELAY_BUDGET = {
+  dailyGas: ethers.parseEther(process.env.RELAYER_DAILY_GAS_BUDGET_ETH || '0.005'),
+  globalDailyGas: ethers.parseEther(process.env.RELAYER_GLOBAL_DAILY_GAS_BUDGET_ETH || '0.05'),
+};
+
+// Budget key for the relayer's spending across all users
+const ALL_USERS = '*';
+
+interface BudgetRecord {
+  day: string;
+  spent: bigint;
+}
+
+interface RelayerState {
+  budgets: Map<string, BudgetRecord>;
+  // Digests of relayed intents until their deadline, so a resubmission is refused before the chain nonce moves
+  relayed: Map<string, number>;
+  // Users with a relay in flight; a second one would only revert and waste gas
+  inFlight: Set<string>;
+}
+
+// Relayer state, kept on globalThis like the reward ledger
+const globalRelayer = globalThis as typeof globalThis & { __burgerbrowsRelayer?: RelayerState };
+const relayer = (globalRelayer.__burgerbrowsRelayer ??= { budgets: new Map(), relayed: new Map(), inFlight: new Set() });
+
+const dayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const isUint = (value: unknown): value is string => typeof value === 'string' && /^\d+$/.test(value);
+const isSignature = (value: unknown): value is string => typeof value === 'string' && ethers.isHexString(value, 65);
+
+// Read and validate a relayed deposit request body
+export const readRelayRequest = async (request: Request) => {
+  let body: Partial<RelayDepositRequest>;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError('Request body must be JSON', 400);
+  }
+
+  const network = getNetworkByChainId(Number(body.chainId));
+  if (!network) {
+    throw new ApiError(`Unsupported chain ID: ${body.chainId}`, 400);
+  }
+  const intent = body.intent as Partial<DepositIntent> | undefined;
+  if (
+    !intent ||
+    typeof intent.user !== 'string' ||
+    !ethers.isAddress(intent.user) ||
+    !isUint(intent.amount) ||
+    BigInt(intent.amount) === BigInt(0) ||
+    !isUint(intent.nonce) ||
+    typeof intent.deadline !== 'number'
+  ) {
+    throw new ApiError('A valid deposit intent is required', 400);
+  }
+  if (!isSignature(body.intentSignature) || !isSignature(body.permitSignature) || typeof body.permitDeadline !== 'number') {
+    throw new ApiError('Deposit intent and permit signatures are required', 400);
+  }
+
+  return {
+    network,
+    intent: { ...intent, user: ethers.getAddress(intent.user) } as DepositIntent,
+    intentSignature: body.intentSignature,
+    permitDeadline: body.permitDeadline,
+    permitSignature: body.permitSignature,
+    deviceId: typeof body.deviceId === 'string' ? body.deviceId : undefined,
+  };
+};
+
+// Today's gas spent for a user or ALL_USERS, starting fresh each UTC day
+const getBudget = (key: string, now: number): BudgetRecord => {
+  const record = relayer.budgets.get(key);
+  return record?.day === dayKey(now) ? record : { day: dayKey(now), spent: BigInt(0) };
+};
+
+// Add gas to the user's and the total budget; negative amounts settle an up-front charge
+const charge = (user: string, amount: bigint) => {
+  const now = Date.now();
+  relayer.budgets.forEach((record, key) => {
+    if (record.day !== dayKey(now)) relayer.budgets.delete(key);
+  });
+  [user, ALL_USERS].forEach(key => {
+    const current = getBudget(key, now);
+    const spent = current.spent + amount;
+    relayer.budgets.set(key, { ...current, spent: spent > BigInt(0) ? spent : BigInt(0) });
+  });
+};
+
+const pruneRelayed = (nowSeconds: number) => {
+  relayer.relayed.forEach((deadline, digest) => {
+    if (deadline < nowSeconds) relayer.relayed.delete(digest);
+  });
+};
+
+// Verify a user's signed deposit intent and permit, then submit them with the hackathon wallet paying the gas.
+// `subjects` are the rate-limit subjects of the request, reserved only once the relay is about to be sent.
+export const relayDeposit = async (
+  network: NetworkConfig,
+  intent: DepositIntent,
+  intentSignature: string,
+  permitDeadline: number,
+  permitSignature: string,
+  subjects: string[]
+) => {
+  const { MOCK_USDC, BROWSER_VAULT } = network.contracts;
+  if (!MOCK_USDC || !BROWSER_VAULT) {
+    throw new ApiError(`Contract addresses not configured for ${network.name}`);
+  }
+  const now = Date.now();
+  const nowSeconds = Math.floor(now / 1000);
+  if (intent.deadline <= nowSeconds || permitDeadline <= nowSeconds) {
+    throw new ApiError('Deposit intent has expired. Sign a new one.', 400);
+  }
+
+  const vaultDomain = browserVaultDomain(network.chainId, BROWSER_VAULT);
+  if (ethers.verifyTypedData(vaultDomain, DEPOSIT_INTENT_TYPES, intent, intentSignature) !== intent.user) {
+    throw new ApiError('Deposit intent was not signed by the depositor', 400);
+  }
+
+  // Replay protection: each intent is relayed once, one at a time per user
+  pruneRelayed(nowSeconds);
+  const digest = ethers.TypedDataEncoder.hash(vaultDomain, DEPOSIT_INTENT_TYPES, intent);
+  if (relayer.relayed.has(digest)) {
+    throw new ApiError('This deposit intent was already relayed', 409);
+  }
+  const userKey = intent.user.toLowerCase();
+  if (relayer.inFlight.has(userKey)) {
+    throw new ApiError('A gasless deposit for this account is already in progress', 409);
+  }
+
+  relayer.inFlight.add(userKey);
+  try {
+    const signer = getHackathonWallet(network);
+    const usdc = createMockUsdcClient(MOCK_USDC, signer);
+    const vault = createBrowserVaultClient(BROWSER_VAULT, signer);
+    const amount = BigInt(intent.amount);
+
+    const [depositNonce, permitNonce, tokenName, balance] = await Promise.all([
+      vault.depositNonces(intent.user),
+      usdc.nonces(intent.user),
+      usdc.name(),
+      usdc.balanceOf(intent.user),
+    ]);
+    if (depositNonce.toString() !== intent.nonce) {
+      throw new ApiError('Deposit intent nonce is stale. Sign a new one.', 409);
+    }
+    const permitSigner = ethers.verifyTypedData(
+      permitDomain(tokenName, network.chainId, MOCK_USDC),
+      PERMIT_TYPES,
+      { owner: intent.user, spender: BROWSER_VAULT, value: amount, nonce: permitNonce, deadline: permitDeadline },
+      permitSignature
+    );
+    if (permitSigner !== intent.user) {
+      throw new ApiError('USDC permit was not signed by the depositor', 400);
+    }
+    if (balance < amount) {
+      throw new ApiError(`Insufficient balance. Have ${ethers.formatUnits(balance, USDC_DECIMALS)} USDC`, 400);
+    }
+
+    // Budget check against the worst-case cost of this relay
+    const call = vault.depositWithPermit(intent, intentSignature, permitDeadline, permitSignature);
+    const [gasLimit, feeData] = await Promise.all([signer.estimateGas(call), signer.provider!.getFeeData()]);
+    const maxCost = gasLimit * (feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0));
+
+    const { release } = await reserveRateLimit('relay', subjects);
+    const checkedAt = Date.now();
+    if (getBudget(userKey, checkedAt).spent + maxCost > RELAY_BUDGET.dailyGas) {
+      await release();
+      throw new RateLimitError('Daily gasless deposit budget used up. Add ETH to pay gas yourself.', startOfNextDay(checkedAt));
+    }
+    if (getBudget(ALL_USERS, checkedAt).spent + maxCost > RELAY_BUDGET.globalDailyGas) {
+      await release();
+      throw new RateLimitError(
+        'Gasless deposits are used up for today across BurgerBrows. Add ETH to pay gas yourself.',
+        startOfNextDay(checkedAt)
+      );
+    }
+    // Charged up front so concurrent relays can't overrun the budgets, then settled to the real cost
+    charge(userKey, maxCost);
+
+    let tx: ethers.TransactionResponse;
+    try {
+      tx = await signer.sendTransaction({ ...call, gasLimit });
+    } catch (error) {
+      charge(userKey, -maxCost);
+      await release();
+      throw error;
+    }
+    relayer.relayed.set(digest, intent.deadline);
+    // wait() throws on a revert; the gas is spent either way, so fall back to the raw receipt
+    const receipt = await tx.wait().catch(() => signer.provider!.getTransactionReceipt(tx.hash));
+    if (receipt) charge(userKey, receipt.gasUsed * receipt.gasPrice - maxCost);
+    if (!receipt || receipt.status !== 1) {
+      throw new ApiError('Relayed deposit reverted', 502);
+    }
+
+    return {
+      hash: tx.hash,
+      blockNumber: receipt.blockNumber,
+      amount: ethers.formatUnits(amount, USDC_DECIMALS),
+    };
+  } finally {
+    relayer.inFlight.delete(userKey);
+  }
+};
@@ -0,0 +1,219 @@
+import { ethers } from 'ethers';
+import { USDC_DECIMALS } from '@/lib/contracts';
+import {
+  ACTIVITY_DOMAIN,
+  ACTIVITY_KEY_GRANT_TYPES,
+  ACTIVITY_REPORT_TYPES,
+  getActivityDomain,
+  type ActivityReport,
+  type RewardSummary,
+  type SignedActivityReport,
+} from '@/lib/activity';
+import type { NetworkConfig } from '@/lib/networks';
+import { ApiError } from '@/lib/server/hackathonWallet';
+
+// Accrual rules, configurable through server env vars (USDC amounts)
+const parseRule = (value: string | undefined, fallback: string) =>
+  ethers.parseUnits(value || fallback, USDC_DECIMALS);
+
+export const REWARD_RULES = {
+  ratePerMinute: parseRule(process.env.REWARD_RATE_PER_MINUTE, '0.1'),
+  domainCap: parseRule(process.env.REWARD_DOMAIN_DAILY_CAP, '1'),
+  dailyCap: parseRule(process.env.REWARD_DAILY_CAP, '5'),
+};
+
+// Reports arriving later than this after the previous one are only credited up to it, and sessions that stay
+// silent for longer are dropped
+const MAX_REPORT_GAP_MS = 2 * 60 * 1000;
+
+// Reports whose sentAt is further than this from the server clock are refused
+const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+interface SessionRecord {
+  domain: string;
+  lastReportAt: number;
+  lastSentAt: number;
+  ended: boolean;
+}
+
+interface DayRecord {
+  total: bigint;
+  domains: Record<string, bigint>;
+}
+
+interface LedgerEntry {
+  accrued: bigint;
+  // Visible time up to here has been credited, by whichever session reported it
+  creditedUntil: number;
+  days: Record<string, DayRecord>;
+  sessions: Record<string, SessionRecord>;
+}
+
+interface LedgerState {
+  // Per network and address, keyed like the reward vouchers they pay out through
+  entries: Map<string, LedgerEntry>;
+  lastSweepAt: number;
+}
+
+// In-memory ledger, kept on globalThis so dev-server reloads don't wipe it
+const globalLedger = globalThis as typeof globalThis & { __burgerbrowsLedger?: LedgerState };
+const ledger = (globalLedger.__burgerbrowsLedger ??= { entries: new Map(), lastSweepAt: 0 });
+
+const dayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const entryKey = (network: NetworkConfig, address: string) => `${network.id}:${address.toLowerCase()}`;
+
+const emptyEntry = (): LedgerEntry => ({ accrued: BigInt(0), creditedUntil: 0, days: {}, sessions: {} });
+
+const getEntry = (network: NetworkConfig, address: string) => {
+  const key = entryKey(network, address);
+  let entry = ledger.entries.get(key);
+  if (!entry) {
+    entry = emptyEntry();
+    ledger.entries.set(key, entry);
+  }
+  return entry;
+};
+
+const getDay = (entry: LedgerEntry, time: number) => {
+  const key = dayKey(time);
+  entry.days[key] ??= { total: BigInt(0), domains: {} };
+  return entry.days[key];
+};
+
+// Drop silent sessions and past days, then entries left with nothing to remember. Anyone can open sessions
+// with fresh addresses and keys, so nothing may stay in memory on their word alone.
+const sweepLedger = (now: number) => {
+  if (now - ledger.lastSweepAt < MAX_REPORT_GAP_MS) return;
+  ledger.lastSweepAt = now;
+  const today = dayKey(now);
+  ledger.entries.forEach((entry, key) => {
+    Object.keys(entry.sessions).forEach(sessionId => {
+      if (now - entry.sessions[sessionId].lastReportAt > MAX_REPORT_GAP_MS) delete entry.sessions[sessionId];
+    });
+    Object.keys(entry.days).forEach(day => {
+      if (day !== today) delete entry.days[day];
+    });
+    const earnedToday = entry.days[today]?.total ?? BigInt(0);
+    if (Object.keys(entry.sessions).length === 0 && entry.accrued === BigInt(0) && earnedToday === BigInt(0)) {
+      ledger.entries.delete(key);
+    }
+  });
+};
+
+const format = (amount: bigint) => ethers.formatUnits(amount, USDC_DECIMALS);
+
+const minBigInt = (...values: bigint[]) => values.reduce((min, value) => (value < min ? value : min));
+
+// Summarize an address's ledger on a network for the client
+export const getRewardSummary = (network: NetworkConfig, address: string, credited?: bigint): RewardSummary => {
+  const entry = ledger.entries.get(entryKey(network, address)) ?? emptyEntry();
+  const today = entry.days[dayKey(Date.now())] ?? { total: BigInt(0) };
+  return {
+    address,
+    accrued: format(entry.accrued),
+    earnedToday: format(today.total),
+    dailyCap: format(REWARD_RULES.dailyCap),
+    ratePerMinute: format(REWARD_RULES.ratePerMinute),
+    domainCap: format(REWARD_RULES.domainCap),
+    ...(credited !== undefined && { credited: format(credited) }),
+  };
+};
+
+// Check that a heartbeat was signed by an activity key its account authorized, and is fresh
+export const verifyActivityReport = ({ grant, grantSignature, signature, ...report }: SignedActivityReport): ActivityReport => {
+  const now = Date.now();
+  if (grant.account.toLowerCase() !== report.address.toLowerCase()) {
+    throw new ApiError('Activity key was authorized for a different account', 401);
+  }
+  if (grant.expiresAt * 1000 <= now) {
+    throw new ApiError('Activity key has expired. Authorize a new one.', 401);
+  }
+  if (Math.abs(now - report.sentAt) > MAX_CLOCK_SKEW_MS) {
+    throw new ApiError('Activity report is too old or from the future', 400);
+  }
+  try {
+    if (ethers.verifyTypedData(ACTIVITY_DOMAIN, ACTIVITY_KEY_GRANT_TYPES, grant, grantSignature) !== ethers.getAddress(grant.account)) {
+      throw new ApiError('Activity key was not authorized by this account', 401);
+    }
+    if (ethers.verifyTypedData(ACTIVITY_DOMAIN, ACTIVITY_REPORT_TYPES, report, signature) !== ethers.getAddress(grant.activityKey)) {
+      throw new ApiError('Activity report was not signed by the authorized key', 401);
+    }
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    throw new ApiError('Activity report signature is malformed', 400);
+  }
+  return report;
+};
+
+// Credit a visit heartbeat, clamping visible time to what the server has actually observed.
+// Time is credited per address, so parallel sessions share one clock instead of each earning the full rate.
+export const recordActivity = (network: NetworkConfig, report: ActivityReport) => {
+  const now = Date.now();
+  sweepLedger(now);
+  const entry = getEntry(network, report.address);
+  const session = entry.sessions[report.sessionId];
+
+  if (!session) {
+    // First report opens the session; time before the server saw it is never credited, so a session that
+    // ends with its first report has nothing to keep
+    if (!report.ended) {
+      entry.sessions[report.sessionId] = {
+        domain: getActivityDomain(report.url),
+        lastReportAt: now,
+        lastSentAt: report.sentAt,
+        ended: false,
+      };
+    }
+    return getRewardSummary(network, report.address, BigInt(0));
+  }
+  if (session.ended) {
+    throw new ApiError('Session already ended', 409);
+  }
+  if (report.sentAt <= session.lastSentAt) {
+    throw new ApiError('Activity report was already received', 409);
+  }
+
+  const since = Math.max(session.lastReportAt, entry.creditedUntil);
+  const elapsed = Math.min(Math.max(0, now - since), MAX_REPORT_GAP_MS);
+  const visibleMs = Math.max(0, Math.min(report.visibleMs, elapsed));
+  session.lastReportAt = now;
+  session.lastSentAt = report.sentAt;
+  session.ended = report.ended;
+  if (visibleMs > 0) entry.creditedUntil = now;
+
+  const day = getDay(entry, now);
+  const domainTotal = day.domains[session.domain] ?? BigInt(0);
+  const earned = (REWARD_RULES.ratePerMinute * BigInt(Math.floor(visibleMs))) / BigInt(60_000);
+  const credited = minBigInt(
+    earned,
+    REWARD_RULES.domainCap - domainTotal,
+    REWARD_RULES.dailyCap - day.total
+  );
+
+  if (credited > BigInt(0)) {
+    day.domains[session.domain] = domainTotal + credited;
+    day.total += credited;
+    entry.accrued += credited;
+  }
+  if (session.ended) {
+    delete entry.sessions[report.sessionId];
+  }
+
+  return getRewardSummary(network, report.address, credited > BigInt(0) ? credited : BigInt(0));
+};
+
+// Take the whole accrued balance on a network for payout; call restoreAccrued if the payout fails
+export const takeAccrued = (network: NetworkConfig, address: string) => {
+  const entry = ledger.entries.get(entryKey(network, address));
+  const amount = entry?.accrued ?? BigInt(0);
+  if (!entry || amount === BigInt(0)) {
+    throw new ApiError('No rewards accrued yet. Keep browsing to earn USDC!', 400);
+  }
+  entry.accrued = BigInt(0);
+  return amount;
+};
+
+export const restoreAccrued = (network: NetworkConfig, address: string, amount: bigint) => {
+  getEntry(network, address).accrued += amount;
+};
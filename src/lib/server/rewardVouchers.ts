@@ -0,0 +1,105 @@
+import { ethers } from 'ethers';
+import { USDC_DECIMALS } from '@/lib/contracts';
+import type { NetworkConfig } from '@/lib/networks';
+import {
+  getRewardPool,
+  REWARD_VOUCHER_TYPES,
+  rewardPoolDomain,
+  VOUCHER_TTL_SECONDS,
+  type RewardVoucher,
+  type SignedRewardVoucher,
+} from '@/lib/rewardPool';
+import { ApiError, getHackathonWallet } from '@/lib/server/hackathonWallet';
+import { restoreAccrued, takeAccrued } from '@/lib/server/rewardLedger';
+
+// A voucher is not handed out again if it expires within this margin, nor replaced until it has expired
+const REISSUE_MARGIN_SECONDS = 60;
+
+// Outstanding vouchers per network and address, kept on globalThis like the reward ledger.
+// Only one may exist at a time so accrued rewards can never be claimed twice.
+const globalVouchers = globalThis as typeof globalThis & { __burgerbrowsVouchers?: Map<string, SignedRewardVoucher> };
+const vouchers = (globalVouchers.__burgerbrowsVouchers ??= new Map<string, SignedRewardVoucher>());
+
+const voucherKey = (network: NetworkConfig, address: string) => `${network.id}:${address.toLowerCase()}`;
+
+const randomNonce = () => BigInt(ethers.hexlify(ethers.randomBytes(32))).toString();
+
+const getSigningPool = (network: NetworkConfig) => {
+  const poolAddress = network.contracts.REWARD_POOL;
+  if (!poolAddress) {
+    throw new ApiError(`RewardPool contract not configured for ${network.name}`);
+  }
+  const signer = getHackathonWallet(network);
+  return { poolAddress, signer, pool: getRewardPool(poolAddress, signer) };
+};
+
+// The address's unused voucher, if any. A used one is forgotten; an unused one only gives its rewards back to
+// the ledger once its deadline has passed, since until then it can still be claimed on-chain.
+export const findOutstandingVoucher = async (network: NetworkConfig, address: string) => {
+  const key = voucherKey(network, address);
+  const outstanding = vouchers.get(key);
+  if (!outstanding) return null;
+
+  const { pool } = getSigningPool(network);
+  const used: boolean = await pool.isVoucherUsed(outstanding.voucher.nonce);
+  if (used) {
+    vouchers.delete(key);
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const { deadline } = outstanding.voucher;
+  if (deadline > now + REISSUE_MARGIN_SECONDS) {
+    return outstanding;
+  }
+  if (deadline >= now) {
+    // Too close to expiry to hand out, yet still valid: a replacement now could be claimed alongside it
+    throw new ApiError(`Your last reward voucher expires in ${deadline - now + 1}s. Claim again after that.`, 409);
+  }
+  vouchers.delete(key);
+  restoreAccrued(network, address, BigInt(outstanding.voucher.amount));
+  return null;
+};
+
+// Hand out the address's accrued rewards as a signed voucher for the RewardPool
+export const issueRewardVoucher = async (network: NetworkConfig, address: string): Promise<SignedRewardVoucher> => {
+  const { poolAddress, signer, pool } = getSigningPool(network);
+
+  // Re-issue an unused voucher instead of signing a second one
+  const outstanding = await findOutstandingVoucher(network, address);
+  if (outstanding) {
+    return outstanding;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const key = voucherKey(network, address);
+  const rewardSigner: string = await pool.rewardSigner();
+  if (rewardSigner.toLowerCase() !== signer.address.toLowerCase()) {
+    throw new ApiError('Hackathon wallet is not the RewardPool reward signer');
+  }
+
+  const amount = takeAccrued(network, address);
+  try {
+    const poolBalance: bigint = await pool.poolBalance();
+    if (poolBalance < amount) {
+      throw new ApiError(
+        `Reward pool is underfunded. Available: ${ethers.formatUnits(poolBalance, USDC_DECIMALS)} USDC`,
+        503
+      );
+    }
+
+    const voucher: RewardVoucher = {
+      account: address,
+      amount: amount.toString(),
+      nonce: randomNonce(),
+      deadline: now + VOUCHER_TTL_SECONDS,
+    };
+    const signature = await signer.signTypedData(rewardPoolDomain(network.chainId, poolAddress), REWARD_VOUCHER_TYPES, voucher);
+    const signed = { voucher, signature, amount: ethers.formatUnits(amount, USDC_DECIMALS) };
+    vouchers.set(key, signed);
+    return signed;
+  } catch (error) {
+    restoreAccrued(network, address, amount);
+    throw error;
+  }
+};
@@ -0,0 +1,28 @@
+import { ethers } from 'ethers';
+import type { UserWallet } from '@/lib/keystore';
+
+// Built-in device wallet, a private session's throwaway wallet, or a wallet connected through RainbowKit
+export type SignerSource = 'device' | 'private' | 'external';
+
+// Whatever signs the active account's transactions
+export interface ActiveSigner {
+  source: SignerSource;
+  address: string;
+  // Shown in the wallet popup, e.g. the account label or "MetaMask"
+  name: string;
+  getSigner: (provider: ethers.JsonRpcProvider) => Promise<ethers.Signer>;
+}
+
+export const SIGNER_SOURCE_LABELS: Record<SignerSource, string> = {
+  device: 'Built-in device wallet',
+  private: 'Private session wallet',
+  external: 'External wallet',
+};
+
+// Sign with an in-memory private key: an unlocked keystore account or a private session's wallet
+export const createDeviceSigner = (wallet: UserWallet): ActiveSigner => ({
+  source: wallet.source === 'ephemeral' ? 'private' : 'device',
+  address: wallet.address,
+  name: wallet.label,
+  getSigner: async provider => new ethers.Wallet(wallet.privateKey, provider),
+});
@@ -0,0 +1,180 @@
+import { isProxyUrl, fromProxyUrl } from '@/lib/proxy';
+
+const DOMAIN_LIST_STORAGE_KEY = 'burgerbrows_domain_list';
+
+// Where the blocklist is refreshed from; the bundled copy lives in public/
+export const DOMAIN_BLOCKLIST_URL = process.env.NEXT_PUBLIC_DOMAIN_BLOCKLIST_URL || '/domain-blocklist.json';
+
+// Refresh the blocklist when the cached copy is older than this
+export const DOMAIN_LIST_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export type ThreatCategory = 'phishing' | 'drainer' | 'malware' | 'user';
+
+export interface BlockedDomain {
+  domain: string;
+  category: ThreatCategory;
+  // Shown on the warning page
+  description?: string;
+}
+
+export interface DomainList {
+  // Entries from the published blocklist, replaced on every update
+  blocked: BlockedDomain[];
+  // Domains the user flagged or trusted themselves; these survive updates
+  userBlocked: BlockedDomain[];
+  allowed: string[];
+  // When the published blocklist was last fetched
+  updatedAt: number;
+}
+
+// Shape of the published blocklist file
+interface PublishedBlocklist {
+  blocked: BlockedDomain[];
+}
+
+export const EMPTY_DOMAIN_LIST: DomainList = { blocked: [], userBlocked: [], allowed: [], updatedAt: 0 };
+
+export const THREAT_LABELS: Record<ThreatCategory, string> = {
+  phishing: 'Phishing site',
+  drainer: 'Wallet drainer',
+  malware: 'Malware',
+  user: 'Blocked by you',
+};
+
+// internal: a BurgerBrows page. proxied: fetched by the BurgerBrows server, so the browser never sees the site's certificate.
+export type SecurityLevel = 'internal' | 'secure' | 'proxied' | 'insecure' | 'dangerous';
+
+export interface SiteSecurity {
+  level: SecurityLevel;
+  icon: string;
+  summary: string;
+  // Hostname of an external page
+  hostname?: string;
+  threat?: BlockedDomain;
+}
+
+export const normalizeDomain = (domain: string) => domain.trim().toLowerCase().replace(/^\*\./, '').replace(/\.$/, '');
+
+// Hostname of an absolute URL or origin, or null for internal paths and unparseable input
+export const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+// A hostname matches a listed domain and all of its subdomains
+const matchesDomain = (hostname: string, domain: string) => hostname === domain || hostname.endsWith(`.${domain}`);
+
+// The blocklist entry covering a URL or origin, unless the user allowed that site
+export const findThreat = (list: DomainList, url: string): BlockedDomain | null => {
+  const hostname = hostnameOf(fromProxyUrl(url));
+  if (!hostname) return null;
+  if (list.allowed.some(domain => matchesDomain(hostname, domain))) return null;
+  return [...list.userBlocked, ...list.blocked].find(entry => matchesDomain(hostname, entry.domain)) ?? null;
+};
+
+// Security of a page as loaded in a tab; `url` is the tab's URL, which is a proxy URL for proxied pages
+export const evaluateSiteSecurity = (url: string, list: DomainList): SiteSecurity => {
+  if (url.startsWith('/') && !isProxyUrl(url)) {
+    return { level: 'internal', icon: '🍔', summary: 'BurgerBrows page' };
+  }
+  const target = fromProxyUrl(url);
+  const hostname = hostnameOf(target) ?? target;
+  const threat = findThreat(list, target);
+  if (threat) {
+    return { level: 'dangerous', icon: '⛔', summary: `${THREAT_LABELS[threat.category]}: ${threat.description ?? 'reported as unsafe'}`, hostname, threat };
+  }
+  if (!target.startsWith('https:')) {
+    return { level: 'insecure', icon: '⚠️', summary: 'Not secure: the connection to this site is not encrypted', hostname };
+  }
+  if (isProxyUrl(url)) {
+    return {
+      level: 'proxied',
+      icon: '🛡️',
+      summary: 'Loaded through the BurgerBrows proxy because this site blocks framing; the server, not your browser, checked its certificate',
+      hostname,
+    };
+  }
+  return { level: 'secure', icon: '🔒', summary: 'Connection is secure (HTTPS)', hostname };
+};
+
+const isBlockedDomain = (value: unknown): value is BlockedDomain => {
+  const entry = value as Partial<BlockedDomain> | null;
+  return typeof entry?.domain === 'string' && entry.domain.trim() !== '' && typeof entry.category === 'string' && entry.category in THREAT_LABELS;
+};
+
+const cleanEntries = (entries: unknown): BlockedDomain[] =>
+  Array.isArray(entries)
+    ? entries.filter(isBlockedDomain).map(entry => ({ ...entry, domain: normalizeDomain(entry.domain) }))
+    : [];
+
+export const loadDomainList = (): DomainList => {
+  try {
+    const stored = localStorage.getItem(DOMAIN_LIST_STORAGE_KEY);
+    if (!stored) return EMPTY_DOMAIN_LIST;
+    const parsed = JSON.parse(stored) as Partial<DomainList>;
+    return {
+      blocked: cleanEntries(parsed.blocked),
+      userBlocked: cleanEntries(parsed.userBlocked),
+      allowed: Array.isArray(parsed.allowed) ? parsed.allowed.filter(domain => typeof domain === 'string') : [],
+      updatedAt: typeof parsed.updatedAt === 'number' ? parsed.updatedAt : 0,
+    };
+  } catch {
+    return EMPTY_DOMAIN_LIST;
+  }
+};
+
+export const saveDomainList = (list: DomainList) => {
+  localStorage.setItem(DOMAIN_LIST_STORAGE_KEY, JSON.stringify(list));
+};
+
+// Entries of a published blocklist file; invalid entries are dropped
+export const parseBlocklist = (data: unknown): BlockedDomain[] =>
+  cleanEntries((data as Partial<PublishedBlocklist> | null)?.blocked);
+
+// Download the published blocklist
+export const fetchBlocklist = async (url = DOMAIN_BLOCKLIST_URL): Promise<BlockedDomain[]> => {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Blocklist update failed with status ${response.status}`);
+  }
+  return parseBlocklist(await response.json());
+};
+
+export const withBlocklist = (list: DomainList, blocked: BlockedDomain[]): DomainList => ({
+  ...list,
+  blocked,
+  updatedAt: Date.now(),
+});
+
+// Trust a domain despite the blocklist
+export const allowDomain = (list: DomainList, domain: string): DomainList => {
+  const normalized = normalizeDomain(domain);
+  return {
+    ...list,
+    allowed: [...list.allowed.filter(entry => entry !== normalized), normalized],
+    userBlocked: list.userBlocked.filter(entry => entry.domain !== normalized),
+  };
+};
+
+// Flag a domain the published list doesn't know about
+export const blockDomain = (list: DomainList, domain: string, description?: string): DomainList => {
+  const normalized = normalizeDomain(domain);
+  return {
+    ...list,
+    allowed: list.allowed.filter(entry => entry !== normalized),
+    userBlocked: [...list.userBlocked.filter(entry => entry.domain !== normalized), { domain: normalized, category: 'user', description }],
+  };
+};
+
+// Remove a domain from the user's own allow and block lists
+export const forgetDomain = (list: DomainList, domain: string): DomainList => {
+  const normalized = normalizeDomain(domain);
+  return {
+    ...list,
+    allowed: list.allowed.filter(entry => entry !== normalized),
+    userBlocked: list.userBlocked.filter(entry => entry.domain !== normalized),
+  };
+};
@@ -0,0 +1,45 @@
+export type SuggestionSource = 'bookmark' | 'history';
+
+// Address bar suggestion drawn from bookmarks or browsing history
+export interface Suggestion {
+  title: string;
+  url: string;
+  source: SuggestionSource;
+}
+
+export const MAX_SUGGESTIONS = 6;
+
+const SOURCE_ORDER: Record<SuggestionSource, number> = { bookmark: 0, history: 1 };
+
+// URL without scheme and www. so "wiki" matches https://www.wikipedia.org
+const bareUrl = (url: string) => url.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '');
+
+// Rank by how well the input matches: URL prefix, title prefix, then anywhere in the URL or title
+const matchScore = (query: string, suggestion: Suggestion) => {
+  const url = bareUrl(suggestion.url);
+  const title = suggestion.title.toLowerCase();
+  if (url.startsWith(query)) return 0;
+  if (title.startsWith(query)) return 1;
+  if (url.includes(query)) return 2;
+  if (title.includes(query)) return 3;
+  return null;
+};
+
+// Best matches for the typed text, one per URL
+export const matchSuggestions = (input: string, candidates: Suggestion[], limit = MAX_SUGGESTIONS) => {
+  const query = bareUrl(input.trim());
+  if (!query) return [];
+
+  const seen = new Set<string>();
+  return candidates
+    .map(suggestion => ({ suggestion, score: matchScore(query, suggestion) }))
+    .filter((match): match is { suggestion: Suggestion; score: number } => match.score !== null)
+    .sort((a, b) => a.score - b.score || SOURCE_ORDER[a.suggestion.source] - SOURCE_ORDER[b.suggestion.source])
+    .map(match => match.suggestion)
+    .filter(suggestion => {
+      if (seen.has(suggestion.url)) return false;
+      seen.add(suggestion.url);
+      return true;
+    })
+    .slice(0, limit);
+};
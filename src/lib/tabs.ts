@@ -0,0 +1,158 @@
+import { fromProxyUrl } from '@/lib/proxy';
+
+// Page opened in new tabs and by the Home button
+export const HOME_URL = '/google-home.html';
+
+// postMessage type the home page uses to hand its search box query to BurgerBrows
+export const HOME_SEARCH_MESSAGE = 'burgerbrows:search';
+
+const TABS_STORAGE_KEY = 'burgerbrows_tabs';
+
+// Cap per-tab history so restored sessions stay small
+const MAX_TAB_HISTORY = 50;
+
+export interface BrowserTab {
+  id: string;
+  title: string;
+  // Visited URLs for back/forward, proxied pages as proxy URLs; the current page is history[historyIndex]
+  history: string[];
+  historyIndex: number;
+  // URL the iframe was pointed at; in-frame link clicks update history but not this
+  src: string;
+  loading: boolean;
+  error: string;
+  // Bumped to remount the tab's iframe on reload
+  reloadCount: number;
+}
+
+interface StoredTabs {
+  tabs: Pick<BrowserTab, 'id' | 'title' | 'history' | 'historyIndex'>[];
+  activeTabId: string;
+}
+
+export interface TabSession {
+  tabs: BrowserTab[];
+  activeTabId: string;
+}
+
+export const tabUrl = (tab: BrowserTab) => tab.history[tab.historyIndex];
+
+// URL shown to the user, unwrapping proxied pages
+export const tabDisplayUrl = (tab: BrowserTab) => fromProxyUrl(tabUrl(tab));
+
+export const canGoBack = (tab: BrowserTab) => tab.historyIndex > 0;
+
+export const canGoForward = (tab: BrowserTab) => tab.historyIndex < tab.history.length - 1;
+
+// Fallback title until the page reports its own
+export const defaultTabTitle = (url: string) => {
+  const pageUrl = fromProxyUrl(url);
+  if (pageUrl.startsWith('/')) return 'BurgerBrows';
+  try {
+    return new URL(pageUrl).hostname.replace(/^www\./, '');
+  } catch {
+    return pageUrl;
+  }
+};
+
+export const createTab = (url = HOME_URL): BrowserTab => ({
+  id: crypto.randomUUID(),
+  title: defaultTabTitle(url),
+  history: [url],
+  historyIndex: 0,
+  src: url,
+  loading: true,
+  error: '',
+  reloadCount: 0,
+});
+
+// Push a URL onto the tab's history, dropping any forward entries
+export const navigateTab = (tab: BrowserTab, url: string): BrowserTab => {
+  if (url === tabUrl(tab)) {
+    return reloadTab(tab);
+  }
+  const history = [...tab.history.slice(0, tab.historyIndex + 1), url].slice(-MAX_TAB_HISTORY);
+  return {
+    ...tab,
+    title: defaultTabTitle(url),
+    history,
+    historyIndex: history.length - 1,
+    src: url,
+    loading: true,
+    error: '',
+  };
+};
+
+// Move through the tab's history by `delta` entries
+export const stepTab = (tab: BrowserTab, delta: number): BrowserTab => {
+  const historyIndex = Math.min(Math.max(tab.historyIndex + delta, 0), tab.history.length - 1);
+  if (historyIndex === tab.historyIndex) return tab;
+  return {
+    ...tab,
+    title: defaultTabTitle(tab.history[historyIndex]),
+    historyIndex,
+    src: tab.history[historyIndex],
+    loading: true,
+    error: '',
+  };
+};
+
+// Record a navigation that happened inside the frame, e.g. a followed link
+export const recordFrameNavigation = (tab: BrowserTab, url: string): BrowserTab => {
+  if (url === tabUrl(tab)) return tab;
+  const history = [...tab.history.slice(0, tab.historyIndex + 1), url].slice(-MAX_TAB_HISTORY);
+  return { ...tab, history, historyIndex: history.length - 1 };
+};
+
+export const reloadTab = (tab: BrowserTab): BrowserTab => ({
+  ...tab,
+  src: tabUrl(tab),
+  loading: true,
+  error: '',
+  reloadCount: tab.reloadCount + 1,
+});
+
+// Move the tab at index `from` to index `to`
+export const moveTab = (tabs: BrowserTab[], from: number, to: number) => {
+  if (from === to || from < 0 || to < 0 || from >= tabs.length || to >= tabs.length) return tabs;
+  const next = [...tabs];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+// A single home tab
+export const createTabSession = (): TabSession => {
+  const tab = createTab();
+  return { tabs: [tab], activeTabId: tab.id };
+};
+
+export const loadTabSession = (): TabSession => {
+  try {
+    const stored = localStorage.getItem(TABS_STORAGE_KEY);
+    if (stored) {
+      const parsed: StoredTabs = JSON.parse(stored);
+      const tabs = parsed.tabs
+        .filter(tab => tab.history.length > 0)
+        .map(tab => {
+          const historyIndex = Math.min(tab.historyIndex, tab.history.length - 1);
+          return { ...tab, historyIndex, src: tab.history[historyIndex], loading: true, error: '', reloadCount: 0 };
+        });
+      if (tabs.length > 0) {
+        const activeTabId = tabs.some(tab => tab.id === parsed.activeTabId) ? parsed.activeTabId : tabs[0].id;
+        return { tabs, activeTabId };
+      }
+    }
+  } catch {
+    // Fall through to a fresh session if the stored tabs are unreadable
+  }
+  return createTabSession();
+};
+
+export const saveTabSession = ({ tabs, activeTabId }: TabSession) => {
+  const stored: StoredTabs = {
+    tabs: tabs.map(({ id, title, history, historyIndex }) => ({ id, title, history, historyIndex })),
+    activeTabId,
+  };
+  localStorage.setItem(TABS_STORAGE_KEY, JSON.stringify(stored));
+};
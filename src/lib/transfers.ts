@@ -0,0 +1,65 @@
+import { ethers } from 'ethers';
+import { MOCK_USDC_ABI } from '@/lib/contracts';
+
+export interface ResolvedRecipient {
+  address: string;
+  ensName?: string;
+}
+
+export interface TransferEstimate {
+  gasLimit: bigint;
+  gasCost: bigint;
+  ethBalance: bigint;
+}
+
+// Validate a checksummed address or resolve an ENS name on networks that support it
+export const resolveRecipient = async (provider: ethers.Provider, input: string): Promise<ResolvedRecipient> => {
+  const value = input.trim();
+  if (!value) throw new Error('Enter a recipient address');
+
+  if (/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    let address: string;
+    try {
+      address = ethers.getAddress(value);
+    } catch {
+      throw new Error('Address checksum is invalid. Check the address for typos.');
+    }
+    if (address === ethers.ZeroAddress) throw new Error('Cannot send to the zero address');
+    return { address };
+  }
+
+  if (value.includes('.')) {
+    let address: string | null;
+    try {
+      address = await provider.resolveName(value);
+    } catch (error) {
+      if (ethers.isError(error, 'UNSUPPORTED_OPERATION')) {
+        throw new Error('ENS names are not supported on this network');
+      }
+      throw error;
+    }
+    if (!address) throw new Error(`ENS name ${value} does not resolve to an address`);
+    return { address, ensName: value };
+  }
+
+  throw new Error('Enter a valid 0x address or ENS name');
+};
+
+// Estimate the ETH cost of a MockUSDC transfer and fetch the sender's ETH balance
+export const estimateTransfer = async (
+  provider: ethers.Provider,
+  tokenAddress: string | undefined,
+  from: string,
+  to: string,
+  amount: bigint
+): Promise<TransferEstimate> => {
+  if (!tokenAddress) throw new Error('MockUSDC contract not configured');
+  const contract = new ethers.Contract(tokenAddress, MOCK_USDC_ABI, provider);
+  const [gasLimit, feeData, ethBalance] = await Promise.all([
+    contract.transfer.estimateGas(to, amount, { from }),
+    provider.getFeeData(),
+    provider.getBalance(from),
+  ]);
+  const feePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+  return { gasLimit, gasCost: gasLimit * feePerGas, ethBalance };
+};
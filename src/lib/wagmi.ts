@@ -0,0 +1,46 @@
+import { getDefaultConfig } from '@rainbow-me/rainbowkit';
+import { injectedWallet, metaMaskWallet, walletConnectWallet } from '@rainbow-me/rainbowkit/wallets';
+import { defineChain, type Chain } from 'viem';
+import { http, type Transport } from 'wagmi';
+import { NETWORKS, type NetworkConfig } from '@/lib/networks';
+
+// WalletConnect Cloud project ID; MetaMask mobile and WalletConnect need it, injected wallets do not
+const WALLETCONNECT_PROJECT_ID = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID ?? '';
+
+// Without a project ID only wallets injected into the browser are offered
+const WALLETS = WALLETCONNECT_PROJECT_ID ? [metaMaskWallet, walletConnectWallet, injectedWallet] : [injectedWallet];
+
+// Describe a BurgerBrows network as a viem chain so external wallets can add and switch to it
+const toChain = (network: NetworkConfig): Chain => defineChain({
+  id: network.chainId,
+  name: network.name,
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: { default: { http: network.rpcUrls, webSocket: network.wsUrls } },
+  blockExplorers: network.explorerUrl ? { default: { name: 'Explorer', url: network.explorerUrl } } : undefined,
+  testnet: true,
+});
+
+const chains = NETWORKS.map(toChain) as [Chain, ...Chain[]];
+
+const transports = Object.fromEntries(NETWORKS.map(network => [network.chainId, http(network.rpcUrls[0])])) as Record<number, Transport>;
+
+export const wagmiConfig = getDefaultConfig({
+  appName: 'BurgerBrows',
+  projectId: WALLETCONNECT_PROJECT_ID,
+  chains,
+  transports,
+  wallets: [{ groupName: 'Wallets', wallets: WALLETS }],
+  ssr: true,
+});
+
+// Config for a private session: no storage, so connections and recent wallets stay in memory and end with the session.
+// Private sessions never sign with an external wallet, so WalletConnect is left out.
+export const createPrivateWagmiConfig = () => getDefaultConfig({
+  appName: 'BurgerBrows',
+  projectId: WALLETCONNECT_PROJECT_ID,
+  chains,
+  transports,
+  wallets: [{ groupName: 'Wallets', wallets: [injectedWallet] }],
+  storage: null,
+  ssr: true,
+});
@@ -0,0 +1,187 @@
+import { ethers } from 'ethers';
+import { BROWSER_VAULT_ABI, MOCK_USDC_ABI } from '@/lib/contracts';
+import type { ProxiedPage } from '@/lib/proxy';
+
+// postMessage types shared with public/burgerbrows-provider.js, which cannot import this module
+export const BRIDGE_REQUEST = 'burgerbrows:rpc';
+export const BRIDGE_RESPONSE = 'burgerbrows:rpc-response';
+export const BRIDGE_EVENT = 'burgerbrows:event';
+
+const CONNECTIONS_STORAGE_KEY = 'burgerbrows_connections';
+
+// EIP-1193 error codes
+export const RPC_ERRORS = {
+  userRejected: 4001,
+  unauthorized: 4100,
+  unsupportedMethod: 4200,
+  disconnected: 4900,
+  invalidParams: -32602,
+  internal: -32603,
+} as const;
+
+// Error carried back to the page as { code, message }
+export class ProviderRpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = 'ProviderRpcError';
+  }
+}
+
+export interface BridgeRequestMessage {
+  type: typeof BRIDGE_REQUEST;
+  id: number | string;
+  method: string;
+  params?: unknown[];
+  // Set by pages served through the proxy
+  page?: ProxiedPage;
+}
+
+// Methods that need the user to approve them in the request popup
+export const APPROVAL_METHODS = ['eth_requestAccounts', 'personal_sign', 'eth_signTypedData_v4', 'eth_sendTransaction'];
+
+// Read-only calls passed straight to the RPC node
+export const PASSTHROUGH_METHODS = [
+  'eth_blockNumber',
+  'eth_call',
+  'eth_estimateGas',
+  'eth_gasPrice',
+  'eth_getBalance',
+  'eth_getBlockByNumber',
+  'eth_getCode',
+  'eth_getLogs',
+  'eth_getTransactionByHash',
+  'eth_getTransactionCount',
+  'eth_getTransactionReceipt',
+  'eth_maxPriorityFeePerGas',
+  'eth_feeHistory',
+];
+
+export const isBridgeRequest = (data: unknown): data is BridgeRequestMessage => {
+  const message = data as Partial<BridgeRequestMessage> | null;
+  return message?.type === BRIDGE_REQUEST
+    && (typeof message.id === 'number' || typeof message.id === 'string')
+    && typeof message.method === 'string';
+};
+
+// A site the user has shared their active account with
+export interface SiteConnection {
+  origin: string;
+  connectedAt: number;
+}
+
+export const loadConnections = (): SiteConnection[] => {
+  try {
+    const stored = localStorage.getItem(CONNECTIONS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveConnections = (connections: SiteConnection[]) => {
+  localStorage.setItem(CONNECTIONS_STORAGE_KEY, JSON.stringify(connections));
+};
+
+export interface TransactionRequest {
+  from?: string;
+  to?: string;
+  value?: string;
+  data?: string;
+  gas?: string;
+}
+
+export interface TypedDataRequest {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, ethers.TypedDataField[]>;
+  primaryType?: string;
+  message: Record<string, unknown>;
+}
+
+// Human-readable summary of a request for the approval popup
+export interface RequestDetails {
+  title: string;
+  rows: { label: string; value: string }[];
+  // Full payload for anything the rows leave out
+  raw?: string;
+}
+
+const KNOWN_INTERFACES = [new ethers.Interface(MOCK_USDC_ABI), new ethers.Interface(BROWSER_VAULT_ABI)];
+
+// Decode calldata against the BurgerBrows contract ABIs
+const decodeCall = (data: string, value?: bigint) => {
+  for (const contractInterface of KNOWN_INTERFACES) {
+    try {
+      const parsed = contractInterface.parseTransaction({ data, value });
+      if (parsed) {
+        return `${parsed.name}(${parsed.args.map(arg => String(arg)).join(', ')})`;
+      }
+    } catch {
+      // Try the next ABI
+    }
+  }
+  return null;
+};
+
+// personal_sign messages are usually hex-encoded UTF-8
+export const decodeSignMessage = (message: string) => {
+  if (!ethers.isHexString(message)) return message;
+  try {
+    return ethers.toUtf8String(message);
+  } catch {
+    return message;
+  }
+};
+
+export const parseTypedData = (value: unknown): TypedDataRequest => {
+  const typedData = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!typedData || typeof typedData !== 'object' || !('types' in typedData) || !('message' in typedData)) {
+    throw new ProviderRpcError(RPC_ERRORS.invalidParams, 'Typed data must include types and message');
+  }
+  // ethers derives EIP712Domain itself and rejects it in `types`
+  const types = { ...(typedData as TypedDataRequest).types };
+  delete types.EIP712Domain;
+  return { ...(typedData as TypedDataRequest), domain: (typedData as TypedDataRequest).domain ?? {}, types };
+};
+
+export const describeRequest = (method: string, params: unknown[]): RequestDetails => {
+  switch (method) {
+    case 'eth_requestAccounts':
+      return {
+        title: 'Connect to this site',
+        rows: [{ label: 'Shares', value: 'Your active account address, balance and activity' }],
+      };
+    case 'personal_sign':
+      return {
+        title: 'Sign message',
+        rows: [{ label: 'Message', value: decodeSignMessage(String(params[0] ?? '')) }],
+      };
+    case 'eth_signTypedData_v4': {
+      const typedData = parseTypedData(params[1]);
+      return {
+        title: 'Sign typed data',
+        rows: [
+          { label: 'Type', value: typedData.primaryType ?? Object.keys(typedData.types)[0] ?? 'unknown' },
+          { label: 'Domain', value: [typedData.domain.name, typedData.domain.verifyingContract].filter(Boolean).join(' · ') },
+        ],
+        raw: JSON.stringify(typedData.message, null, 2),
+      };
+    }
+    case 'eth_sendTransaction': {
+      const tx = (params[0] ?? {}) as TransactionRequest;
+      const value = tx.value ? BigInt(tx.value) : BigInt(0);
+      const call = tx.data && tx.data !== '0x' ? decodeCall(tx.data, value) : null;
+      const rows = [
+        { label: 'To', value: tx.to ?? 'Contract deployment' },
+        { label: 'Value', value: `${ethers.formatEther(value)} ETH` },
+      ];
+      if (call) rows.push({ label: 'Call', value: call });
+      return {
+        title: 'Send transaction',
+        rows,
+        raw: !call && tx.data && tx.data !== '0x' ? tx.data : undefined,
+      };
+    }
+    default:
+      return { title: method, rows: [], raw: JSON.stringify(params, null, 2) };
+  }
+};
@@ -0,0 +1,120 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ethers } from 'ethers';
+import solc from 'solc';
+import type { TestProject } from 'vitest/node';
+import { ANVIL_CHAIN_ID, DEV_KEYS, devSigner } from './chain';
+
+// Where the mock contracts for the fixture live
+const CONTRACTS_DIR = fileURLToPath(new URL('./contracts', import.meta.url));
+
+const ANVIL_BIN = path.resolve('node_modules/.bin/anvil');
+
+interface CompiledContract {
+  abi: ethers.InterfaceAbi;
+  evm: { bytecode: { object: string } };
+}
+
+interface SolcOutput {
+  contracts?: Record<string, Record<string, CompiledContract>>;
+  errors?: { severity: string; formattedMessage: string }[];
+}
+
+// Start Anvil on a free port and resolve once it is listening
+const startAnvil = () =>
+  new Promise<{ anvil: ChildProcess; rpcUrl: string }>((resolve, reject) => {
+    const anvil = spawn(ANVIL_BIN, ['--port', '0', '--chain-id', String(ANVIL_CHAIN_ID)], {
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    const timeout = setTimeout(() => {
+      anvil.kill();
+      reject(new Error('Anvil did not start within 30s'));
+    }, 30_000);
+
+    let output = '';
+    const handleOutput = (chunk: Buffer) => {
+      output += chunk.toString();
+      const listening = output.match(/Listening on ([\d.]+:\d+)/);
+      if (!listening) return;
+      clearTimeout(timeout);
+      // Keep draining stdout so Anvil never blocks on a full pipe
+      anvil.stdout?.off('data', handleOutput).resume();
+      resolve({ anvil, rpcUrl: `http://${listening[1]}` });
+    };
+
+    anvil.stdout?.on('data', handleOutput);
+    anvil.on('error', error => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+    anvil.on('exit', code => {
+      clearTimeout(timeout);
+      reject(new Error(`Anvil exited with code ${code}`));
+    });
+  });
+
+// Compile every mock contract in one solc run
+const compileContracts = () => {
+  const sources = Object.fromEntries(
+    readdirSync(CONTRACTS_DIR)
+      .filter(file => file.endsWith('.sol'))
+      .map(file => [file, { content: readFileSync(path.join(CONTRACTS_DIR, file), 'utf8') }])
+  );
+  const output: SolcOutput = JSON.parse(solc.compile(JSON.stringify({
+    language: 'Solidity',
+    sources,
+    settings: { outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } } },
+  })));
+
+  const errors = (output.errors ?? []).filter(error => error.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Mock contracts failed to compile:\n${errors.map(error => error.formattedMessage).join('\n')}`);
+  }
+  return (name: string) => {
+    const contract = output.contracts?.[`${name}.sol`]?.[name];
+    if (!contract) throw new Error(`Mock contract ${name} was not compiled`);
+    return contract;
+  };
+};
+
+const deploy = async (contract: CompiledContract, deployer: ethers.Signer, ...args: unknown[]) => {
+  const factory = new ethers.ContractFactory(contract.abi, contract.evm.bytecode.object, deployer);
+  const deployed = await factory.deploy(...args);
+  await deployed.waitForDeployment();
+  return deployed.getAddress();
+};
+
+// Vitest global setup: one Anvil node with MockUSDC, BrowserVault and RewardPool deployed
+export default async function setup(project: TestProject) {
+  const getContract = compileContracts();
+  const { anvil, rpcUrl } = await startAnvil();
+  const stopAnvil = () =>
+    new Promise<void>(resolve => {
+      if (anvil.exitCode !== null) return resolve();
+      anvil.removeAllListeners('exit').once('exit', () => resolve());
+      anvil.kill('SIGTERM');
+    });
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl, ANVIL_CHAIN_ID, { staticNetwork: true });
+  try {
+    const deployer = devSigner(new ethers.Wallet(DEV_KEYS.deployer, provider));
+    const usdc = await deploy(getContract('MockUSDC'), deployer);
+    const vault = await deploy(getContract('BrowserVault'), deployer, usdc);
+    const pool = await deploy(getContract('RewardPool'), deployer, usdc, await deployer.getAddress());
+
+    project.provide('anvil', {
+      rpcUrl,
+      chainId: ANVIL_CHAIN_ID,
+      contracts: { MOCK_USDC: usdc, BROWSER_VAULT: vault, REWARD_POOL: pool },
+    });
+  } catch (error) {
+    await stopAnvil();
+    throw error;
+  } finally {
+    provider.destroy();
+  }
+
+  return stopAnvil;
+}
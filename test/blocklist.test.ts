@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { findBlockedHost } from '@/lib/server/blocklist';
+
+describe('findBlockedHost', () => {
+  it('flags listed domains and their subdomains from the bundled blocklist', async () => {
+    await expect(findBlockedHost(new URL('https://rnetamask.io/'))).resolves.toMatchObject({ category: 'phishing' });
+    await expect(findBlockedHost(new URL('https://app.rnetamask.io/login'))).resolves.toMatchObject({
+      domain: 'rnetamask.io',
+    });
+  });
+
+  it('passes hosts that are not listed', async () => {
+    await expect(findBlockedHost(new URL('https://metamask.io/'))).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseBookmarksFile, parseHistoryFile } from '@/lib/bookmarkFiles';
+
+const bookmarksFile = (folders: unknown[], bookmarks: unknown[]) =>
+  JSON.stringify({ format: 'burgerbrows-bookmarks', version: 1, folders, bookmarks });
+
+describe('parseBookmarksFile', () => {
+  it('drops malformed entries and non-web URLs', () => {
+    const store = parseBookmarksFile(bookmarksFile([{ id: 'f1', name: 'DeFi' }, { id: 'f2' }, 'junk'], [
+      { id: 'b1', title: 'Uniswap', url: 'https://app.uniswap.org', folderId: 'f1', createdAt: 1_700_000_000_000 },
+      { id: 'b2', title: 'Script', url: 'javascript:alert(1)', folderId: null, createdAt: 1 },
+      { id: 'b3', title: 'No URL' },
+      null,
+    ]));
+
+    expect(store.folders.map(folder => folder.name)).toEqual(['DeFi']);
+    expect(store.bookmarks).toHaveLength(1);
+    expect(store.bookmarks[0]).toMatchObject({ title: 'Uniswap', url: 'https://app.uniswap.org', folderId: store.folders[0].id, createdAt: 1_700_000_000_000 });
+  });
+
+  it('gives imported entries fresh IDs', () => {
+    const store = parseBookmarksFile(bookmarksFile([{ id: 'f1', name: 'DeFi' }], [
+      { id: 'dup', title: 'One', url: 'https://one.example', folderId: 'f1' },
+      { id: 'dup', title: 'Two', url: 'https://two.example', folderId: 'missing' },
+    ]));
+
+    expect(store.folders[0].id).not.toBe('f1');
+    expect(new Set(store.bookmarks.map(bookmark => bookmark.id)).size).toBe(2);
+    expect(store.bookmarks.map(bookmark => bookmark.id)).not.toContain('dup');
+    // A folder that isn't in the file puts the bookmark on Quick Access
+    expect(store.bookmarks[1].folderId).toBeNull();
+  });
+});
+
+describe('parseHistoryFile', () => {
+  it('keeps only well-formed web visits, with fresh IDs', () => {
+    const visits = parseHistoryFile(JSON.stringify({
+      format: 'burgerbrows-history',
+      version: 1,
+      visits: [
+        { id: 'v1', url: 'https://example.com', title: '', visitedAt: 1_700_000_000_000 },
+        { id: 'v2', url: 'data:text/html,hi', title: 'Data', visitedAt: 1 },
+        { id: 'v3', title: 'Missing URL' },
+      ],
+    }));
+
+    expect(visits).toEqual([{ id: expect.any(String), url: 'https://example.com', title: 'https://example.com', visitedAt: 1_700_000_000_000 }]);
+    expect(visits[0].id).not.toBe('v1');
+  });
+});
@@ -0,0 +1,57 @@
+import { ethers } from 'ethers';
+import { inject } from 'vitest';
+import { NETWORKS, type NetworkConfig } from '@/lib/networks';
+
+export const ANVIL_CHAIN_ID = 31337;
+
+// Anvil's well-known dev accounts; each test file sends from its own so nonces never collide
+export const DEV_KEYS = {
+  // Deploys the mock contracts and is the RewardPool's reward signer
+  deployer: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  clients: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  errors: '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+  hooks: '0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6',
+  // Signs through the app's transaction manager in the chain action tests
+  actions: '0x92db14e403b83dfe3df233f83dfa3a0d7096f21ca9b0d6d6b8d88b2b4ec1564e',
+  // The hackathon wallet in the relayer tests, and the account handing out their test USDC
+  relayer: '0x47e179ec197488593b187f80a00eb0da91f1b9d0b13f8733639f19c30a34926a',
+  relayerFunds: '0x8b3a350cf5c34c9194ca85829a2df0ec3153be0318b5e2d3348e872092edffba',
+};
+
+export interface AnvilFixture {
+  rpcUrl: string;
+  chainId: number;
+  contracts: {
+    MOCK_USDC: string;
+    BROWSER_VAULT: string;
+    REWARD_POOL: string;
+  };
+}
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    anvil: AnvilFixture;
+  }
+}
+
+// The node and contracts started by the global setup
+export const getAnvil = () => inject('anvil');
+
+export const connectAnvil = () => new ethers.JsonRpcProvider(getAnvil().rpcUrl, ANVIL_CHAIN_ID, { staticNetwork: true });
+
+// The app's local network entry, pointed at the fixture's node and contracts
+export const anvilNetwork = (overrides: Partial<NetworkConfig> = {}): NetworkConfig => {
+  const local = NETWORKS.find(network => network.id === 'local');
+  if (!local) throw new Error('The local network is missing from NETWORKS');
+  const { rpcUrl, contracts } = getAnvil();
+  return { ...local, rpcUrls: [rpcUrl], wsUrls: [], contracts, ...overrides };
+};
+
+// Anvil can report a stale pending nonce right after a transaction is mined, so track nonces locally
+export const devSigner = (wallet: ethers.Wallet) => new ethers.NonceManager(wallet);
+
+// Sign and send an encoded contract call, waiting for it to be mined
+export const send = async (signer: ethers.Signer, call: ethers.TransactionRequest) => {
+  const tx = await signer.sendTransaction(call);
+  return tx.wait();
+};
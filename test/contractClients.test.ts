@@ -0,0 +1,111 @@
+import { ethers } from 'ethers';
+import { afterAll, describe, expect, it } from 'vitest';
+import { createBrowserVaultClient, createMockUsdcClient, createRewardPoolClient } from '@/lib/contractClients';
+import { BROWSER_VAULT_ABI, MOCK_USDC_ABI } from '@/lib/contracts';
+import { recoverVoucherSigner, REWARD_VOUCHER_TYPES, rewardPoolDomain, type RewardVoucher } from '@/lib/rewardPool';
+import { ANVIL_CHAIN_ID, connectAnvil, DEV_KEYS, devSigner, getAnvil, send } from './chain';
+
+const provider = connectAnvil();
+const account = new ethers.Wallet(DEV_KEYS.clients, provider);
+const user = devSigner(account);
+const rewardSigner = devSigner(new ethers.Wallet(DEV_KEYS.deployer, provider));
+const { contracts } = getAnvil();
+const usdc = createMockUsdcClient(contracts.MOCK_USDC, provider);
+const vault = createBrowserVaultClient(contracts.BROWSER_VAULT, provider);
+const pool = createRewardPoolClient(contracts.REWARD_POOL, provider);
+
+const usdcAmount = (amount: string) => ethers.parseUnits(amount, 6);
+
+// MockUSDC's open mint isn't part of the client; the fixture uses it to hand out test USDC
+const mint = (to: string, amount: bigint) =>
+  send(user, { to: usdc.address, data: new ethers.Interface(MOCK_USDC_ABI).encodeFunctionData('mint', [to, amount]) });
+
+afterAll(() => provider.destroy());
+
+describe('MockUsdcClient', () => {
+  it('reads token metadata', async () => {
+    expect(await usdc.name()).toBe('Mock USDC');
+    expect(await usdc.decimals()).toBe(6);
+    expect(await usdc.nonces(account.address)).toBe(BigInt(0));
+  });
+
+  it('builds transfer and approve calls that move balances when sent', async () => {
+    const recipient = ethers.Wallet.createRandom().address;
+    await mint(account.address, usdcAmount('10'));
+    const before = await usdc.balanceOf(account.address);
+
+    await send(user, usdc.transfer(recipient, usdcAmount('2.5')));
+    expect(await usdc.balanceOf(recipient)).toBe(usdcAmount('2.5'));
+    expect(await usdc.balanceOf(account.address)).toBe(before - usdcAmount('2.5'));
+
+    await send(user, usdc.approve(vault.address, usdcAmount('1')));
+    expect(await usdc.allowance(account.address, vault.address)).toBe(usdcAmount('1'));
+  });
+});
+
+describe('BrowserVaultClient', () => {
+  it('deposits and withdraws', async () => {
+    await mint(account.address, usdcAmount('5'));
+    const before = await vault.balanceOf(account.address);
+
+    await send(user, usdc.approve(vault.address, usdcAmount('5')));
+    await send(user, vault.deposit(usdcAmount('5')));
+    expect(await vault.balanceOf(account.address)).toBe(before + usdcAmount('5'));
+
+    await send(user, vault.withdraw(usdcAmount('2')));
+    expect(await vault.balanceOf(account.address)).toBe(before + usdcAmount('3'));
+    expect(await vault.depositNonces(account.address)).toBe(BigInt(0));
+  });
+
+  it('splits the permit signature for depositWithPermit', () => {
+    const signature = ethers.Signature.from({ r: ethers.hexlify(ethers.randomBytes(32)), s: '0x' + '11'.repeat(32), v: 28 });
+    const intent = { user: account.address, amount: '1000000', nonce: '0', deadline: 1_900_000_000 };
+    const call = vault.depositWithPermit(intent, '0x1234', 1_900_000_100, signature.serialized);
+
+    const [, intentSignature, permitDeadline, v, r, s] = new ethers.Interface(BROWSER_VAULT_ABI).decodeFunctionData('depositWithPermit', call.data);
+    expect(call.to).toBe(vault.address);
+    expect(intentSignature).toBe('0x1234');
+    expect(permitDeadline).toBe(BigInt(1_900_000_100));
+    expect([Number(v), r, s]).toEqual([28, signature.r, signature.s]);
+  });
+});
+
+describe('RewardPoolClient', () => {
+  it('reads the pool configuration', async () => {
+    expect(await pool.rewardSigner()).toBe(await rewardSigner.getAddress());
+  });
+
+  it('claims on-chain credits', async () => {
+    await mint(pool.address, usdcAmount('100'));
+    const credit = new ethers.Interface(['function credit(address account, uint256 amount)']);
+    await send(rewardSigner, { to: pool.address, data: credit.encodeFunctionData('credit', [account.address, usdcAmount('1.5')]) });
+    expect(await pool.claimable(account.address)).toBe(usdcAmount('1.5'));
+
+    const balance = await usdc.balanceOf(account.address);
+    await send(user, pool.claim());
+    expect(await pool.claimable(account.address)).toBe(BigInt(0));
+    expect(await usdc.balanceOf(account.address)).toBe(balance + usdcAmount('1.5'));
+  });
+
+  it('claims a voucher signed by the reward signer exactly once', async () => {
+    await mint(pool.address, usdcAmount('100'));
+    const { timestamp } = (await provider.getBlock('latest'))!;
+    const voucher: RewardVoucher = {
+      account: account.address,
+      amount: usdcAmount('0.75').toString(),
+      nonce: ethers.toBigInt(ethers.randomBytes(16)).toString(),
+      deadline: timestamp + 600,
+    };
+    const signature = await rewardSigner.signTypedData(rewardPoolDomain(ANVIL_CHAIN_ID, pool.address), REWARD_VOUCHER_TYPES, voucher);
+    expect(recoverVoucherSigner(ANVIL_CHAIN_ID, pool.address, { voucher, signature, amount: '0.75' })).toBe(await pool.rewardSigner());
+
+    const claimed = await pool.totalClaimed(account.address);
+    await send(user, pool.claimWithVoucher(voucher, signature));
+    expect(await pool.isVoucherUsed(voucher.nonce)).toBe(true);
+    expect(await pool.totalClaimed(account.address)).toBe(claimed + usdcAmount('0.75'));
+
+    await expect(user.estimateGas(pool.claimWithVoucher(voucher, signature))).rejects.toMatchObject({
+      reason: 'RewardPool: voucher already used',
+    });
+  });
+});
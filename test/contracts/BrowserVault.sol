@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./IERC20.sol";
+
+// Test stand-in for the deployed BrowserVault, including the relayed deposit: a relayer submits the user's
+// EIP-712 deposit intent with their USDC permit and pays the gas
+contract BrowserVault {
+    struct DepositIntent {
+        address user;
+        uint256 amount;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    IERC20 public immutable token;
+    bytes32 public immutable DOMAIN_SEPARATOR;
+
+    bytes32 private constant DEPOSIT_INTENT_TYPEHASH =
+        keccak256("DepositIntent(address user,uint256 amount,uint256 nonce,uint256 deadline)");
+
+    mapping(address => uint256) private balances;
+    mapping(address => uint256) public depositNonces;
+
+    event Deposited(address indexed user, uint256 amount);
+    event Withdrawn(address indexed user, uint256 amount);
+
+    // Deliberately missing from the app's ABIs, to test reverts with undecodable data
+    error ZeroAmount();
+
+    constructor(IERC20 token_) {
+        token = token_;
+        DOMAIN_SEPARATOR = keccak256(abi.encode(
+            keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+            keccak256(bytes("BurgerBrows BrowserVault")),
+            keccak256(bytes("1")),
+            block.chainid,
+            address(this)
+        ));
+    }
+
+    function deposit(uint256 amount) external {
+        _deposit(msg.sender, amount);
+    }
+
+    function depositWithPermit(
+        DepositIntent calldata intent,
+        bytes calldata signature,
+        uint256 permitDeadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        require(block.timestamp <= intent.deadline, "BrowserVault: intent expired");
+        require(intent.nonce == depositNonces[intent.user], "BrowserVault: invalid nonce");
+        bytes32 structHash = keccak256(
+            abi.encode(DEPOSIT_INTENT_TYPEHASH, intent.user, intent.amount, intent.nonce, intent.deadline)
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash));
+        require(_recover(digest, signature) == intent.user, "BrowserVault: invalid intent signature");
+        depositNonces[intent.user]++;
+
+        IERC20Permit(address(token)).permit(intent.user, address(this), intent.amount, permitDeadline, v, r, s);
+        _deposit(intent.user, intent.amount);
+    }
+
+    function getBalance(address user) external view returns (uint256) {
+        return balances[user];
+    }
+
+    function withdraw(uint256 amount) external {
+        // Checked arithmetic: withdrawing more than the balance panics with 0x11
+        balances[msg.sender] -= amount;
+        require(token.transfer(msg.sender, amount), "BrowserVault: transfer failed");
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    function _deposit(address user, uint256 amount) internal {
+        if (amount == 0) revert ZeroAmount();
+        require(token.transferFrom(user, address(this), amount), "BrowserVault: transfer failed");
+        balances[user] += amount;
+        emit Deposited(user, amount);
+    }
+
+    function _recover(bytes32 digest, bytes calldata signature) internal pure returns (address signer) {
+        require(signature.length == 65, "BrowserVault: invalid signature length");
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        signer = ecrecover(digest, uint8(signature[64]), r, s);
+        require(signer != address(0), "BrowserVault: invalid signature");
+    }
+}
@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./IERC20.sol";
+
+// Test stand-in for the deployed RewardPool: pays on-chain credits or EIP-712 vouchers from the reward signer
+contract RewardPool {
+    struct RewardVoucher {
+        address account;
+        uint256 amount;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 private constant VOUCHER_TYPEHASH =
+        keccak256("RewardVoucher(address account,uint256 amount,uint256 nonce,uint256 deadline)");
+
+    IERC20 public immutable token;
+    address public immutable rewardSigner;
+    bytes32 private immutable domainSeparator;
+
+    mapping(address => uint256) public claimable;
+    mapping(address => uint256) public totalClaimed;
+    mapping(uint256 => bool) public isVoucherUsed;
+
+    event RewardClaimed(address indexed account, uint256 amount, uint256 indexed nonce);
+    event PoolFunded(address indexed funder, uint256 amount);
+
+    constructor(IERC20 token_, address rewardSigner_) {
+        token = token_;
+        rewardSigner = rewardSigner_;
+        domainSeparator = keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("BurgerBrows RewardPool"), keccak256("1"), block.chainid, address(this))
+        );
+    }
+
+    function poolBalance() external view returns (uint256) {
+        return token.balanceOf(address(this));
+    }
+
+    // Credit rewards claimable without a voucher
+    function credit(address account, uint256 amount) external {
+        require(msg.sender == rewardSigner, "RewardPool: not the reward signer");
+        claimable[account] += amount;
+    }
+
+    function claim() external {
+        uint256 amount = claimable[msg.sender];
+        require(amount > 0, "RewardPool: nothing to claim");
+        claimable[msg.sender] = 0;
+        _pay(msg.sender, amount, 0);
+    }
+
+    function claimWithVoucher(RewardVoucher calldata voucher, bytes calldata signature) external {
+        require(block.timestamp <= voucher.deadline, "RewardPool: voucher expired");
+        require(!isVoucherUsed[voucher.nonce], "RewardPool: voucher already used");
+        require(signature.length == 65, "RewardPool: invalid signature");
+
+        bytes32 digest = keccak256(
+            abi.encodePacked("\x19\x01", domainSeparator, keccak256(abi.encode(VOUCHER_TYPEHASH, voucher)))
+        );
+        address signer = ecrecover(digest, uint8(signature[64]), bytes32(signature[0:32]), bytes32(signature[32:64]));
+        require(signer == rewardSigner, "RewardPool: invalid signature");
+
+        isVoucherUsed[voucher.nonce] = true;
+        _pay(voucher.account, voucher.amount, voucher.nonce);
+    }
+
+    function _pay(address account, uint256 amount, uint256 nonce) internal {
+        totalClaimed[account] += amount;
+        require(token.transfer(account, amount), "RewardPool: transfer failed");
+        emit RewardClaimed(account, amount, nonce);
+    }
+}
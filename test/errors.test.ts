@@ -0,0 +1,94 @@
+import { ethers } from 'ethers';
+import { afterAll, describe, expect, it } from 'vitest';
+import { createBrowserVaultClient, createMockUsdcClient, createRewardPoolClient } from '@/lib/contractClients';
+import { ChainError, ContractRevertError, describeTxError, toChainError } from '@/lib/errors';
+import { connectAnvil, DEV_KEYS, devSigner, getAnvil, send } from './chain';
+
+const provider = connectAnvil();
+const account = new ethers.Wallet(DEV_KEYS.errors, provider);
+const signer = devSigner(account);
+const { contracts } = getAnvil();
+const usdc = createMockUsdcClient(contracts.MOCK_USDC, provider);
+const vault = createBrowserVaultClient(contracts.BROWSER_VAULT, provider);
+const pool = createRewardPoolClient(contracts.REWARD_POOL, provider);
+
+afterAll(() => provider.destroy());
+
+// What the app does before sending a contract call: estimate gas on the raw transaction
+const estimate = async (call: ethers.TransactionRequest) => {
+  try {
+    await signer.estimateGas(call);
+  } catch (error) {
+    return toChainError(error);
+  }
+  throw new Error('Expected the call to revert');
+};
+
+describe('toChainError against Anvil', () => {
+  it('decodes require() reasons', async () => {
+    const error = await estimate(pool.claim());
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect(error).toMatchObject({
+      code: 'reverted',
+      reason: 'RewardPool: nothing to claim',
+      revertName: 'Error',
+      revertArgs: ['RewardPool: nothing to claim'],
+      message: 'Transaction reverted: RewardPool: nothing to claim',
+    });
+  });
+
+  it('decodes panics', async () => {
+    const error = await estimate(vault.withdraw(BigInt(1)));
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect((error as ContractRevertError).revertName).toBe('Panic');
+    expect((error as ContractRevertError).revertArgs).toEqual([0x11]);
+  });
+
+  it('still reports a revert when the custom error is not in the app ABIs', async () => {
+    const error = await estimate(vault.deposit(BigInt(0)));
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect(error).toMatchObject({ reason: null, revertName: null, message: 'Transaction reverted by the contract' });
+  });
+
+  it('decodes reasons bubbled up from a nested call', async () => {
+    await send(signer, usdc.approve(contracts.BROWSER_VAULT, BigInt(10)));
+    const error = await estimate(vault.deposit(BigInt(10)));
+    expect(error).toMatchObject({ reason: 'ERC20: transfer amount exceeds balance', revertName: 'Error' });
+  });
+
+  it('maps a transaction from an account without ETH to insufficient-funds', async () => {
+    const empty = ethers.Wallet.createRandom(provider);
+    const error = await empty.sendTransaction({ ...usdc.transfer(account.address, BigInt(0)), gasLimit: 100_000 })
+      .then(() => null, toChainError);
+    expect(error?.code).toBe('insufficient-funds');
+  });
+
+  it('wraps client read failures', async () => {
+    // No contract at this address, so the call returns empty data
+    const missing = createMockUsdcClient(ethers.Wallet.createRandom().address, provider);
+    await expect(missing.balanceOf(account.address)).rejects.toBeInstanceOf(ChainError);
+  });
+});
+
+describe('toChainError', () => {
+  it('decodes raw Error(string) revert data ethers left undecoded', () => {
+    const data = ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Vault is paused'])]);
+    const error = toChainError(ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'estimateGas', data, reason: null, transaction: { to: null, data: '0x' }, invocation: null, revert: null }));
+    expect(error).toMatchObject({ reason: 'Vault is paused', revertName: 'Error', revertArgs: ['Vault is paused'] });
+  });
+
+  it('maps wallet rejections', () => {
+    const error = toChainError(ethers.makeError('user rejected action', 'ACTION_REJECTED', { action: 'sendTransaction', reason: 'rejected' }));
+    expect(error.code).toBe('rejected');
+  });
+
+  it('passes typed errors through unchanged', () => {
+    const original = new ChainError('RPC timed out', 'timeout');
+    expect(toChainError(original)).toBe(original);
+  });
+
+  it('keeps the message of unknown errors', () => {
+    expect(toChainError(new Error('boom'))).toMatchObject({ code: 'unknown', message: 'boom' });
+    expect(describeTxError('plain string')).toBe('plain string');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildPaymentRequest,
+  isPaymentRequestUri,
+  parsePaymentRequest,
+  toSendPrefill,
+} from '@/lib/paymentRequest';
+
+const token = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const payee = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+describe('parsePaymentRequest', () => {
+  it('reads token transfers built by the Receive panel', () => {
+    const uri = buildPaymentRequest(token.toLowerCase(), 31337, payee.toLowerCase(), BigInt(2_500_000));
+    expect(uri).toBe(`ethereum:${token}@31337/transfer?address=${payee}&uint256=2500000`);
+    expect(isPaymentRequestUri(` ${uri.toUpperCase()}`)).toBe(true);
+    expect(parsePaymentRequest(uri)).toEqual({
+      target: token,
+      chainId: 31337,
+      functionName: 'transfer',
+      recipient: payee,
+      amount: BigInt(2_500_000),
+      isTokenTransfer: true,
+    });
+  });
+
+  it('reads ETH payments and amounts in scientific notation', () => {
+    expect(parsePaymentRequest(`ethereum:pay-${payee}?value=2.014e18`)).toMatchObject({
+      target: payee,
+      recipient: payee,
+      chainId: undefined,
+      amount: BigInt('2014000000000000000'),
+      isTokenTransfer: false,
+    });
+    expect(parsePaymentRequest(`ethereum:${token}/transfer?address=${payee}&uint256=1e6`).amount).toBe(BigInt(1_000_000));
+  });
+
+  it('rejects malformed requests with a readable message', () => {
+    expect(() => parsePaymentRequest('bitcoin:abc')).toThrow('Not a valid EIP-681 payment request');
+    expect(() => parsePaymentRequest(`ethereum:${payee.replace('C', 'c')}`)).toThrow('invalid checksum');
+    expect(() => parsePaymentRequest(`ethereum:${token}/transfer?uint256=1`)).toThrow('missing a valid recipient');
+    expect(() => parsePaymentRequest(`ethereum:${token}/transfer?address=${payee}&uint256=1.5`)).toThrow('not a whole number');
+    expect(() => parsePaymentRequest(`ethereum:${payee}?value=-1`)).toThrow('Invalid number');
+  });
+});
+
+describe('toSendPrefill', () => {
+  it('fills the recipient and USDC amount for a matching request', () => {
+    const request = parsePaymentRequest(buildPaymentRequest(token, 31337, payee, BigInt(2_500_000)));
+    expect(toSendPrefill(request, token.toLowerCase(), 31337, 6)).toEqual({
+      recipient: payee,
+      amount: '2.5',
+      warning: undefined,
+    });
+  });
+
+  it('warns about requests for another token, ETH or another chain', () => {
+    const otherToken = parsePaymentRequest(buildPaymentRequest(payee, 1, token));
+    expect(toSendPrefill(otherToken, token, 31337, 6).warning).toBe(
+      'This request is for token 0x70997970..., not MockUSDC. This request is for chain 1, but you are on chain 31337'
+    );
+
+    const eth = toSendPrefill(parsePaymentRequest(`ethereum:${payee}?value=1e18`), token, 31337, 6);
+    expect(eth).toEqual({
+      recipient: payee,
+      amount: undefined,
+      warning: 'This request asks for ETH; BurgerBrows will send USDC instead',
+    });
+  });
+});
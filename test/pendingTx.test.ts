@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import {
+  addTransaction,
+  bumpedFees,
+  createDepositFlow,
+  EMPTY_QUEUE,
+  isFlowComplete,
+  latestAttempts,
+  nextNonce,
+  nonceOutcome,
+  pruneSettled,
+  settleNonce,
+  updateFlowStep,
+  type PendingTx,
+  type TxQueue,
+} from '@/lib/pendingTx';
+
+const from = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const other = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+// A pending USDC transfer at `nonce`; `id` doubles as the hash
+const createTx = (id: string, nonce: number, change: Partial<PendingTx> = {}): PendingTx => ({
+  id,
+  hash: id,
+  networkId: 'local',
+  from,
+  nonce,
+  to: other,
+  data: '0x',
+  value: '0',
+  gasLimit: '21000',
+  maxFeePerGas: '1000',
+  maxPriorityFeePerGas: '100',
+  kind: 'transfer',
+  label: `Transfer ${id}`,
+  status: 'pending',
+  submittedAt: 0,
+  ...change,
+});
+
+const queueOf = (...transactions: PendingTx[]): TxQueue => ({ ...EMPTY_QUEUE, transactions });
+
+describe('nextNonce', () => {
+  it('uses the node count unless our own pending transactions run ahead of it', () => {
+    const queue = queueOf(
+      createTx('a', 4),
+      createTx('b', 5),
+      createTx('c', 9, { status: 'confirmed' }),
+      createTx('d', 12, { from: other }),
+      createTx('e', 12, { networkId: 'sepolia' })
+    );
+    expect(nextNonce(queue, 'local', from.toLowerCase(), 3)).toBe(6);
+    expect(nextNonce(queue, 'local', from, 8)).toBe(8);
+    expect(nextNonce(EMPTY_QUEUE, 'local', from, 0)).toBe(0);
+  });
+});
+
+describe('bumpedFees', () => {
+  it('raises both fees by 12.5%, rounding up', () => {
+    expect(bumpedFees(createTx('a', 0, { maxFeePerGas: '1001' }), new ethers.FeeData())).toEqual({
+      maxFeePerGas: BigInt(1127),
+      maxPriorityFeePerGas: BigInt(113),
+    });
+  });
+
+  it('never goes below current network fees', () => {
+    const feeData = new ethers.FeeData(null, BigInt(5000), BigInt(50));
+    expect(bumpedFees(createTx('a', 0), feeData)).toEqual({
+      maxFeePerGas: BigInt(5000),
+      maxPriorityFeePerGas: BigInt(113),
+    });
+  });
+});
+
+describe('settleNonce', () => {
+  const original = createTx('original', 7);
+  const speedUp = createTx('speed-up', 7, { replaces: 'original' });
+  const queue = addTransaction(addTransaction(queueOf(createTx('next', 8)), original), speedUp);
+
+  it('settles the mined attempt and marks the other attempts at its nonce replaced', () => {
+    const settled = settleNonce(queue, 'local', from, 7, { hash: 'speed-up', status: 'confirmed', blockNumber: 42 });
+    expect(settled.transactions.map(tx => [tx.id, tx.status])).toEqual([
+      ['speed-up', 'confirmed'],
+      ['original', 'replaced'],
+      ['next', 'pending'],
+    ]);
+    expect(settled.transactions[0].blockNumber).toBe(42);
+    expect(nonceOutcome(settled, 'local', from, 7)?.id).toBe('speed-up');
+  });
+
+  it('marks every attempt dropped when an unknown transaction used the nonce', () => {
+    const settled = settleNonce(queue, 'local', from, 7, { status: 'dropped' });
+    expect(settled.transactions.filter(tx => tx.nonce === 7).map(tx => tx.status)).toEqual(['dropped', 'dropped']);
+  });
+
+  it('leaves other accounts alone', () => {
+    const settled = settleNonce(queue, 'local', other, 7, { status: 'dropped' });
+    expect(settled.transactions).toEqual(queue.transactions);
+  });
+});
+
+describe('nonceOutcome and latestAttempts', () => {
+  it('reports the newest pending attempt while a nonce is undecided', () => {
+    const queue = queueOf(createTx('cancel', 3, { kind: 'cancel' }), createTx('original', 3), createTx('older', 2));
+    expect(nonceOutcome(queue, 'local', from, 3)?.id).toBe('cancel');
+    expect(nonceOutcome(queue, 'local', from, 4)).toBeUndefined();
+    expect(latestAttempts(queue.transactions).map(tx => tx.id)).toEqual(['cancel', 'older']);
+  });
+});
+
+describe('pruneSettled', () => {
+  it('keeps every pending transaction and the 20 most recent settled ones', () => {
+    const settled = Array.from({ length: 25 }, (_, i) => createTx(`settled-${i}`, i, { status: 'confirmed' }));
+    const pruned = pruneSettled(queueOf(...settled, createTx('pending', 30)));
+    expect(pruned.transactions).toHaveLength(21);
+    expect(pruned.transactions.map(tx => tx.id)).toContain('pending');
+    expect(pruned.transactions.map(tx => tx.id)).not.toContain('settled-20');
+  });
+});
+
+describe('deposit flows', () => {
+  it('is complete once every step is done or skipped', () => {
+    const flow = createDepositFlow('local', from, BigInt(2_500_000), 'Deposit 2.5 USDC');
+    expect(flow).toMatchObject({ amount: '2500000', steps: [{ id: 'approve' }, { id: 'deposit' }] });
+
+    let queue: TxQueue = { ...EMPTY_QUEUE, flows: [flow] };
+    queue = updateFlowStep(queue, flow.id, 'approve', { status: 'skipped' });
+    expect(isFlowComplete(queue.flows[0])).toBe(false);
+    queue = updateFlowStep(queue, flow.id, 'deposit', { status: 'done', nonce: 4 });
+    expect(queue.flows[0].steps[1]).toMatchObject({ status: 'done', nonce: 4 });
+    expect(isFlowComplete(queue.flows[0])).toBe(true);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { fromProxyUrl, PROXY_FORM_FIELD, toProxyUrl } from '@/lib/proxy';
+import {
+  createPageKey,
+  getFrameBlockReason,
+  pageProof,
+  readProxyTarget,
+  resolvePublicUrl,
+  rewriteCss,
+  rewriteHtml,
+  verifyPageProof,
+} from '@/lib/server/proxy';
+
+describe('page proofs', () => {
+  const key = createPageKey();
+  const url = 'https://app.example/swap';
+
+  it('accepts the proof for the URL and key it was made with', () => {
+    expect(verifyPageProof(url, pageProof(url, key), key)).toBe(true);
+  });
+
+  it('rejects a proof for another URL or another browser', () => {
+    expect(verifyPageProof('https://evil.example/', pageProof(url, key), key)).toBe(false);
+    expect(verifyPageProof(url, pageProof(url, createPageKey()), key)).toBe(false);
+    expect(verifyPageProof(url, 'abc', key)).toBe(false);
+  });
+
+  it('stamps the served URL and its proof on the injected provider script', () => {
+    const proof = pageProof(url, key);
+    const html = rewriteHtml('<html><head><title>Swap</title></head></html>', new URL(url), proof);
+    expect(html).toContain(
+      `<head><script src="/burgerbrows-provider.js" data-page-url="${url}" data-page-proof="${proof}"></script><title>`
+    );
+  });
+});
+
+describe('resolvePublicUrl', () => {
+  it('refuses IPv6 tunnel addresses that lead to private IPv4 hosts', async () => {
+    // 6to4 for 192.168.1.1 and Teredo for a client behind 10.0.0.1
+    for (const host of ['[2002:c0a8:101::1]', '[2001:0:4136:e378:8000:63bf:f5ff:fffe]']) {
+      await expect(resolvePublicUrl(`http://${host}/`)).rejects.toMatchObject({ status: 403 });
+    }
+  });
+
+  it('accepts public IPv4 and IPv6 literals', async () => {
+    await expect(resolvePublicUrl('https://1.1.1.1/')).resolves.toBeInstanceOf(URL);
+    await expect(resolvePublicUrl('https://[2606:4700:4700::1111]/')).resolves.toBeInstanceOf(URL);
+  });
+});
+
+describe('rewriteHtml', () => {
+  const page = new URL('https://site.example/docs/guide.html');
+  const rewrite = (html: string) => rewriteHtml(html, page, 'proof');
+
+  it('routes links and subresources through the proxy, resolved against the page', () => {
+    const html = rewrite('<a href="../about?q=1&amp;x=2">About</a><img src="/logo.png" srcset="a.png 1x, https://cdn.example/b.png 2x">');
+    expect(html).toContain(`href="${toProxyUrl('https://site.example/about?q=1&x=2')}"`);
+    expect(html).toContain(`src="${toProxyUrl('https://site.example/logo.png')}"`);
+    expect(html).toContain(`srcset="${toProxyUrl('https://site.example/docs/a.png')} 1x, ${toProxyUrl('https://cdn.example/b.png')} 2x"`);
+  });
+
+  it('leaves fragments and non-http links alone', () => {
+    const html = rewrite('<a href="#top">Top</a><a href="mailto:a@site.example">Mail</a><a href="javascript:void(0)">JS</a>');
+    expect(html).toContain('href="#top"');
+    expect(html).toContain('href="mailto:a@site.example"');
+    expect(html).toContain('href="javascript:void(0)"');
+  });
+
+  it('resolves against <base href> and drops it', () => {
+    const html = rewrite('<head><base href="https://static.example/assets/"></head><script src="app.js"></script>');
+    expect(html).not.toContain('<base');
+    expect(html).toContain(`src="${toProxyUrl('https://static.example/assets/app.js')}"`);
+  });
+
+  it('strips CSP meta tags and integrity attributes that would block the rewritten page', () => {
+    const html = rewrite(
+      '<meta http-equiv="Content-Security-Policy" content="default-src \'self\'"><script src="a.js" integrity="sha384-abc"></script>'
+    );
+    expect(html).not.toContain('Content-Security-Policy');
+    expect(html).not.toContain('integrity');
+  });
+
+  it('keeps GET form targets in a hidden field and posts POST forms to the proxied action', () => {
+    const html = rewrite('<form action="/search"><input name="q"></form><form method="post" action="login">');
+    expect(html).toContain(
+      `<form action="/api/proxy"><input type="hidden" name="${PROXY_FORM_FIELD}" value="https://site.example/search">`
+    );
+    expect(html).toContain(`<form action="${toProxyUrl('https://site.example/docs/login')}" method="post">`);
+  });
+
+  it('injects the provider script at the top of the page when there is no <head>', () => {
+    expect(rewrite('<p>Hi</p>')).toMatch(/^<script src="\/burgerbrows-provider\.js"/);
+  });
+});
+
+describe('rewriteCss', () => {
+  it('proxies url() references and @import strings but not data URLs', () => {
+    const css = rewriteCss(
+      '@import "theme.css"; body { background: url(\'../img/bg.png\'); } i { background: url(data:image/png;base64,AA==); }',
+      new URL('https://site.example/css/main.css')
+    );
+    expect(css).toContain(`@import "${toProxyUrl('https://site.example/css/theme.css')}"`);
+    expect(css).toContain(`url(${toProxyUrl('https://site.example/img/bg.png')})`);
+    expect(css).toContain('url(data:image/png;base64,AA==)');
+  });
+});
+
+describe('proxy URLs', () => {
+  it('round-trips a page URL, escaping characters unsafe in attributes and CSS', () => {
+    const url = "https://site.example/a (b)/c'd?e=1&f=2";
+    const proxied = toProxyUrl(url);
+    expect(proxied).not.toMatch(/['()]/);
+    expect(fromProxyUrl(proxied)).toBe(url);
+    expect(fromProxyUrl('https://site.example/')).toBe('https://site.example/');
+  });
+
+  it('rebuilds the target of a proxied GET form from its fields', () => {
+    const params = new URLSearchParams({ [PROXY_FORM_FIELD]: 'https://site.example/search?old=1', q: 'burgers' });
+    expect(readProxyTarget(params)).toBe('https://site.example/search?q=burgers');
+    expect(readProxyTarget(new URLSearchParams({ url: 'https://site.example/' }))).toBe('https://site.example/');
+  });
+});
+
+describe('getFrameBlockReason', () => {
+  it('reports headers that stop the page from being framed', () => {
+    expect(getFrameBlockReason(new Headers({ 'x-frame-options': 'sameorigin' }))).toBe('X-Frame-Options: SAMEORIGIN');
+    expect(getFrameBlockReason(new Headers({ 'content-security-policy': "default-src *; frame-ancestors 'self'" }))).toBe(
+      "Content-Security-Policy: frame-ancestors 'self'"
+    );
+  });
+
+  it('passes pages that allow any parent', () => {
+    expect(getFrameBlockReason(new Headers({ 'content-security-policy': 'frame-ancestors *' }))).toBeUndefined();
+    expect(getFrameBlockReason(new Headers())).toBeUndefined();
+  });
+});
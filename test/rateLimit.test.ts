@@ -0,0 +1,53 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { clientIp, getRateLimitStatuses, limitSubjects, RATE_LIMITS, reserveRateLimit } from '@/lib/server/rateLimit';
+
+// A fresh throwaway wallet and device ID, as a private session creates
+const throwawaySubjects = (ip: string) =>
+  limitSubjects(ethers.Wallet.createRandom().address, ethers.hexlify(ethers.randomBytes(7)), ip);
+
+describe('reserveRateLimit', () => {
+  it('caps throwaway wallets by client IP', async () => {
+    const ip = '203.0.113.7';
+    for (let used = 0; used < RATE_LIMITS.faucet.ipDailyLimit; used++) {
+      await reserveRateLimit('faucet', throwawaySubjects(ip));
+    }
+    await expect(reserveRateLimit('faucet', throwawaySubjects(ip))).rejects.toThrow(
+      `Daily faucet limit of ${RATE_LIMITS.faucet.ipDailyLimit} reached`
+    );
+    await expect(reserveRateLimit('faucet', throwawaySubjects('203.0.113.8'))).resolves.toBeDefined();
+  });
+
+  it('keeps the address cooldown when the IP has uses left', async () => {
+    const subjects = throwawaySubjects('198.51.100.1');
+    await reserveRateLimit('claim', subjects);
+    const { claim } = await getRateLimitStatuses(subjects);
+    expect(claim.nextAvailableAt).toBeGreaterThan(Date.now());
+    expect(claim.dailyLimit).toBe(RATE_LIMITS.claim.dailyLimit);
+  });
+
+  it('releases only its own use of a shared IP', async () => {
+    const ip = '192.0.2.44';
+    const failed = await reserveRateLimit('faucet', throwawaySubjects(ip));
+    await reserveRateLimit('faucet', throwawaySubjects(ip));
+    await failed.release();
+    const { faucet } = await getRateLimitStatuses([`ip:${ip}`]);
+    expect(faucet.usedToday).toBe(1);
+  });
+});
+
+describe('clientIp', () => {
+  const forwardedFor = (value: string) => new Request('http://localhost/api/faucet', { headers: { 'x-forwarded-for': value } });
+
+  it('takes the address the trusted proxy appended, not what the client sent', () => {
+    expect(clientIp(forwardedFor('198.51.100.99, 203.0.113.7'), 1)).toBe('203.0.113.7');
+    expect(clientIp(forwardedFor('198.51.100.99, 203.0.113.7, 10.0.0.1'), 2)).toBe('203.0.113.7');
+  });
+
+  it('ignores the header when no proxy is trusted or it is malformed', () => {
+    expect(clientIp(forwardedFor('203.0.113.7'), 0)).toBeNull();
+    expect(clientIp(forwardedFor('not-an-ip'), 1)).toBeNull();
+    expect(clientIp(forwardedFor('203.0.113.7'), 2)).toBeNull();
+    expect(clientIp(new Request('http://localhost/api/faucet'), 1)).toBeNull();
+  });
+});
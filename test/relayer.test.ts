@@ -0,0 +1,64 @@
+import { ethers } from 'ethers';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { createChainSession } from '@/lib/chainSession';
+import { MOCK_USDC_ABI } from '@/lib/contracts';
+import { signGaslessDeposit } from '@/lib/gasless';
+import { getRateLimitStatuses, limitSubjects } from '@/lib/server/rateLimit';
+import { relayDeposit } from '@/lib/server/relayer';
+import { ANVIL_CHAIN_ID, anvilNetwork, connectAnvil, DEV_KEYS, devSigner, send } from './chain';
+
+// The relayer pays gas from the hackathon wallet, whose key is read when its module loads (DEV_KEYS.relayer)
+vi.hoisted(() => {
+  process.env.HACKATHON_PRIVATE_KEY = '0x47e179ec197488593b187f80a00eb0da91f1b9d0b13f8733639f19c30a34926a';
+});
+
+const provider = connectAnvil();
+const network = anvilNetwork();
+const session = createChainSession(network, provider, ANVIL_CHAIN_ID);
+const funder = devSigner(new ethers.Wallet(DEV_KEYS.relayerFunds, provider));
+
+const usdcAmount = (amount: string) => ethers.parseUnits(amount, 6);
+
+const mint = (to: string, amount: bigint) =>
+  send(funder, { to: session.usdc.address, data: new ethers.Interface(MOCK_USDC_ABI).encodeFunctionData('mint', [to, amount]) });
+
+// A fresh account holding test USDC but no ETH, as the gasless path is meant for
+const gaslessUser = async (usdc: string) => {
+  const user = ethers.Wallet.createRandom().connect(provider);
+  await mint(user.address, usdcAmount(usdc));
+  return user;
+};
+
+const relay = (request: Awaited<ReturnType<typeof signGaslessDeposit>>, subjects: string[]) =>
+  relayDeposit(network, request.intent, request.intentSignature, request.permitDeadline, request.permitSignature, subjects);
+
+afterAll(() => provider.destroy());
+
+describe('relayDeposit', () => {
+  it('deposits with the user\'s permit while the hackathon wallet pays the gas', async () => {
+    const user = await gaslessUser('5');
+    const request = await signGaslessDeposit(user, session, usdcAmount('2'), 'relaydevice01');
+    const subjects = limitSubjects(user.address, request.deviceId, null);
+
+    const result = await relay(request, subjects);
+    expect(result.amount).toBe('2.0');
+    expect(await session.vault.balanceOf(user.address)).toBe(usdcAmount('2'));
+    expect(await session.usdc.balanceOf(user.address)).toBe(usdcAmount('3'));
+    expect(await session.vault.depositNonces(user.address)).toBe(BigInt(1));
+    expect(await provider.getBalance(user.address)).toBe(BigInt(0));
+    expect((await getRateLimitStatuses(subjects)).relay.usedToday).toBe(1);
+
+    await expect(relay(request, subjects)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('refuses an intent the depositor did not sign without using up their relays', async () => {
+    const user = await gaslessUser('5');
+    const forged = await signGaslessDeposit(ethers.Wallet.createRandom().connect(provider), session, usdcAmount('1'), 'relaydevice02');
+    const request = { ...forged, intent: { ...forged.intent, user: user.address } };
+    const subjects = limitSubjects(user.address, request.deviceId, null);
+
+    await expect(relay(request, subjects)).rejects.toThrow('Deposit intent was not signed by the depositor');
+    expect((await getRateLimitStatuses(subjects)).relay.usedToday).toBe(0);
+    expect(await session.vault.balanceOf(user.address)).toBe(BigInt(0));
+  });
+});
@@ -0,0 +1,123 @@
+import { ethers } from 'ethers';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ACTIVITY_DOMAIN,
+  ACTIVITY_KEY_GRANT_TYPES,
+  signActivityReport,
+  type ActivityKeyGrant,
+  type ActivityReport,
+} from '@/lib/activity';
+import { NETWORKS } from '@/lib/networks';
+import { getRewardSummary, recordActivity, verifyActivityReport } from '@/lib/server/rewardLedger';
+
+const [sepolia, local] = NETWORKS;
+
+const START = new Date('2026-03-02T12:00:00Z').getTime();
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const report = (address: string, sessionId: string, visibleMs: number, ended = false): ActivityReport => ({
+  address,
+  chainId: sepolia.chainId,
+  sessionId,
+  url: 'https://example.com/',
+  visibleMs,
+  ended,
+  sentAt: Date.now(),
+});
+
+describe('recordActivity', () => {
+  it('credits visible time once per address however many sessions report it', () => {
+    vi.useFakeTimers({ now: START });
+    const address = ethers.Wallet.createRandom().address;
+    const sessions = ['a', 'b', 'c'];
+    sessions.forEach(sessionId => recordActivity(sepolia, report(address, sessionId, 0)));
+
+    vi.advanceTimersByTime(60_000);
+    sessions.forEach(sessionId => recordActivity(sepolia, report(address, sessionId, 60_000)));
+
+    // 0.1 USDC per minute by default, for one minute
+    expect(getRewardSummary(sepolia, address).accrued).toBe('0.1');
+  });
+
+  it('keeps each network\'s rewards apart', () => {
+    vi.useFakeTimers({ now: START });
+    const address = ethers.Wallet.createRandom().address;
+    recordActivity(sepolia, report(address, 'a', 0));
+    vi.advanceTimersByTime(60_000);
+    recordActivity(sepolia, report(address, 'a', 60_000));
+    expect(getRewardSummary(sepolia, address).accrued).toBe('0.1');
+    expect(getRewardSummary(local, address).accrued).toBe('0.0');
+  });
+
+  it('refuses a report it has already received', () => {
+    vi.useFakeTimers({ now: START });
+    const address = ethers.Wallet.createRandom().address;
+    recordActivity(sepolia, report(address, 'a', 0));
+    const heartbeat = report(address, 'a', 0);
+    vi.advanceTimersByTime(30_000);
+    expect(() => recordActivity(sepolia, heartbeat)).toThrow('Activity report was already received');
+  });
+
+  it('does not keep a session that ends with its first report', () => {
+    vi.useFakeTimers({ now: START });
+    const address = ethers.Wallet.createRandom().address;
+    recordActivity(sepolia, report(address, 'a', 0, true));
+    vi.advanceTimersByTime(30_000);
+    // Had it been kept, this would be refused as a report for an ended session
+    expect(recordActivity(sepolia, report(address, 'a', 30_000)).credited).toBe('0.0');
+  });
+
+  it('drops sessions that went silent', () => {
+    vi.useFakeTimers({ now: START + 60 * 60_000 });
+    const address = ethers.Wallet.createRandom().address;
+    recordActivity(sepolia, report(address, 'a', 0));
+    vi.advanceTimersByTime(5 * 60_000);
+    // A new session starts the sweep; the silent one then reopens with nothing credited for the gap
+    recordActivity(sepolia, report(address, 'b', 0));
+    expect(recordActivity(sepolia, report(address, 'a', 5 * 60_000)).credited).toBe('0.0');
+  });
+});
+
+describe('verifyActivityReport', () => {
+  const account = ethers.Wallet.createRandom();
+  const activityKey = ethers.Wallet.createRandom();
+
+  const signedReport = async (grant: ActivityKeyGrant, signer: ethers.BaseWallet = account) => {
+    const heartbeat = report(account.address, crypto.randomUUID(), 0);
+    return {
+      ...heartbeat,
+      grant,
+      grantSignature: await signer.signTypedData(ACTIVITY_DOMAIN, ACTIVITY_KEY_GRANT_TYPES, grant),
+      signature: signActivityReport(activityKey, heartbeat),
+    };
+  };
+
+  const grant = (): ActivityKeyGrant => ({
+    account: account.address,
+    activityKey: activityKey.address,
+    expiresAt: Math.floor(Date.now() / 1000) + 3600,
+  });
+
+  it('accepts a report signed by a key the account authorized', async () => {
+    const signed = await signedReport(grant());
+    expect(verifyActivityReport(signed)).toMatchObject({ address: account.address, sessionId: signed.sessionId });
+  });
+
+  it('rejects a key authorized by someone else', async () => {
+    const signed = await signedReport(grant(), ethers.Wallet.createRandom());
+    expect(() => verifyActivityReport(signed)).toThrow('Activity key was not authorized by this account');
+  });
+
+  it('rejects a report that was changed after signing', async () => {
+    const signed = await signedReport(grant());
+    expect(() => verifyActivityReport({ ...signed, visibleMs: 60_000 })).toThrow('Activity report was not signed by the authorized key');
+  });
+
+  it('rejects an expired key', async () => {
+    const signed = await signedReport({ ...grant(), expiresAt: Math.floor(Date.now() / 1000) - 1 });
+    expect(() => verifyActivityReport(signed)).toThrow('Activity key has expired');
+  });
+});
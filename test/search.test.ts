@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildSearchUrl,
+  DEFAULT_SEARCH_SETTINGS,
+  getSearchProvider,
+  resolveAddressInput,
+  validateSearchTemplate,
+} from '@/lib/search';
+
+describe('resolveAddressInput', () => {
+  const resolve = (input: string) => resolveAddressInput(input, DEFAULT_SEARCH_SETTINGS);
+
+  it('loads full URLs as typed', () => {
+    expect(resolve('  https://Example.com/a?b=1 ')).toEqual({ kind: 'url', url: 'https://example.com/a?b=1' });
+    expect(resolve('/home.html')).toEqual({ kind: 'url', url: '/home.html' });
+  });
+
+  it('adds https to bare hostnames and http to localhost and IP addresses', () => {
+    expect(resolve('burgerbrows.xyz/docs#faq')).toEqual({ kind: 'url', url: 'https://burgerbrows.xyz/docs#faq' });
+    expect(resolve('localhost:3000')).toEqual({ kind: 'url', url: 'http://localhost:3000' });
+    expect(resolve('192.168.1.1/admin')).toEqual({ kind: 'url', url: 'http://192.168.1.1/admin' });
+  });
+
+  it('searches for anything that does not look like an address', () => {
+    expect(resolve('best burgers near me')).toEqual({
+      kind: 'search',
+      url: 'https://duckduckgo.com/?q=best%20burgers%20near%20me',
+      query: 'best burgers near me',
+    });
+    expect(resolve('v1.2')).toMatchObject({ kind: 'search' });
+    expect(resolve('https://')).toMatchObject({ kind: 'search', query: 'https://' });
+  });
+
+  it('searches with the chosen provider', () => {
+    expect(resolveAddressInput('vitalik', { providerId: 'wikipedia', customTemplate: '' })).toMatchObject({
+      url: 'https://en.wikipedia.org/w/index.php?search=vitalik',
+    });
+  });
+});
+
+describe('search templates', () => {
+  it('requires an http(s) URL with a query placeholder', () => {
+    expect(validateSearchTemplate('https://search.example/?q=%s')).toBeNull();
+    expect(validateSearchTemplate('https://search.example/')).toMatch(/must contain %s/);
+    expect(validateSearchTemplate('ftp://search.example/%s')).toBe('Template must be an http(s) URL');
+    expect(validateSearchTemplate('not a url %s')).toBe('Template is not a valid URL');
+  });
+
+  it('uses a valid custom template and falls back to the default provider otherwise', () => {
+    const custom = { providerId: 'custom', customTemplate: 'https://search.example/find?q=%s' };
+    expect(getSearchProvider(custom)).toMatchObject({ id: 'custom', name: 'search.example' });
+    expect(buildSearchUrl(custom, ' a&b ')).toBe('https://search.example/find?q=a%26b');
+    expect(getSearchProvider({ providerId: 'custom', customTemplate: 'https://search.example/' }).id).toBe('duckduckgo');
+    expect(getSearchProvider({ providerId: 'removed', customTemplate: '' }).id).toBe('duckduckgo');
+  });
+});
@@ -0,0 +1,175 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { ethers } from 'ethers';
+import { describe, expect, it, vi } from 'vitest';
+import { useChainActions } from '@/hooks/useChainActions';
+import { useChainSession } from '@/hooks/useChainSession';
+import { useRewardPool } from '@/hooks/useRewardPool';
+import { useTxManager } from '@/hooks/useTxManager';
+import { createChainSession, type ChainSession } from '@/lib/chainSession';
+import type { ActiveSigner } from '@/lib/signers';
+import { REWARD_VOUCHER_TYPES, rewardPoolDomain, type RewardVoucher } from '@/lib/rewardPool';
+import { ANVIL_CHAIN_ID, anvilNetwork, DEV_KEYS, devSigner, getAnvil, send } from './chain';
+
+// Render useChainSession against the fixture and wait for it to connect
+const connectSession = async (network = anvilNetwork()) => {
+  const onLog = vi.fn();
+  const hook = renderHook(() => useChainSession(network, onLog));
+  await waitFor(() => expect(hook.result.current.session).not.toBeNull());
+  return { ...hook, onLog, session: hook.result.current.session! };
+};
+
+describe('useChainSession', () => {
+  it('connects to the network and exposes typed contract clients', async () => {
+    const { session, onLog, unmount } = await connectSession();
+    const { contracts } = getAnvil();
+
+    expect(session.chainId).toBe(ANVIL_CHAIN_ID);
+    expect(session.usdc.address).toBe(contracts.MOCK_USDC);
+    expect(session.vault.address).toBe(contracts.BROWSER_VAULT);
+    expect(await session.usdc.decimals()).toBe(6);
+    expect(await session.rewardPool.rewardSigner()).toBe(new ethers.Wallet(DEV_KEYS.deployer).address);
+    expect(onLog).toHaveBeenCalledWith(expect.stringContaining('🔗 Connected to RPC'));
+    unmount();
+  });
+
+  it('warns when the RPC serves a different chain than the network', async () => {
+    const { result, unmount } = await connectSession(anvilNetwork({ chainId: 1 }));
+    expect(result.current.session?.chainId).toBe(ANVIL_CHAIN_ID);
+    expect(result.current.chainWarning).toBe('RPC reports chain ID 31337, but Local Anvil/Hardhat is 1');
+    unmount();
+  });
+
+  it('stays disconnected when contract addresses are missing', () => {
+    const onLog = vi.fn();
+    const network = anvilNetwork({ contracts: {} });
+    const { result, unmount } = renderHook(() => useChainSession(network, onLog));
+    expect(result.current.session).toBeNull();
+    expect(onLog).toHaveBeenCalledWith('❌ Contract addresses not configured for Local Anvil/Hardhat');
+    unmount();
+  });
+
+  it('falls back to the next RPC URL when the first is down', async () => {
+    const { session, unmount } = await connectSession(anvilNetwork({ rpcUrls: ['http://127.0.0.1:1', getAnvil().rpcUrl] }));
+    expect(session.chainId).toBe(ANVIL_CHAIN_ID);
+    unmount();
+  });
+});
+
+describe('useRewardPool', () => {
+  it('loads the pool status and the account claims from the session', async () => {
+    const { session, unmount } = await connectSession();
+    const account = new ethers.Wallet(DEV_KEYS.hooks, session.provider);
+    const user = devSigner(account);
+    const rewardSigner = new ethers.Wallet(DEV_KEYS.deployer);
+
+    const usdcMint = new ethers.Interface(['function mint(address to, uint256 amount)']);
+    await send(user, { to: session.usdc.address, data: usdcMint.encodeFunctionData('mint', [session.rewardPool.address, ethers.parseUnits('10', 6)]) });
+    const { timestamp } = (await session.provider.getBlock('latest'))!;
+    const voucher: RewardVoucher = { account: account.address, amount: '2000000', nonce: '424242', deadline: timestamp + 600 };
+    const signature = await rewardSigner.signTypedData(rewardPoolDomain(ANVIL_CHAIN_ID, session.rewardPool.address), REWARD_VOUCHER_TYPES, voucher);
+    const receipt = await send(user, session.rewardPool.claimWithVoucher(voucher, signature));
+    // ethers caches the block number briefly; the claim history only searches up to it
+    await waitFor(async () => expect(await session.provider.getBlockNumber()).toBe(receipt!.blockNumber));
+
+    const pool = renderHook(() => useRewardPool(session, account.address, 6));
+    await waitFor(() => expect(pool.result.current.claims).toHaveLength(1));
+    expect(pool.result.current.status).toMatchObject({ claimable: '0.0', totalClaimed: '2.0' });
+    expect(pool.result.current.claims[0]).toMatchObject({ amount: '2.0', nonce: '424242' });
+    expect(pool.result.current.error).toBe('');
+
+    pool.unmount();
+    unmount();
+  });
+
+  it('is empty without a session', () => {
+    const { result, unmount } = renderHook(() => useRewardPool(null, undefined, 6));
+    expect(result.current.status).toBeNull();
+    expect(result.current.claims).toEqual([]);
+    unmount();
+  });
+});
+
+describe('useChainActions', () => {
+  // Run an action to completion while React keeps rendering, which the transaction manager's receipt polling needs
+  const complete = async <T,>(action: () => Promise<T>) => {
+    let outcome: { value: T } | undefined;
+    act(() => {
+      action().then(value => {
+        outcome = { value };
+      });
+    });
+    await waitFor(() => expect(outcome).toBeDefined(), { timeout: 15_000 });
+    return outcome!.value;
+  };
+
+  // The actions of the account behind `key`, sending through an in-memory transaction manager
+  const renderActions = (session: ChainSession, key: string) => {
+    const signer: ActiveSigner = {
+      source: 'device',
+      address: new ethers.Wallet(key).address,
+      name: 'Actions',
+      getSigner: async provider => new ethers.Wallet(key, provider),
+    };
+    const onLog = vi.fn();
+    const onTransfer = vi.fn();
+    const hook = renderHook(() => {
+      const txManager = useTxManager(session.provider, session.network, signer, () => {}, false);
+      return useChainActions({
+        session,
+        signer,
+        deviceId: 'test-device',
+        decimals: 6,
+        depositPath: 'self-paid',
+        txManager,
+        onLog,
+        onTransfer,
+      });
+    });
+    return { ...hook, address: signer.address, onLog, onTransfer };
+  };
+
+  // Anvil mines each send at once, faster than ethers stops reusing identical RPC answers (250ms by default),
+  // so the next send would see a stale pending nonce without turning that cache off
+  const uncachedSession = () =>
+    createChainSession(
+      anvilNetwork(),
+      new ethers.JsonRpcProvider(getAnvil().rpcUrl, ANVIL_CHAIN_ID, { staticNetwork: true, cacheTimeout: -1 }),
+      ANVIL_CHAIN_ID
+    );
+
+  it('deposits through an approve-then-deposit flow and sweeps vault and wallet USDC away', async () => {
+    const session = uncachedSession();
+    const actions = renderActions(session, DEV_KEYS.actions);
+    const recipient = '0x000000000000000000000000000000000000bEEF';
+    const usdcMint = new ethers.Interface(['function mint(address to, uint256 amount)']);
+    await send(devSigner(new ethers.Wallet(DEV_KEYS.hooks, session.provider)), {
+      to: session.usdc.address,
+      data: usdcMint.encodeFunctionData('mint', [actions.address, ethers.parseUnits('5', 6)]),
+    });
+
+    await complete(() => actions.result.current.deposit(ethers.parseUnits('3', 6)));
+    expect(await session.vault.balanceOf(actions.address)).toBe(ethers.parseUnits('3', 6));
+    expect(actions.onTransfer).toHaveBeenCalledTimes(1);
+
+    expect(await complete(() => actions.result.current.sweep(recipient))).toBe(true);
+    expect(await session.vault.balanceOf(actions.address)).toBe(BigInt(0));
+    expect(await session.usdc.balanceOf(actions.address)).toBe(BigInt(0));
+    expect(await session.usdc.balanceOf(recipient)).toBe(ethers.parseUnits('5', 6));
+
+    actions.unmount();
+    session.provider.destroy();
+  });
+
+  it('refuses a deposit larger than the wallet balance without sending anything', async () => {
+    const session = uncachedSession();
+    const actions = renderActions(session, DEV_KEYS.actions);
+
+    await complete(() => actions.result.current.deposit(ethers.parseUnits('1000', 6)));
+    expect(actions.onLog).toHaveBeenCalledWith(expect.stringContaining('Insufficient balance'), 'vault');
+    expect(actions.onTransfer).not.toHaveBeenCalled();
+
+    actions.unmount();
+    session.provider.destroy();
+  });
+});
@@ -0,0 +1,194 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { ethers } from 'ethers';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useWalletBridge, type BridgeFrame } from '@/hooks/useWalletBridge';
+import { MOCK_USDC_ABI } from '@/lib/contracts';
+import type { ActiveSigner } from '@/lib/signers';
+import {
+  BRIDGE_REQUEST,
+  BRIDGE_RESPONSE,
+  decodeSignMessage,
+  describeRequest,
+  parseTypedData,
+  ProviderRpcError,
+  RPC_ERRORS,
+} from '@/lib/walletBridge';
+
+const account = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+
+describe('describeRequest', () => {
+  it('decodes calls to the BurgerBrows contracts', () => {
+    const data = new ethers.Interface(MOCK_USDC_ABI).encodeFunctionData('transfer', [account.address, BigInt(2_500_000)]);
+    const details = describeRequest('eth_sendTransaction', [{ to: account.address, value: '0x0', data }]);
+    expect(details.rows).toEqual([
+      { label: 'To', value: account.address },
+      { label: 'Value', value: '0.0 ETH' },
+      { label: 'Call', value: `transfer(${account.address}, 2500000)` },
+    ]);
+    expect(details.raw).toBeUndefined();
+  });
+
+  it('shows unknown calldata raw', () => {
+    const details = describeRequest('eth_sendTransaction', [{ to: account.address, value: '0xde0b6b3a7640000', data: '0x12345678' }]);
+    expect(details.rows).toContainEqual({ label: 'Value', value: '1.0 ETH' });
+    expect(details.raw).toBe('0x12345678');
+  });
+
+  it('shows personal_sign messages as text', () => {
+    expect(describeRequest('personal_sign', [ethers.hexlify(ethers.toUtf8Bytes('Log in to BurgerBrows'))]).rows).toEqual([
+      { label: 'Message', value: 'Log in to BurgerBrows' },
+    ]);
+    expect(decodeSignMessage('0xff')).toBe('0xff');
+  });
+
+  it('summarizes typed data by its primary type and domain', () => {
+    const typedData = {
+      domain: { name: 'Mock USDC', verifyingContract: account.address },
+      types: { Permit: [{ name: 'value', type: 'uint256' }] },
+      primaryType: 'Permit',
+      message: { value: '1' },
+    };
+    const details = describeRequest('eth_signTypedData_v4', [account.address, JSON.stringify(typedData)]);
+    expect(details.rows).toEqual([
+      { label: 'Type', value: 'Permit' },
+      { label: 'Domain', value: `Mock USDC · ${account.address}` },
+    ]);
+  });
+});
+
+describe('parseTypedData', () => {
+  it('drops EIP712Domain, which ethers derives itself', () => {
+    const parsed = parseTypedData({
+      types: { EIP712Domain: [{ name: 'name', type: 'string' }], Mail: [{ name: 'body', type: 'string' }] },
+      message: { body: 'hi' },
+    });
+    expect(Object.keys(parsed.types)).toEqual(['Mail']);
+    expect(parsed.domain).toEqual({});
+  });
+
+  it('rejects payloads without types or a message as invalid params', () => {
+    expect(() => parseTypedData('{"types":{}}')).toThrow(ProviderRpcError);
+    expect(() => parseTypedData(null)).toThrow(expect.objectContaining({ code: RPC_ERRORS.invalidParams }));
+  });
+});
+
+describe('useWalletBridge', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.unstubAllGlobals();
+  });
+
+  const signer: ActiveSigner = {
+    source: 'device',
+    address: account.address,
+    name: 'Bridge',
+    getSigner: async provider => account.connect(provider),
+  };
+
+  // A framed page of `origin`, or a proxied page when it is null
+  const createFrame = (origin: string | null): BridgeFrame => {
+    const frame = document.createElement('iframe');
+    document.body.appendChild(frame);
+    return { frame, origin };
+  };
+
+  const renderBridge = (frames: BridgeFrame[]) =>
+    renderHook(() =>
+      useWalletBridge({
+        signer,
+        provider: null,
+        chainId: 31337,
+        getFrames: () => frames,
+        getThreat: () => null,
+        persist: false,
+        onLog: () => {},
+      })
+    );
+
+  // Post a request from a frame as its page would and resolve with the bridge's reply
+  const request = (frame: BridgeFrame, origin: string, method: string, params: unknown[] = [], page?: object) => {
+    const source = frame.frame.contentWindow!;
+    const reply = new Promise<{ result?: unknown; error?: { code: number; message: string } }>(resolve => {
+      vi.spyOn(source, 'postMessage').mockImplementation(message => {
+        if ((message as { type: string }).type === BRIDGE_RESPONSE) resolve(message as never);
+      });
+    });
+    act(() => {
+      window.dispatchEvent(new MessageEvent('message', {
+        data: { type: BRIDGE_REQUEST, id: 1, method, params, page },
+        origin,
+        source,
+      }));
+    });
+    return reply;
+  };
+
+  it('answers chain queries without asking and shares accounts only after approval', async () => {
+    const site = createFrame('https://dapp.example');
+    const other = createFrame('https://other.example');
+    const { result, unmount } = renderBridge([site, other]);
+
+    await expect(request(site, 'https://dapp.example', 'eth_chainId')).resolves.toMatchObject({ result: '0x7a69' });
+    await expect(request(site, 'https://dapp.example', 'eth_accounts')).resolves.toMatchObject({ result: [] });
+
+    const connecting = request(site, 'https://dapp.example', 'eth_requestAccounts');
+    await waitFor(() => expect(result.current.pendingRequest?.origin).toBe('https://dapp.example'));
+    act(() => result.current.pendingRequest!.approve());
+    await expect(connecting).resolves.toMatchObject({ result: [account.address] });
+    await waitFor(() => expect(result.current.connections.map(connection => connection.origin)).toEqual(['https://dapp.example']));
+
+    await expect(request(site, 'https://dapp.example', 'eth_accounts')).resolves.toMatchObject({ result: [account.address] });
+    await expect(request(other, 'https://other.example', 'eth_accounts')).resolves.toMatchObject({ result: [] });
+    unmount();
+  });
+
+  it('refuses signing for sites that have not connected and rejects declined requests', async () => {
+    const site = createFrame('https://dapp.example');
+    const { result, unmount } = renderBridge([site]);
+
+    await expect(request(site, 'https://dapp.example', 'personal_sign', ['0x68690a', account.address])).resolves.toMatchObject({
+      error: { code: RPC_ERRORS.unauthorized },
+    });
+
+    const connecting = request(site, 'https://dapp.example', 'eth_requestAccounts');
+    await waitFor(() => expect(result.current.pendingRequest).not.toBeNull());
+    act(() => result.current.pendingRequest!.reject());
+    await expect(connecting).resolves.toMatchObject({ error: { code: RPC_ERRORS.userRejected } });
+    expect(result.current.connections).toEqual([]);
+    unmount();
+  });
+
+  it('ignores messages from windows that are not tab frames', async () => {
+    const site = createFrame('https://dapp.example');
+    const stranger = createFrame('https://dapp.example');
+    const { unmount } = renderBridge([site]);
+
+    const reply = request(stranger, 'https://dapp.example', 'eth_chainId');
+    const outcome = await Promise.race([reply, new Promise(resolve => setTimeout(() => resolve('ignored'), 50))]);
+    expect(outcome).toBe('ignored');
+    unmount();
+  });
+
+  it('takes a proxied page origin from its verified page URL', async () => {
+    const proxied = createFrame(null);
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const { proof } = JSON.parse(String(init.body));
+      return Response.json({ valid: proof === 'a'.repeat(64) });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const { result, unmount } = renderBridge([proxied]);
+
+    const forged = request(proxied, 'null', 'eth_requestAccounts', [], { url: 'https://dapp.example/app', proof: 'b'.repeat(64) });
+    await expect(forged).resolves.toMatchObject({ error: { code: RPC_ERRORS.unauthorized } });
+    const unproven = request(proxied, 'null', 'eth_requestAccounts');
+    await expect(unproven).resolves.toMatchObject({ error: { code: RPC_ERRORS.unauthorized } });
+
+    const connecting = request(proxied, 'null', 'eth_requestAccounts', [], { url: 'https://dapp.example/app', proof: 'a'.repeat(64) });
+    await waitFor(() => expect(result.current.pendingRequest?.origin).toBe('https://dapp.example'));
+    act(() => result.current.pendingRequest!.approve());
+    await expect(connecting).resolves.toMatchObject({ result: [account.address] });
+    expect(fetchMock).toHaveBeenCalledWith('/api/proxy/verify', expect.objectContaining({ method: 'POST' }));
+    unmount();
+  });
+});
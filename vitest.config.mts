@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Starts one Anvil node with the mock contracts deployed for every test file
+    globalSetup: ['test/anvil.ts'],
+    // Test files share that node and its accounts, so run them one after another
+    fileParallelism: false,
+    testTimeout: 20_000,
+  },
+});